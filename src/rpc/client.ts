@@ -309,4 +309,9 @@ export interface IClient
 
 export interface IHandler {
   processCall(params: RpcRequest): Promise<RpcResponse>;
+  /**
+   * Sends several requests as a single JSON-RPC batch, resolving to the responses in any order.
+   * Handlers without batch support make `RpcClient` send the requests one by one.
+   */
+  processBatchCall?(params: RpcRequest[]): Promise<RpcResponse[]>;
 }
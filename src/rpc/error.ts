@@ -1,5 +1,8 @@
 import { jsonObject, jsonMember, AnyT } from 'typedjson';
 
+import { ExecutionResult } from '../types';
+import { SdkError } from '../types/SdkError';
+
 @jsonObject
 export class RpcError extends Error {
   @jsonMember({ constructor: Number })
@@ -47,3 +50,33 @@ export class HttpError<T extends Error = Error> extends Error {
     return err?.statusCode && err.sourceErr;
   }
 }
+
+/**
+ * Error rejecting a confirmation that did not complete within its timeout.
+ */
+export class ConfirmationTimeoutError extends SdkError {
+  constructor(public readonly hash: string, timeout: number) {
+    super(`Transaction ${hash} was not confirmed within ${timeout}ms`);
+    this.name = 'ConfirmationTimeoutError';
+  }
+}
+
+/**
+ * Error rejecting a confirmation once the transaction expired without being included in a block.
+ */
+export class TransactionExpiredError extends SdkError {
+  constructor(public readonly hash: string) {
+    super(`Transaction ${hash} expired before being processed`);
+    this.name = 'TransactionExpiredError';
+  }
+}
+
+/**
+ * Error thrown when a speculatively executed transaction fails, e.g. when estimating its gas.
+ */
+export class SpeculativeExecutionError extends SdkError {
+  constructor(public readonly executionResult: ExecutionResult) {
+    super(`Speculative execution failed: ${executionResult.errorMessage}`);
+    this.name = 'SpeculativeExecutionError';
+  }
+}
@@ -23,6 +23,7 @@ export class HttpHandler implements IHandler {
   private httpClient?: AxiosInstance;
   private referrer?: string;
   private customHeaders: Record<string, string> = {};
+  private timeout?: number;
 
   constructor(endpoint: string, client: 'axios' | 'fetch' = 'axios') {
     this.endpoint = endpoint;
@@ -40,6 +41,14 @@ export class HttpHandler implements IHandler {
     this.referrer = url;
   }
 
+  /**
+   * Sets the time in milliseconds after which a request is aborted.
+   * A timed out request fails with `ErrProcessHttpRequest`, like any other network error.
+   */
+  setRequestTimeout(timeout: number) {
+    this.timeout = timeout;
+  }
+
   /** @throws {HttpError, Error} */
   async processCall(params: RpcRequest): Promise<RpcResponse> {
     const serializer = new TypedJSON(RpcRequest);
@@ -60,7 +69,33 @@ export class HttpHandler implements IHandler {
     }
   }
 
-  private async processAxiosRequest(body: string): Promise<RpcResponse> {
+  /**
+   * Sends the requests as a single JSON-RPC batch.
+   * A node rejecting the whole batch answers with a single response, which is returned as the only item.
+   *
+   * @throws {HttpError, Error}
+   */
+  async processBatchCall(params: RpcRequest[]): Promise<RpcResponse[]> {
+    const serializer = new TypedJSON(RpcRequest);
+    let body: string;
+
+    try {
+      body = serializer.stringifyAsArray(params);
+    } catch (err) {
+      throw new Error(
+        `${ErrParamsJsonStringifyHandler.message}, details: ${err.message}`
+      );
+    }
+
+    const responses =
+      this.client === 'axios'
+        ? await this.processAxiosRequest<RpcResponse[] | RpcResponse>(body)
+        : await this.processFetchRequest<RpcResponse[] | RpcResponse>(body);
+
+    return Array.isArray(responses) ? responses : [responses];
+  }
+
+  private async processAxiosRequest<T = RpcResponse>(body: string): Promise<T> {
     const config: AxiosRequestConfig = {
       method: 'POST',
       url: this.endpoint,
@@ -68,11 +103,12 @@ export class HttpHandler implements IHandler {
         'Content-Type': 'application/json',
         ...this.customHeaders
       },
-      data: body
+      data: body,
+      ...(this.timeout ? { timeout: this.timeout } : {})
     };
 
     try {
-      const response = await this.httpClient!.request<RpcResponse>(config);
+      const response = await this.httpClient!.request<T>(config);
       if (response.status < 200 || response.status >= 300) {
         throw new HttpError(response.status, new Error(response.statusText));
       }
@@ -90,11 +126,17 @@ export class HttpHandler implements IHandler {
     }
   }
 
-  private async processFetchRequest(body: string): Promise<RpcResponse> {
+  private async processFetchRequest<T = RpcResponse>(body: string): Promise<T> {
+    const controller = this.timeout ? new AbortController() : undefined;
+    const timer = controller
+      ? setTimeout(() => controller.abort(), this.timeout)
+      : undefined;
+
     try {
       const response = await fetch(this.endpoint, {
         method: 'POST',
         ...(this.referrer ? { referrer: this.referrer } : {}),
+        ...(controller ? { signal: controller.signal } : {}),
         headers: {
           'Content-Type': 'application/json',
           ...this.customHeaders
@@ -106,11 +148,20 @@ export class HttpHandler implements IHandler {
         throw new HttpError(response.status, new Error(response.statusText));
       }
 
-      return response.json();
+      return await response.json();
     } catch (err) {
-      throw new Error(
-        `${ErrProcessHttpRequest.message}, details: ${err.message}`
-      );
+      if (HttpError.isHttpError(err)) {
+        throw err;
+      }
+
+      const details = controller?.signal.aborted
+        ? `timeout of ${this.timeout}ms exceeded`
+        : err.message;
+      throw new Error(`${ErrProcessHttpRequest.message}, details: ${details}`);
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
     }
   }
 }
@@ -6,3 +6,5 @@ export * from './request'
 export * from './response'
 export * from './rpc_client'
 export * from './speculative_client'
+export * from './retry_handler'
+export * from './multi_endpoint_handler'
@@ -0,0 +1,168 @@
+import { HttpHandler } from './http_handler';
+import { RpcRequest } from './request';
+import { RpcResponse } from './response';
+import { IHandler } from './client';
+import { DEFAULT_RETRY_POLICY, isRetryableError } from './retry_handler';
+
+/**
+ * Defines the order in which a `MultiEndpointHandler` tries its endpoints.
+ */
+export enum EndpointSelectionStrategy {
+  /**
+   * Always starts with the first healthy endpoint, the others are only used when it fails.
+   */
+  Failover = 'failover',
+  /**
+   * Starts every call with the next healthy endpoint, spreading the load across all of them.
+   */
+  RoundRobin = 'round-robin'
+}
+
+/**
+ * Options for creating a `MultiEndpointHandler`.
+ */
+export interface MultiEndpointHandlerOptions {
+  /**
+   * The order in which the endpoints are tried. Defaults to `EndpointSelectionStrategy.Failover`.
+   */
+  strategy?: EndpointSelectionStrategy;
+  /**
+   * How long a failed endpoint stays out of rotation, in milliseconds. Defaults to `30000`.
+   */
+  unhealthyTimeout?: number;
+  /**
+   * The HTTP status codes for which the next endpoint is tried. Defaults to the ones of `DEFAULT_RETRY_POLICY`.
+   */
+  retryableStatusCodes?: number[];
+}
+
+interface Endpoint {
+  handler: IHandler;
+  unhealthyUntil: number;
+}
+
+/**
+ * An `IHandler` spreading calls across several nodes.
+ *
+ * When a node fails with a network error or a retryable HTTP status code, it is taken out of rotation
+ * for `unhealthyTimeout` milliseconds and the call moves on to the next node. Nodes out of rotation are
+ * only tried as a last resort, when every other node failed as well.
+ *
+ * @example
+ * ```ts
+ * const rpcClient = new RpcClient(
+ *   new MultiEndpointHandler(
+ *     ['http://<Node Address 1>:7777/rpc', 'http://<Node Address 2>:7777/rpc'],
+ *     { strategy: EndpointSelectionStrategy.RoundRobin }
+ *   )
+ * );
+ * ```
+ */
+export class MultiEndpointHandler implements IHandler {
+  private endpoints: Endpoint[];
+  private strategy: EndpointSelectionStrategy;
+  private unhealthyTimeout: number;
+  private retryableStatusCodes: number[];
+  private nextIndex = 0;
+
+  /**
+   * @param handlers - The handlers of the nodes, or their RPC endpoint URLs to create `HttpHandler`s for.
+   * @param options - (Optional) The selection strategy and health tracking options.
+   */
+  constructor(
+    handlers: Array<IHandler | string>,
+    options: MultiEndpointHandlerOptions = {}
+  ) {
+    if (handlers.length === 0) {
+      throw new Error('At least one endpoint is required');
+    }
+
+    this.endpoints = handlers.map(handler => ({
+      handler: typeof handler === 'string' ? new HttpHandler(handler) : handler,
+      unhealthyUntil: 0
+    }));
+    this.strategy = options.strategy ?? EndpointSelectionStrategy.Failover;
+    this.unhealthyTimeout = options.unhealthyTimeout ?? 30000;
+    this.retryableStatusCodes =
+      options.retryableStatusCodes ?? DEFAULT_RETRY_POLICY.retryableStatusCodes;
+  }
+
+  /**
+   * Returns the handlers currently in rotation.
+   */
+  getHealthyHandlers(): IHandler[] {
+    const now = Date.now();
+    return this.endpoints
+      .filter(endpoint => endpoint.unhealthyUntil <= now)
+      .map(endpoint => endpoint.handler);
+  }
+
+  /** @throws {HttpError, Error} The error of the last endpoint tried */
+  async processCall(params: RpcRequest): Promise<RpcResponse> {
+    return this.withFailover(handler => handler.processCall(params));
+  }
+
+  /**
+   * Sends the whole batch to a single node, moving on to the next one when the batch itself fails.
+   * The requests are sent one by one to the nodes whose handler does not support batches.
+   *
+   * @throws {HttpError, Error} The error of the last endpoint tried
+   */
+  async processBatchCall(params: RpcRequest[]): Promise<RpcResponse[]> {
+    return this.withFailover(handler => {
+      if (!handler.processBatchCall) {
+        return Promise.all(params.map(request => handler.processCall(request)));
+      }
+
+      return handler.processBatchCall(params);
+    });
+  }
+
+  private async withFailover<T>(
+    call: (handler: IHandler) => Promise<T>
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (const endpoint of this.getCandidates()) {
+      try {
+        const response = await call(endpoint.handler);
+        endpoint.unhealthyUntil = 0;
+        return response;
+      } catch (err) {
+        if (!isRetryableError(err, this.retryableStatusCodes)) {
+          throw err;
+        }
+
+        endpoint.unhealthyUntil = Date.now() + this.unhealthyTimeout;
+        lastError = err;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Orders the endpoints for a call: the healthy ones according to the strategy,
+   * followed by the unhealthy ones, the closest to recovery first.
+   */
+  private getCandidates(): Endpoint[] {
+    const now = Date.now();
+    let healthy = this.endpoints.filter(
+      endpoint => endpoint.unhealthyUntil <= now
+    );
+    const unhealthy = this.endpoints
+      .filter(endpoint => endpoint.unhealthyUntil > now)
+      .sort((a, b) => a.unhealthyUntil - b.unhealthyUntil);
+
+    if (
+      this.strategy === EndpointSelectionStrategy.RoundRobin &&
+      healthy.length > 0
+    ) {
+      const start = this.nextIndex % healthy.length;
+      healthy = [...healthy.slice(start), ...healthy.slice(0, start)];
+      this.nextIndex = start + 1;
+    }
+
+    return [...healthy, ...unhealthy];
+  }
+}
@@ -41,6 +41,7 @@ export enum Method {
   PutDeploy = 'account_put_deploy',
   PutTransaction = 'account_put_transaction',
   SpeculativeExec = 'speculative_exec',
+  SpeculativeExecTxn = 'speculative_exec_txn',
   QueryBalance = 'query_balance',
   QueryBalanceDetails = 'query_balance_details',
   InfoGetChainspec = 'info_get_chainspec'
@@ -556,6 +557,19 @@ export class SpeculativeExecParams {
   }
 }
 
+@jsonObject
+export class SpeculativeExecTxnParams {
+  @jsonMember({
+    constructor: TransactionWrapper,
+    serializer: val => TransactionWrapper.toJSON(val)
+  })
+  transaction: TransactionWrapper;
+
+  constructor(transaction: TransactionWrapper) {
+    this.transaction = transaction;
+  }
+}
+
 @jsonObject
 export class PurseIdentifier {
   @jsonMember({
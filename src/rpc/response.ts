@@ -813,7 +813,7 @@ export class SpeculativeExecResult {
       return value.toJSON();
     }
   })
-  blockHash: Hash;
+  blockHash?: Hash;
 
   @jsonMember({ name: 'execution_result', constructor: ExecutionResult })
   executionResult: ExecutionResult;
@@ -0,0 +1,138 @@
+import { HttpError } from './error';
+import { ErrProcessHttpRequest } from './http_handler';
+import { RpcRequest } from './request';
+import { RpcResponse } from './response';
+import { IHandler } from './client';
+
+/**
+ * Options controlling when and how often a failed request is retried.
+ */
+export interface RetryPolicy {
+  /**
+   * The maximum number of retries after the first attempt. Defaults to `3`.
+   */
+  maxRetries?: number;
+  /**
+   * The delay before the first retry, in milliseconds. Defaults to `200`.
+   */
+  initialDelay?: number;
+  /**
+   * The upper bound of the delay between retries, in milliseconds. Defaults to `5000`.
+   */
+  maxDelay?: number;
+  /**
+   * The factor the delay grows by after every retry. Defaults to `2`.
+   */
+  multiplier?: number;
+  /**
+   * The HTTP status codes worth retrying. Defaults to `[408, 429, 500, 502, 503, 504]`.
+   */
+  retryableStatusCodes?: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: 3,
+  initialDelay: 200,
+  maxDelay: 5000,
+  multiplier: 2,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504]
+};
+
+/**
+ * Determines whether a request failed in a way another attempt could fix:
+ * a network error, a timeout, or an `HttpError` with one of the given status codes.
+ *
+ * @param err - The error thrown by an `IHandler`.
+ * @param retryableStatusCodes - The HTTP status codes worth retrying.
+ */
+export const isRetryableError = (
+  err: unknown,
+  retryableStatusCodes: number[] = DEFAULT_RETRY_POLICY.retryableStatusCodes
+): boolean => {
+  if (HttpError.isHttpError(err)) {
+    return retryableStatusCodes.indexOf(err.statusCode) !== -1;
+  }
+
+  return (
+    err instanceof Error &&
+    err.message.startsWith(ErrProcessHttpRequest.message)
+  );
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * An `IHandler` retrying the calls of the wrapped handler with an exponential backoff
+ * when they fail with a network error or a retryable HTTP status code.
+ *
+ * @example
+ * ```ts
+ * const httpHandler = new HttpHandler('http://<Node Address>:7777/rpc');
+ * httpHandler.setRequestTimeout(10000);
+ *
+ * const rpcClient = new RpcClient(
+ *   new RetryHandler(httpHandler, { maxRetries: 5 })
+ * );
+ * ```
+ */
+export class RetryHandler implements IHandler {
+  private policy: Required<RetryPolicy>;
+
+  /**
+   * @param handler - The handler whose calls are retried.
+   * @param policy - (Optional) The retry policy, merged with `DEFAULT_RETRY_POLICY`.
+   */
+  constructor(private handler: IHandler, policy: RetryPolicy = {}) {
+    this.policy = { ...DEFAULT_RETRY_POLICY, ...policy };
+  }
+
+  /** @throws {HttpError, Error} The error of the last attempt */
+  async processCall(params: RpcRequest): Promise<RpcResponse> {
+    return this.withRetries(() => this.handler.processCall(params));
+  }
+
+  /**
+   * Retries the whole batch, which is sent again only when the batch itself fails,
+   * not when some of its requests are answered with an error.
+   * When the wrapped handler does not support batches, the requests are sent and retried one by one.
+   *
+   * @throws {HttpError, Error} The error of the last attempt
+   */
+  async processBatchCall(params: RpcRequest[]): Promise<RpcResponse[]> {
+    const { handler } = this;
+
+    if (!handler.processBatchCall) {
+      return Promise.all(params.map(request => this.processCall(request)));
+    }
+
+    return this.withRetries(() => handler.processBatchCall!(params));
+  }
+
+  private async withRetries<T>(call: () => Promise<T>): Promise<T> {
+    const {
+      maxRetries,
+      initialDelay,
+      maxDelay,
+      multiplier,
+      retryableStatusCodes
+    } = this.policy;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await call();
+      } catch (err) {
+        if (
+          attempt >= maxRetries ||
+          !isRetryableError(err, retryableStatusCodes)
+        ) {
+          throw err;
+        }
+
+        await sleep(
+          Math.min(initialDelay * Math.pow(multiplier, attempt), maxDelay)
+        );
+      }
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { TypedJSON } from 'typedjson';
+import { Err, Ok, Result } from 'ts-results';
 
 import { IClient, IHandler } from './client';
 import {
@@ -66,9 +67,30 @@ import {
   Transaction,
   AuctionState
 } from '../types';
-import { HttpError } from './error';
+import { ConfirmationTimeoutError, HttpError } from './error';
 import { sleep } from '../utils';
 
+/**
+ * Turns a response into a result, failing it with an `HttpError` when the node answered with an error.
+ */
+const toBatchResult = (response: RpcResponse): Result<RpcResponse, Error> =>
+  response.error
+    ? Err(new HttpError(response.error.code, response.error))
+    : Ok(response);
+
+/**
+ * Returns the id a response was sent for, which handlers may leave as the raw JSON value.
+ */
+const responseId = (response: RpcResponse): string | undefined => {
+  const id: unknown = response.id;
+
+  if (id === undefined || id === null) {
+    return undefined;
+  }
+
+  return id instanceof IDValue ? id.toString() : String(id);
+};
+
 export class RpcClient implements IClient {
   private handler: IHandler;
 
@@ -1392,8 +1414,9 @@ export class RpcClient implements IClient {
    * @param timeout - The maximum time (in milliseconds) to wait for confirmation.
    * @param maxRetries - The maximum number of retries for transient errors.
    * @param retryDelay - The delay (in milliseconds) between retry attempts.
-   * @returns A promise that resolves with the transaction info if confirmed, otherwise rejects on timeout or persistent errors.
-   * @throws {Error} If the timeout is reached before confirmation or if getInfo fails consistently beyond the allowed retries.
+   * @returns A promise that resolves with the transaction info once executed.
+   * @throws {ConfirmationTimeoutError} If the timeout is reached before confirmation.
+   * @throws {Error} If getInfo fails consistently beyond the allowed retries.
    */
   private async waitForConfirmation<T>(
     getInfo: (hash: string) => Promise<T>,
@@ -1402,43 +1425,38 @@ export class RpcClient implements IClient {
     maxRetries = 3,
     retryDelay = 500
   ): Promise<T> {
-    const timer = setTimeout(() => {
-      throw new Error('Timeout');
-    }, timeout);
-
+    const deadline = Date.now() + timeout;
     let attempts = 0;
 
-    while (true) {
+    while (Date.now() < deadline) {
       try {
         const info = await getInfo(hash);
         if ((info as any)?.executionInfo?.executionResult) {
-          clearTimeout(timer);
           return info;
         }
       } catch (error) {
         if (attempts >= maxRetries) {
-          clearTimeout(timer);
           throw new Error(
             `Failed after ${maxRetries} retries: ${error.message}`
           );
         }
         attempts++;
-        console.warn(
-          `Attempt ${attempts} failed: ${error.message}. Retrying in ${retryDelay}ms...`
-        );
-        await sleep(retryDelay);
+        await sleep(Math.min(retryDelay, deadline - Date.now()));
         continue;
       }
-      await sleep(400);
+      await sleep(Math.min(400, deadline - Date.now()));
     }
+
+    throw new ConfirmationTimeoutError(hash, timeout);
   }
 
   /**
-   * Waits for a transaction to be confirmed on-chain.
+   * Waits for a transaction to be confirmed on-chain by polling the node.
+   * Use a `ConfirmationTracker` to wait for SSE events instead, or for a number of blocks after inclusion.
    * @param transaction - The transaction instance.
    * @param timeout - Optional timeout in milliseconds (default: 6000ms).
    * @returns A promise that resolves to `InfoGetTransactionResult` if successful.
-   * @throws An error if the transaction times out.
+   * @throws {ConfirmationTimeoutError} If the transaction times out.
    */
   public async waitForTransaction(
     transaction: Transaction,
@@ -1452,11 +1470,12 @@ export class RpcClient implements IClient {
   }
 
   /**
-   * Waits for a deploy to be confirmed on-chain.
+   * Waits for a deploy to be confirmed on-chain by polling the node.
+   * Use a `ConfirmationTracker` to wait for SSE events instead, or for a number of blocks after inclusion.
    * @param deploy - The deploy instance.
    * @param timeout - Optional timeout in milliseconds (default: 60000ms).
    * @returns A promise that resolves to `InfoGetDeployResult` if successful.
-   * @throws An error if the deploy times out.
+   * @throws {ConfirmationTimeoutError} If the deploy times out.
    */
   public async waitForDeploy(
     deploy: Deploy,
@@ -1469,6 +1488,170 @@ export class RpcClient implements IClient {
     );
   }
 
+  /**
+   * Sends several requests as a single JSON-RPC 2.0 batch.
+   *
+   * Each request is given a unique id within the batch, by which the responses are matched back to it,
+   * so the results are in the order of `requests`. A request answered with an error fails on its own,
+   * without affecting the rest of the batch. Handlers without batch support send the requests one by one.
+   *
+   * @param requests - The requests to send, e.g. created with `RpcRequest.defaultRpcRequest`.
+   * @returns A promise that resolves to the response of every request, or the error it failed with.
+   *
+   * @example
+   * ```ts
+   * const [status, peers] = await rpcClient.batch([
+   *   RpcRequest.defaultRpcRequest(Method.GetStatus, null),
+   *   RpcRequest.defaultRpcRequest(Method.GetPeers, null)
+   * ]);
+   *
+   * if (status.ok) {
+   *   console.log(status.val.result);
+   * }
+   * ```
+   */
+  async batch(requests: RpcRequest[]): Promise<Result<RpcResponse, Error>[]> {
+    const batch = requests.map(
+      (request, index) =>
+        new RpcRequest(
+          request.version,
+          request.method,
+          request.params,
+          IDValue.fromInt(index)
+        )
+    );
+
+    if (batch.length === 0) {
+      return [];
+    }
+
+    if (!this.handler.processBatchCall) {
+      return Promise.all(
+        batch.map(request =>
+          this.handler.processCall(request).then(toBatchResult, err => Err(err))
+        )
+      );
+    }
+
+    let responses: RpcResponse[];
+
+    try {
+      responses = await this.handler.processBatchCall(batch);
+    } catch (err) {
+      return batch.map(() => Err(err));
+    }
+
+    const responsesById = new Map<string, RpcResponse>();
+    // A node rejecting the whole batch answers with a single error without an id
+    let batchError: RpcResponse | undefined;
+
+    responses.forEach(response => {
+      const id = responseId(response);
+
+      if (id !== undefined) {
+        responsesById.set(id, response);
+      } else if (response.error) {
+        batchError = response;
+      }
+    });
+
+    return batch.map(request => {
+      const id = request.id!.toString();
+      const response = responsesById.get(id) ?? batchError;
+
+      return response
+        ? toBatchResult(response)
+        : Err(new Error(`Missing response for batch request with id ${id}`));
+    });
+  }
+
+  /**
+   * Retrieves several blocks by their heights in a single batch.
+   * @param heights - The heights of the blocks.
+   * @returns A promise that resolves to the block at every height, or the error it failed with.
+   */
+  async getBlocksByHeight(
+    heights: number[]
+  ): Promise<Result<ChainGetBlockResult, Error>[]> {
+    const serializer = new TypedJSON(ParamBlockIdentifier);
+
+    return this.processBatchRequest(
+      heights.map(height =>
+        RpcRequest.defaultRpcRequest(
+          Method.GetBlock,
+          serializer.toPlainJson(ParamBlockIdentifier.byHeight(height))
+        )
+      ),
+      result => this.parseBlockResult(result)
+    );
+  }
+
+  /**
+   * Retrieves several blocks by their hashes in a single batch.
+   * @param hashes - The hex-encoded hashes of the blocks.
+   * @returns A promise that resolves to the block of every hash, or the error it failed with.
+   */
+  async getBlocksByHash(
+    hashes: string[]
+  ): Promise<Result<ChainGetBlockResult, Error>[]> {
+    const serializer = new TypedJSON(ParamBlockIdentifier);
+
+    return this.processBatchRequest(
+      hashes.map(hash =>
+        RpcRequest.defaultRpcRequest(
+          Method.GetBlock,
+          serializer.toPlainJson(ParamBlockIdentifier.byHash(hash))
+        )
+      ),
+      result => this.parseBlockResult(result)
+    );
+  }
+
+  /**
+   * Retrieves the balances of several purses at the same state root hash in a single batch.
+   * @param purseURefs - The formatted URefs of the purses.
+   * @param stateRootHash - The state root hash to read the balances at.
+   * @returns A promise that resolves to the balance of every purse, or the error it failed with.
+   */
+  async getBalancesByStateRootHash(
+    purseURefs: string[],
+    stateRootHash: string
+  ): Promise<Result<StateGetBalanceResult, Error>[]> {
+    const serializer = new TypedJSON(StateGetBalanceRequest);
+
+    return this.processBatchRequest(
+      purseURefs.map(purseURef =>
+        RpcRequest.defaultRpcRequest(
+          Method.GetStateBalance,
+          serializer.toPlainJson(
+            new StateGetBalanceRequest(stateRootHash, purseURef)
+          )
+        )
+      ),
+      result => {
+        const balance = this.parseResponse(StateGetBalanceResult, result);
+        balance.rawJSON = result;
+        return balance;
+      }
+    );
+  }
+
+  private parseBlockResult(result: any): ChainGetBlockResult {
+    const v1Compatible = this.parseResponse(
+      ChainGetBlockResultV1Compatible,
+      result
+    );
+    v1Compatible.rawJSON = result;
+
+    const blockResult = ChainGetBlockResult.newChainGetBlockResultFromV1Compatible(
+      v1Compatible,
+      result
+    );
+    blockResult.rawJSON = result;
+
+    return blockResult;
+  }
+
   private parseResponse<T>(type: new (params: any) => T, response: any): T {
     const serializer = new TypedJSON(type);
     const parsed = serializer.parse(response);
@@ -1478,6 +1661,25 @@ export class RpcClient implements IClient {
     return parsed as T;
   }
 
+  private async processBatchRequest<T>(
+    requests: RpcRequest[],
+    parse: (result: any) => T
+  ): Promise<Result<T, Error>[]> {
+    const responses = await this.batch(requests);
+
+    return responses.map(response => {
+      if (response.err) {
+        return response;
+      }
+
+      try {
+        return Ok(parse(response.val.result));
+      } catch (err) {
+        return Err(err);
+      }
+    });
+  }
+
   private async processRequest<Request>(
     method: Method,
     params: Request,
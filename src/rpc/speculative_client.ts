@@ -1,15 +1,131 @@
 import { TypedJSON } from 'typedjson';
+import { BigNumber } from '@ethersproject/bignumber';
 
 import {
   BlockIdentifier,
   Method,
   RpcRequest,
-  SpeculativeExecParams
+  SpeculativeExecParams,
+  SpeculativeExecTxnParams
 } from './request';
 import { RpcResponse, SpeculativeExecResult } from './response';
 import { IHandler } from './client';
 import { IDValue } from './id_value';
-import { ExecutionResult, Deploy, Hash } from '../types';
+import { HttpError, SpeculativeExecutionError } from './error';
+import {
+  ExecutionResult,
+  ExecutionResultV1,
+  Deploy,
+  Hash,
+  Transaction,
+  TransactionV1,
+  Transfer,
+  Transform
+} from '../types';
+
+/**
+ * Options for turning the result of a speculative execution into a `GasEstimate`.
+ */
+export interface GasEstimateOptions {
+  /**
+   * The safety margin added on top of the consumed gas, as a fraction of it. Defaults to `0.1`.
+   */
+  margin?: number;
+  /**
+   * The lower bound of the estimated payment amount. Defaults to `0`.
+   */
+  minimumPayment?: number;
+  /**
+   * The gas price the transaction is willing to pay, used to estimate its cost. Defaults to `1`.
+   */
+  gasPrice?: number;
+}
+
+/**
+ * The gas and cost estimated for a transaction from its speculative execution.
+ */
+export interface GasEstimate {
+  /**
+   * The gas consumed by the speculative execution.
+   */
+  consumed: number;
+  /**
+   * The consumed gas with the safety margin applied, to be passed to `TransactionBuilder.payment()`.
+   */
+  paymentAmount: number;
+  /**
+   * The estimated cost in motes, `paymentAmount` multiplied by the gas price.
+   */
+  cost: number;
+}
+
+/**
+ * Estimates the payment of a transaction from the result of its speculative execution.
+ *
+ * @param executionResult - The result returned by `SpeculativeClient.speculativeExec()`.
+ * @param options - (Optional) The safety margin, minimum payment and gas price of the estimate.
+ * @returns The gas estimate.
+ * @throws {SpeculativeExecutionError} If the speculative execution failed.
+ *
+ * @example
+ * ```ts
+ * const { executionResult } = await speculativeClient.speculativeExec('0', transaction);
+ * const { paymentAmount } = toGasEstimate(executionResult, { margin: 0.2 });
+ *
+ * builder.payment(paymentAmount);
+ * ```
+ */
+export const toGasEstimate = (
+  executionResult: ExecutionResult,
+  options: GasEstimateOptions = {}
+): GasEstimate => {
+  const { margin = 0.1, minimumPayment = 0, gasPrice = 1 } = options;
+
+  if (executionResult.errorMessage) {
+    throw new SpeculativeExecutionError(executionResult);
+  }
+
+  const consumed = executionResult.consumed ?? 0;
+  const paymentAmount = Math.max(
+    Math.ceil(consumed * (1 + margin)),
+    minimumPayment
+  );
+
+  return { consumed, paymentAmount, cost: paymentAmount * gasPrice };
+};
+
+/**
+ * Parses the `execution_result` of a speculative execution, which is
+ * an `ExecutionResultV1` on 1.x nodes and a flat speculative result on 2.x nodes.
+ */
+const parseExecutionResult = (json: any): ExecutionResult => {
+  if (json?.Version1 || json?.Version2) {
+    return ExecutionResult.fromJSON(json);
+  }
+
+  if (json?.Success || json?.Failure) {
+    const executionResultV1 = TypedJSON.parse(json, ExecutionResultV1);
+
+    if (executionResultV1) {
+      return ExecutionResult.fromV1(executionResultV1);
+    }
+  }
+
+  if (!json || json.consumed === undefined) {
+    throw new Error('Incorrect RPC response structure');
+  }
+
+  const result = new ExecutionResult();
+  result.limit = BigNumber.from(json.limit ?? 0).toNumber();
+  result.consumed = BigNumber.from(json.consumed).toNumber();
+  result.errorMessage = json.error ?? undefined;
+  result.transfers = (json.transfers ?? []).map((transfer: any) =>
+    Transfer.fromJSON(transfer)
+  );
+  result.effects = TypedJSON.parseAsArray(json.effects ?? [], Transform);
+
+  return result;
+};
 
 export class SpeculativeClient {
   private handler: IHandler;
@@ -22,18 +138,23 @@ export class SpeculativeClient {
     return new SpeculativeClient(handler);
   }
 
+  /**
+   * Executes a deploy or a transaction against the global state of a block, without committing its effects.
+   * Deploys are sent with `speculative_exec`, `TransactionV1`s with `speculative_exec_txn`.
+   *
+   * @param reqID - The id of the RPC request, `'0'` for the default one.
+   * @param transaction - The deploy or transaction to execute.
+   * @param identifier - (Optional) The block to execute a deploy against, defaults to the latest one.
+   * Not supported for `TransactionV1`.
+   * @returns The execution result and, when reported by the node, the hash of the block it was executed against.
+   * @throws {HttpError} If the node responds with an error.
+   */
   async speculativeExec(
     reqID: string,
-    deploy: Deploy,
+    transaction: Deploy | Transaction | TransactionV1,
     identifier?: BlockIdentifier
   ): Promise<SpeculativeExecResult> {
-    const serializer = new TypedJSON(SpeculativeExecParams);
-    const speculativeParams = new SpeculativeExecParams(deploy, identifier);
-
-    const request = RpcRequest.defaultRpcRequest(
-      Method.SpeculativeExec,
-      serializer.toPlainJson(speculativeParams)
-    );
+    const request = this.newRequest(transaction, identifier);
 
     if (reqID && reqID !== '0') {
       request.id = new IDValue(reqID);
@@ -46,7 +167,7 @@ export class SpeculativeClient {
     }
 
     if (resp.error) {
-      throw new Error(`RPC call failed, details: ${resp.error}`);
+      throw new HttpError(resp.error.code, resp.error);
     }
 
     try {
@@ -57,13 +178,72 @@ export class SpeculativeClient {
         throw new Error(`Error parsing JSON`);
       }
 
+      const blockHash =
+        resp.result?.block_hash ?? resp.result?.execution_result?.block_hash;
+
       const result = new SpeculativeExecResult();
-      result.apiVersion = data.version;
-      result.executionResult = ExecutionResult.fromJSON(resp.result);
-      result.blockHash = Hash.fromHex(identifier?.hash ?? '');
+      result.apiVersion = resp.result?.api_version ?? data.version;
+      result.executionResult = parseExecutionResult(
+        resp.result?.execution_result ?? resp.result
+      );
+      result.blockHash = blockHash ? Hash.fromJSON(blockHash) : undefined;
+      result.rawJSON = resp.result;
       return result;
     } catch (error) {
       throw new Error(`Error parsing JSON, details: ${error}`);
     }
   }
+
+  /**
+   * Speculatively executes a deploy or a transaction and estimates the payment it requires.
+   *
+   * @param transaction - The deploy or transaction to estimate.
+   * @param options - (Optional) The safety margin, minimum payment and gas price of the estimate.
+   * @returns The gas estimate.
+   * @throws {HttpError} If the node responds with an error.
+   * @throws {SpeculativeExecutionError} If the speculative execution failed.
+   */
+  async estimateGas(
+    transaction: Deploy | Transaction | TransactionV1,
+    options?: GasEstimateOptions
+  ): Promise<GasEstimate> {
+    const { executionResult } = await this.speculativeExec('0', transaction);
+    return toGasEstimate(executionResult, options);
+  }
+
+  private newRequest(
+    transaction: Deploy | Transaction | TransactionV1,
+    identifier?: BlockIdentifier
+  ): RpcRequest {
+    const wrapped =
+      transaction instanceof TransactionV1
+        ? Transaction.fromTransactionV1(transaction)
+        : transaction;
+    const deploy =
+      wrapped instanceof Transaction ? wrapped.getDeploy() : wrapped;
+
+    if (deploy) {
+      return RpcRequest.defaultRpcRequest(
+        Method.SpeculativeExec,
+        new TypedJSON(SpeculativeExecParams).toPlainJson(
+          new SpeculativeExecParams(deploy, identifier)
+        )
+      );
+    }
+
+    if (identifier) {
+      throw new Error(
+        'Block identifier is not supported for speculative execution of TransactionV1'
+      );
+    }
+
+    return RpcRequest.defaultRpcRequest(
+      Method.SpeculativeExecTxn,
+      new TypedJSON(SpeculativeExecTxnParams).toPlainJson(
+        new SpeculativeExecTxnParams(
+          (wrapped as Transaction).getTransactionWrapper()
+        )
+      )
+    );
+  }
 }
@@ -1,8 +1,9 @@
 import EventSource from 'eventsource';
 import { Result, Ok, Err } from 'ts-results';
 
-import { EventName, RawEvent } from './event';
+import { EventName, EventTypeMap, RawEvent } from './event';
 import { EventParser } from './event_parser';
+import { SseEventStream, SseEventStreamOptions } from './stream';
 
 /**
  * Type definition for an event handler function.
@@ -11,6 +12,30 @@ import { EventParser } from './event_parser';
  */
 export type EventHandlerFn = (result: RawEvent) => void;
 
+/**
+ * Type definition for a handler receiving the parsed payload of a specific event.
+ *
+ * @param event - The event parsed into the type registered for its name in `EventTypeMap`.
+ * @param rawEvent - The RawEvent the payload was parsed from.
+ */
+export type TypedEventHandlerFn<K extends EventName> = (
+  event: EventTypeMap[K],
+  rawEvent: RawEvent
+) => void;
+
+/**
+ * Type definition for a callback receiving the errors raised while parsing events.
+ *
+ * @param error - The error raised by the parser.
+ * @param rawEvent - The RawEvent that failed to parse.
+ */
+export type EventErrorHandlerFn = (error: unknown, rawEvent: RawEvent) => void;
+
+/**
+ * Removes the subscription it was returned for.
+ */
+export type UnsubscribeFn = () => void;
+
 /**
  * Interface representing an event subscription.
  */
@@ -25,25 +50,144 @@ export interface EventSubscription {
   eventHandlerFn: EventHandlerFn;
 }
 
+/**
+ * The state of the connection to the event stream.
+ */
+export enum SseConnectionState {
+  Connecting = 'connecting',
+  Open = 'open',
+  Reconnecting = 'reconnecting',
+  Closed = 'closed'
+}
+
+/**
+ * Type definition for a connection state change callback.
+ *
+ * @param state - The new state of the connection.
+ * @param error - The error that caused the change, if any.
+ */
+export type ConnectionStateHandlerFn = (
+  state: SseConnectionState,
+  error?: unknown
+) => void;
+
+/**
+ * Options controlling how the client reconnects after the connection is lost.
+ */
+export interface SseReconnectOptions {
+  /**
+   * Whether the client reconnects automatically. Defaults to `true`.
+   */
+  enabled?: boolean;
+  /**
+   * The delay before the first reconnection attempt, in milliseconds. Defaults to `1000`.
+   */
+  initialDelay?: number;
+  /**
+   * The upper bound of the delay between attempts, in milliseconds. Defaults to `30000`.
+   */
+  maxDelay?: number;
+  /**
+   * The factor the delay grows by after every failed attempt. Defaults to `2`.
+   */
+  multiplier?: number;
+  /**
+   * The number of consecutive failed attempts after which the client gives up. Defaults to `Infinity`.
+   */
+  maxAttempts?: number;
+}
+
+/**
+ * Options for creating an `SseClient`.
+ */
+export interface SseClientOptions {
+  /**
+   * The reconnection policy.
+   */
+  reconnect?: SseReconnectOptions;
+  /**
+   * Invoked every time the state of the connection changes.
+   */
+  onStateChange?: ConnectionStateHandlerFn;
+  /**
+   * Invoked when the node announces it is shutting down.
+   */
+  onShutdown?: () => void;
+  /**
+   * Invoked when the node's `ApiVersion` event indicates it was restarted,
+   * either after a `Shutdown` event or because the reported version changed.
+   */
+  onNodeRestart?: (apiVersion: string, previousApiVersion?: string) => void;
+  /**
+   * Invoked when an event can't be parsed, either for a handler subscribed with `on()`
+   * or while tracking the node's lifecycle from its `ApiVersion` events.
+   * Without it, such events are dropped silently: the handlers are not called and nothing is logged.
+   */
+  onError?: EventErrorHandlerFn;
+}
+
+const DEFAULT_RECONNECT_OPTIONS: Required<SseReconnectOptions> = {
+  enabled: true,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  maxAttempts: Infinity
+};
+
 /**
  * Client for managing Server-Sent Events (SSE) connections.
+ *
+ * The client keeps track of the id of the last event it received and, when the connection is lost,
+ * reconnects with an exponential backoff, resuming the stream right after that event via `start_from`.
  */
 export class SseClient {
   private subscribedTo: EventSubscription[] = [];
+  private streams = new Set<SseEventStream>();
   private eventSource?: EventSource;
   private parser: EventParser;
+  private reconnectOptions: Required<SseReconnectOptions>;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private reconnectAttempts = 0;
+  private state: SseConnectionState = SseConnectionState.Closed;
+  private lastEventId?: number;
+  private resumeFromEventId?: number;
+  private apiVersion?: string;
+  private shutdownReceived = false;
+  private stopped = true;
 
   /**
    * Creates an instance of SseClient.
    *
    * @param eventStreamUrl - The URL of the event stream.
+   * @param options - (Optional) The reconnection policy and connection callbacks.
    */
-  constructor(private eventStreamUrl: string) {
+  constructor(
+    private eventStreamUrl: string,
+    private options: SseClientOptions = {}
+  ) {
     this.parser = new EventParser();
+    this.reconnectOptions = {
+      ...DEFAULT_RECONNECT_OPTIONS,
+      ...options.reconnect
+    };
+  }
+
+  /**
+   * Returns the current state of the connection.
+   */
+  public getState(): SseConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Returns the id of the last event received from the stream, if any.
+   */
+  public getLastEventId(): number | undefined {
+    return this.lastEventId;
   }
 
   /**
-   * Subscribes to a specified event.
+   * Subscribes to a specified event. Any number of handlers can be subscribed to the same event.
    *
    * @param eventName - The name of the event to subscribe to.
    * @param eventHandlerFn - The function to handle the event when it occurs.
@@ -53,26 +197,85 @@ export class SseClient {
     eventName: EventName,
     eventHandlerFn: EventHandlerFn
   ): Result<boolean, string> {
-    if (this.subscribedTo.some(e => e.eventName === eventName)) {
+    if (
+      this.subscribedTo.some(
+        e => e.eventName === eventName && e.eventHandlerFn === eventHandlerFn
+      )
+    ) {
       return Err('Already subscribed to this event');
     }
     this.subscribedTo.push({ eventName, eventHandlerFn });
     return Ok(true);
   }
 
+  /**
+   * Subscribes to a specified event with a handler receiving the parsed event,
+   * e.g. a `BlockAddedEvent` for `EventName.BlockAddedEventType`.
+   * Events that fail to parse are passed to the `onError` option instead of the handler,
+   * and dropped silently if it is not set.
+   *
+   * @param eventName - The name of the event to subscribe to.
+   * @param handler - The function to handle the parsed event when it occurs.
+   * @returns A function removing this subscription.
+   */
+  public on<K extends EventName>(
+    eventName: K,
+    handler: TypedEventHandlerFn<K>
+  ): UnsubscribeFn {
+    const eventHandlerFn: EventHandlerFn = rawEvent => {
+      let event: EventTypeMap[K];
+      try {
+        event = rawEvent.parseAs(eventName);
+      } catch (error) {
+        this.options.onError?.(error, rawEvent);
+        return;
+      }
+      handler(event, rawEvent);
+    };
+
+    this.subscribedTo.push({ eventName, eventHandlerFn });
+
+    return () => {
+      this.subscribedTo = this.subscribedTo.filter(
+        e => e.eventHandlerFn !== eventHandlerFn
+      );
+    };
+  }
+
+  /**
+   * Creates an `AsyncIterable` view over the events received by the client.
+   * The stream ends when the client is stopped, or when the consumer stops iterating.
+   *
+   * @param options - (Optional) The events to include, the buffer size and the overflow policy.
+   * @returns A new `SseEventStream`.
+   */
+  public stream(options?: SseEventStreamOptions): SseEventStream {
+    const stream: SseEventStream = new SseEventStream(options, () =>
+      this.streams.delete(stream)
+    );
+    this.streams.add(stream);
+    return stream;
+  }
+
   /**
    * Unsubscribes from a specified event.
    *
    * @param eventName - The name of the event to unsubscribe from.
+   * @param eventHandlerFn - (Optional) The handler to remove. All handlers of the event are removed when omitted.
    * @returns A Result indicating success (Ok(true)) or failure (Err with an error message).
    */
-  public unsubscribe(eventName: EventName): Result<boolean, string> {
-    if (!this.subscribedTo.some(e => e.eventName === eventName)) {
+  public unsubscribe(
+    eventName: EventName,
+    eventHandlerFn?: EventHandlerFn
+  ): Result<boolean, string> {
+    const matches = (e: EventSubscription) =>
+      e.eventName === eventName &&
+      (!eventHandlerFn || e.eventHandlerFn === eventHandlerFn);
+
+    if (!this.subscribedTo.some(matches)) {
       return Err('Cannot find provided subscription');
     }
-    this.subscribedTo = this.subscribedTo.filter(
-      e => e.eventName !== eventName
-    );
+    this.subscribedTo = this.subscribedTo.filter(e => !matches(e));
     return Ok(true);
   }
 
@@ -82,43 +285,222 @@ export class SseClient {
    * @param event - The message event containing the event data.
    */
   private runEventsLoop(event: MessageEvent<string>): void {
-    this.subscribedTo.forEach(sub => {
-      if (this.parser.shouldHandleEvent(event.data, sub.eventName)) {
-        const rawEvent = this.parser.parseEvent(
-          event.data,
-          event.type,
-          event.lastEventId
-        );
+    const eventId = parseInt(event.lastEventId, 10);
+    if (!isNaN(eventId)) {
+      this.lastEventId = eventId;
+      this.resumeFromEventId = eventId + 1;
+    }
+
+    this.trackNodeLifecycle(event);
+
+    this.streams.forEach(stream =>
+      stream.push(event.data, event.type, event.lastEventId)
+    );
+
+    const rawEvents = new Map<EventName, RawEvent | null>();
+
+    // Handlers may unsubscribe while the event is being dispatched
+    this.subscribedTo.slice().forEach(sub => {
+      let rawEvent = rawEvents.get(sub.eventName);
+      if (rawEvent === undefined) {
+        rawEvent = this.parser.shouldHandleEvent(event.data, sub.eventName)
+          ? this.parser.parseEvent(event.data, event.type, event.lastEventId)
+          : null;
+        rawEvents.set(sub.eventName, rawEvent);
+      }
+
+      if (rawEvent) {
         sub.eventHandlerFn(rawEvent);
       }
     });
   }
 
+  /**
+   * Detects node shutdowns and restarts from the `Shutdown` and `ApiVersion` events.
+   * Malformed `ApiVersion` events are passed to the `onError` option.
+   *
+   * @param event - The message event containing the event data.
+   */
+  private trackNodeLifecycle({
+    data,
+    type,
+    lastEventId
+  }: MessageEvent<string>): void {
+    if (this.parser.shouldHandleEvent(data, EventName.ShutdownType)) {
+      this.shutdownReceived = true;
+      this.options.onShutdown?.();
+      return;
+    }
+
+    if (!this.parser.shouldHandleEvent(data, EventName.APIVersionEventType)) {
+      return;
+    }
+
+    const rawEvent = this.parser.parseEvent(data, type, lastEventId);
+    let apiVersion: string;
+    try {
+      apiVersion = rawEvent.parseAsAPIVersionEvent().apiVersion;
+    } catch (error) {
+      this.options.onError?.(error, rawEvent);
+      return;
+    }
+    const previousApiVersion = this.apiVersion;
+    const restarted =
+      this.shutdownReceived ||
+      (previousApiVersion !== undefined && previousApiVersion !== apiVersion);
+
+    this.apiVersion = apiVersion;
+    this.shutdownReceived = false;
+
+    if (restarted) {
+      this.options.onNodeRestart?.(apiVersion, previousApiVersion);
+    }
+  }
+
   /**
    * Starts the SSE connection.
    *
    * @param eventId - (Optional) The event ID to start streaming from.
    */
   public start(eventId?: number): void {
+    this.closeEventSource();
+    this.stopped = false;
+    this.reconnectAttempts = 0;
+    this.resumeFromEventId = eventId;
+    this.connect(eventId, SseConnectionState.Connecting);
+  }
+
+  /**
+   * Stops the SSE connection.
+   */
+  public stop(): void {
+    this.stopped = true;
+    this.closeEventSource();
+    this.endStreams();
+    this.setState(SseConnectionState.Closed);
+  }
+
+  /**
+   * Opens a new connection to the event stream.
+   *
+   * @param eventId - (Optional) The event ID to start streaming from.
+   * @param state - The state to report while the connection is being established.
+   */
+  private connect(
+    eventId: number | undefined,
+    state: SseConnectionState
+  ): void {
     const separator = this.eventStreamUrl.includes('?') ? '&' : '?';
-    let requestUrl = `${this.eventStreamUrl}${separator}`;
-    if (eventId !== undefined) {
-      requestUrl += `start_from=${eventId}`;
-    }
-    this.eventSource = new EventSource(requestUrl);
+    const requestUrl =
+      eventId !== undefined
+        ? `${this.eventStreamUrl}${separator}start_from=${eventId}`
+        : this.eventStreamUrl;
+
+    this.setState(state);
+
+    const eventSource = this.createEventSource(requestUrl);
+    this.eventSource = eventSource;
+
+    eventSource.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setState(SseConnectionState.Open);
+    };
+    eventSource.onmessage = e => this.runEventsLoop(e);
+    eventSource.onerror = err => {
+      if (this.eventSource !== eventSource) {
+        return;
+      }
 
-    this.eventSource.onmessage = e => this.runEventsLoop(e);
-    this.eventSource.onerror = err => {
-      throw err;
+      this.closeEventSource();
+      this.scheduleReconnect(err);
     };
   }
 
   /**
-   * Stops the SSE connection.
+   * Creates the event source connecting to the given URL.
+   *
+   * @param url - The URL of the event stream, including the `start_from` parameter.
+   * @returns A new EventSource instance.
    */
-  public stop(): void {
+  protected createEventSource(url: string): EventSource {
+    return new EventSource(url);
+  }
+
+  /**
+   * Schedules the next reconnection attempt, or closes the client when reconnecting
+   * is disabled or the maximum number of attempts has been reached.
+   *
+   * @param error - The error that caused the connection to be lost.
+   */
+  private scheduleReconnect(error: unknown): void {
+    const {
+      enabled,
+      initialDelay,
+      maxDelay,
+      multiplier,
+      maxAttempts
+    } = this.reconnectOptions;
+
+    if (this.stopped) {
+      return;
+    }
+
+    if (!enabled || this.reconnectAttempts >= maxAttempts) {
+      this.stopped = true;
+      this.endStreams();
+      this.setState(SseConnectionState.Closed, error);
+      return;
+    }
+
+    const delay = Math.min(
+      initialDelay * Math.pow(multiplier, this.reconnectAttempts),
+      maxDelay
+    );
+    this.reconnectAttempts++;
+    this.setState(SseConnectionState.Reconnecting, error);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect(this.resumeFromEventId, SseConnectionState.Reconnecting);
+    }, delay);
+  }
+
+  /**
+   * Closes the current event source and cancels any pending reconnection attempt.
+   */
+  private closeEventSource(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
     if (this.eventSource) {
       this.eventSource.close();
+      this.eventSource = undefined;
     }
   }
+
+  /**
+   * Ends every stream created by `stream()`.
+   */
+  private endStreams(): void {
+    const streams = Array.from(this.streams);
+    this.streams.clear();
+    streams.forEach(stream => stream.end());
+  }
+
+  /**
+   * Updates the connection state and notifies the state change callback.
+   *
+   * @param state - The new state of the connection.
+   * @param error - The error that caused the change, if any.
+   */
+  private setState(state: SseConnectionState, error?: unknown): void {
+    if (this.state === state && error === undefined) {
+      return;
+    }
+
+    this.state = state;
+    this.options.onStateChange?.(state, error);
+  }
 }
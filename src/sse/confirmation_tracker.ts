@@ -0,0 +1,299 @@
+import {
+  ConfirmationTimeoutError,
+  InfoGetDeployResult,
+  InfoGetTransactionResult,
+  RpcClient,
+  TransactionExpiredError
+} from '../rpc';
+import { Deploy, Hash, Transaction } from '../types';
+import { SseClient, SseConnectionState, UnsubscribeFn } from './client';
+import { EventName } from './event';
+
+/**
+ * Options for waiting for a transaction to be confirmed.
+ */
+export interface ConfirmationOptions {
+  /**
+   * The maximum time to wait for the confirmation, in milliseconds. Defaults to `60000`.
+   */
+  timeout?: number;
+  /**
+   * The number of blocks to wait for on top of the block including the transaction. Defaults to `0`.
+   */
+  blockDepth?: number;
+  /**
+   * The delay between two polls of the node while no event stream is open, in milliseconds. Defaults to `1000`.
+   */
+  pollInterval?: number;
+  /**
+   * The number of consecutive failed requests to the node tolerated before giving up. Defaults to `3`.
+   */
+  maxRetries?: number;
+}
+
+/**
+ * The part of `InfoGetTransactionResult` and `InfoGetDeployResult` a confirmation relies on.
+ */
+interface ExecutionInfoResult {
+  executionInfo?: {
+    blockHash: Hash;
+    blockHeight: number;
+    executionResult?: unknown;
+  };
+}
+
+interface PendingConfirmation<T> {
+  hash: string;
+  expiresAt: number;
+  getInfo: () => Promise<T>;
+}
+
+const DEFAULT_CONFIRMATION_OPTIONS: Required<ConfirmationOptions> = {
+  timeout: 60000,
+  blockDepth: 0,
+  pollInterval: 1000,
+  maxRetries: 3
+};
+
+/**
+ * Leaves time for a block proposed right before the expiry of a transaction to be executed by the node.
+ */
+const EXPIRY_GRACE_PERIOD = 60000;
+
+/**
+ * Waits for transactions to be processed, and optionally buried under a number of blocks.
+ *
+ * When given an `SseClient`, the tracker listens to its `TransactionProcessed`, `DeployProcessed`,
+ * `TransactionExpired`, `DeployExpired` and `BlockAdded` events, and only queries the node to fetch the result.
+ * Without one, or while its connection is not open, the tracker polls the node instead.
+ * The `SseClient` is neither started nor stopped by the tracker.
+ *
+ * @example
+ * ```ts
+ * const sseClient = new SseClient('http://<Node Address>:9999/events');
+ * sseClient.start();
+ *
+ * const tracker = new ConfirmationTracker(rpcClient, sseClient);
+ * const result = await tracker.waitForTransaction(transaction, {
+ *   timeout: 120000,
+ *   blockDepth: 3
+ * });
+ * ```
+ */
+export class ConfirmationTracker {
+  /**
+   * @param rpcClient - The client used to fetch the results and, when polling, the latest blocks.
+   * @param sseClient - (Optional) A client subscribed to the event stream of the node.
+   */
+  constructor(private rpcClient: RpcClient, private sseClient?: SseClient) {}
+
+  /**
+   * Waits for a transaction to be processed.
+   *
+   * @param transaction - The transaction to wait for.
+   * @param options - (Optional) The timeout, block depth and polling options.
+   * @returns A promise that resolves to the result of the processed transaction.
+   * @throws {ConfirmationTimeoutError} If the transaction is not confirmed within the timeout.
+   * @throws {TransactionExpiredError} If the transaction expired before being processed.
+   */
+  public waitForTransaction(
+    transaction: Transaction,
+    options: ConfirmationOptions = {}
+  ): Promise<InfoGetTransactionResult> {
+    const hash = transaction.hash.toHex();
+
+    return this.waitFor(
+      {
+        hash,
+        expiresAt:
+          transaction.timestamp.toMilliseconds() + transaction.ttl.duration,
+        getInfo: () =>
+          transaction.getDeploy()
+            ? this.rpcClient.getTransactionByDeployHash(hash)
+            : this.rpcClient.getTransactionByTransactionHash(hash)
+      },
+      options
+    );
+  }
+
+  /**
+   * Waits for a deploy to be processed.
+   *
+   * @param deploy - The deploy to wait for.
+   * @param options - (Optional) The timeout, block depth and polling options.
+   * @returns A promise that resolves to the result of the processed deploy.
+   * @throws {ConfirmationTimeoutError} If the deploy is not confirmed within the timeout.
+   * @throws {TransactionExpiredError} If the deploy expired before being processed.
+   */
+  public waitForDeploy(
+    deploy: Deploy,
+    options: ConfirmationOptions = {}
+  ): Promise<InfoGetDeployResult> {
+    const hash = deploy.hash.toHex();
+
+    return this.waitFor(
+      {
+        hash,
+        expiresAt:
+          deploy.header.timestamp.toMilliseconds() + deploy.header.ttl.duration,
+        getInfo: () => this.rpcClient.getDeploy(hash)
+      },
+      options
+    );
+  }
+
+  private waitFor<T extends ExecutionInfoResult>(
+    pending: PendingConfirmation<T>,
+    options: ConfirmationOptions
+  ): Promise<T> {
+    const { timeout, blockDepth, pollInterval, maxRetries } = {
+      ...DEFAULT_CONFIRMATION_OPTIONS,
+      ...options
+    };
+    const { hash, expiresAt, getInfo } = pending;
+    const sseClient = this.sseClient;
+
+    return new Promise<T>((resolve, reject) => {
+      const unsubscribes: UnsubscribeFn[] = [];
+      let settled = false;
+      let pollTimer: ReturnType<typeof setTimeout> | undefined;
+      let failures = 0;
+      // Set whenever the node has to be queried, even though the event stream is open
+      let checkRequested = true;
+      let result: T | undefined;
+      let requiredHeight: number | undefined;
+      let latestHeight = -1;
+
+      const finish = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+
+        settled = true;
+        clearTimeout(timeoutTimer);
+        if (pollTimer) {
+          clearTimeout(pollTimer);
+        }
+        unsubscribes.forEach(unsubscribe => unsubscribe());
+
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result!);
+        }
+      };
+
+      const timeoutTimer = setTimeout(
+        () => finish(new ConfirmationTimeoutError(hash, timeout)),
+        timeout
+      );
+
+      const isStreaming = () =>
+        !!sseClient && sseClient.getState() === SseConnectionState.Open;
+
+      const onBlockAdded = (height: number) => {
+        latestHeight = Math.max(latestHeight, height);
+
+        if (requiredHeight !== undefined && latestHeight >= requiredHeight) {
+          finish();
+        }
+      };
+
+      const check = async () => {
+        if (!result) {
+          const info = await getInfo();
+
+          if (!info.executionInfo?.executionResult) {
+            if (Date.now() > expiresAt + EXPIRY_GRACE_PERIOD) {
+              finish(new TransactionExpiredError(hash));
+            }
+            return;
+          }
+
+          result = info;
+        }
+
+        if (requiredHeight === undefined) {
+          const { blockHeight, blockHash } = result.executionInfo!;
+          const inclusionHeight =
+            blockHeight ??
+            (await this.rpcClient.getBlockByHash(blockHash.toHex())).block
+              .height;
+
+          requiredHeight = inclusionHeight + blockDepth;
+          latestHeight = Math.max(latestHeight, inclusionHeight);
+        }
+
+        if (latestHeight < requiredHeight && !isStreaming()) {
+          latestHeight = (await this.rpcClient.getLatestBlock()).block.height;
+        }
+
+        onBlockAdded(latestHeight);
+      };
+
+      const runCheck = async () => {
+        try {
+          await check();
+          checkRequested = false;
+          failures = 0;
+        } catch (error) {
+          failures++;
+          if (failures > maxRetries) {
+            finish(
+              new Error(`Failed after ${maxRetries} retries: ${error.message}`)
+            );
+          }
+        }
+      };
+
+      const poll = async () => {
+        if (checkRequested || !isStreaming()) {
+          await runCheck();
+        }
+
+        if (!settled) {
+          pollTimer = setTimeout(poll, pollInterval);
+        }
+      };
+
+      const onProcessed = (processedHash: string) => {
+        if (processedHash === hash && !settled) {
+          checkRequested = true;
+          runCheck();
+        }
+      };
+
+      const onExpired = (expiredHash: string) => {
+        if (expiredHash === hash && !result) {
+          finish(new TransactionExpiredError(hash));
+        }
+      };
+
+      if (sseClient) {
+        unsubscribes.push(
+          sseClient.on(EventName.TransactionProcessedEventType, event =>
+            onProcessed(
+              event.transactionProcessedPayload.transactionHash.toString()
+            )
+          ),
+          sseClient.on(EventName.DeployProcessedEventType, event =>
+            onProcessed(event.deployProcessed.deployHash.toHex())
+          ),
+          sseClient.on(EventName.TransactionExpiredEventType, event =>
+            onExpired(
+              event.transactionExpiredPayload.transactionHash.toString()
+            )
+          ),
+          sseClient.on(EventName.DeployExpiredEventType, event =>
+            onExpired(event.deployExpired.deployHash.toHex())
+          ),
+          sseClient.on(EventName.BlockAddedEventType, event =>
+            onBlockAdded(event.BlockAdded.block.height)
+          )
+        );
+      }
+
+      poll();
+    });
+  }
+}
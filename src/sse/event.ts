@@ -60,6 +60,7 @@ export class RawEvent {
     const serializer = new TypedJSON(type);
     const parsed = parser ? parser(this.data) : serializer.parse(this.data);
     if (!parsed) throw new Error('Error parsing event data');
+    if (parsed instanceof Error) throw parsed;
     return parsed;
   }
 
@@ -79,6 +80,10 @@ export class RawEvent {
     return this.parseEvent(DeployAcceptedEvent);
   }
 
+  parseAsDeployExpiredEvent(): DeployExpiredEvent {
+    return this.parseEvent(DeployExpiredEvent);
+  }
+
   parseAsFinalitySignatureEvent(): FinalitySignatureEvent {
     return this.parseEvent(
       FinalitySignatureEvent,
@@ -114,8 +119,63 @@ export class RawEvent {
   parseAsStepEvent(): StepEvent {
     return this.parseEvent(StepEvent);
   }
+
+  /**
+   * Parses the event data into the event class registered for the given event name in `EventTypeMap`.
+   * Events without a dedicated class are returned as is.
+   *
+   * @param eventName - The name of the event the data belongs to.
+   * @returns The parsed event.
+   */
+  parseAs<K extends EventName>(eventName: K): EventTypeMap[K] {
+    return eventParsers[eventName](this);
+  }
 }
 
+/**
+ * Maps every `EventName` to the type its payload is parsed into.
+ */
+export interface EventTypeMap {
+  [EventName.APIVersionEventType]: APIVersionEvent;
+  [EventName.BlockAddedEventType]: BlockAddedEvent;
+  [EventName.DeployProcessedEventType]: DeployProcessedEvent;
+  [EventName.DeployAcceptedEventType]: DeployAcceptedEvent;
+  [EventName.DeployExpiredEventType]: DeployExpiredEvent;
+  [EventName.TransactionProcessedEventType]: TransactionProcessedEvent;
+  [EventName.TransactionAcceptedEventType]: TransactionAcceptedEvent;
+  [EventName.TransactionExpiredEventType]: TransactionExpiredEvent;
+  [EventName.EventIDEventType]: RawEvent;
+  [EventName.FinalitySignatureType]: FinalitySignatureEvent;
+  [EventName.StepEventType]: StepEvent;
+  [EventName.FaultEventType]: FaultEvent;
+  [EventName.ShutdownType]: RawEvent;
+}
+
+const eventParsers: {
+  [K in EventName]: (event: RawEvent) => EventTypeMap[K];
+} = {
+  [EventName.APIVersionEventType]: event => event.parseAsAPIVersionEvent(),
+  [EventName.BlockAddedEventType]: event => event.parseAsBlockAddedEvent(),
+  [EventName.DeployProcessedEventType]: event =>
+    event.parseAsDeployProcessedEvent(),
+  [EventName.DeployAcceptedEventType]: event =>
+    event.parseAsDeployAcceptedEvent(),
+  [EventName.DeployExpiredEventType]: event =>
+    event.parseAsDeployExpiredEvent(),
+  [EventName.TransactionProcessedEventType]: event =>
+    event.parseAsTransactionProcessedEvent(),
+  [EventName.TransactionAcceptedEventType]: event =>
+    event.parseAsTransactionAcceptedEvent(),
+  [EventName.TransactionExpiredEventType]: event =>
+    event.parseAsTransactionExpiredEvent(),
+  [EventName.EventIDEventType]: event => event,
+  [EventName.FinalitySignatureType]: event =>
+    event.parseAsFinalitySignatureEvent(),
+  [EventName.StepEventType]: event => event.parseAsStepEvent(),
+  [EventName.FaultEventType]: event => event.parseAsFaultEvent(),
+  [EventName.ShutdownType]: event => event
+};
+
 @jsonObject
 export class APIVersionEvent {
   @jsonMember(String, { name: 'ApiVersion' })
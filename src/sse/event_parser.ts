@@ -6,6 +6,7 @@ import { RawEvent } from './event';
 export class EventParser {
   /**
    * Determines whether the provided JSON data contains the specified event property.
+   * Events without a payload, such as `Shutdown`, are sent as a bare JSON string and match by value.
    *
    * @param data - The raw JSON string representing the event data.
    * @param eventName - The name of the event property to look for.
@@ -14,6 +15,9 @@ export class EventParser {
   public shouldHandleEvent(data: string, eventName: string): boolean {
     try {
       const parsed = JSON.parse(data);
+      if (typeof parsed === 'string') {
+        return parsed === eventName;
+      }
       return parsed && Object.prototype.hasOwnProperty.call(parsed, eventName);
     } catch (error) {
       console.error('Error parsing JSON:', error);
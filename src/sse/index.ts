@@ -1,3 +1,5 @@
 export * from './client';
 export * from './event';
 export * from './event_parser';
+export * from './stream';
+export * from './confirmation_tracker';
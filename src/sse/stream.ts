@@ -0,0 +1,243 @@
+import { Readable } from 'stream';
+
+import { EventName, RawEvent } from './event';
+import { EventParser } from './event_parser';
+import { SdkError } from '../types/SdkError';
+
+/**
+ * Defines what happens when an event arrives while the buffer of a stream is full.
+ */
+export enum SseOverflowPolicy {
+  /**
+   * Discards the oldest buffered event to make room for the incoming one.
+   */
+  DropOldest = 'drop-oldest',
+  /**
+   * Discards the incoming event.
+   */
+  DropNewest = 'drop-newest',
+  /**
+   * Terminates the stream with an `SseBufferOverflowError` once the buffered events are consumed.
+   */
+  Error = 'error'
+}
+
+/**
+ * Options for creating an `SseEventStream`.
+ */
+export interface SseEventStreamOptions {
+  /**
+   * The events to include in the stream. All events are included when omitted.
+   */
+  eventNames?: EventName[];
+  /**
+   * The maximum number of events buffered while the consumer is busy. Defaults to `1000`.
+   */
+  bufferSize?: number;
+  /**
+   * What to do with events arriving while the buffer is full. Defaults to `SseOverflowPolicy.Error`.
+   */
+  overflowPolicy?: SseOverflowPolicy;
+}
+
+/**
+ * Error thrown by a stream using `SseOverflowPolicy.Error` when its consumer falls behind.
+ */
+export class SseBufferOverflowError extends SdkError {
+  constructor(bufferSize: number) {
+    super(`SSE event stream buffer overflow, buffer size: ${bufferSize}`);
+    this.name = 'SseBufferOverflowError';
+  }
+}
+
+interface PendingRead {
+  resolve: (result: IteratorResult<RawEvent>) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_BUFFER_SIZE = 1000;
+
+/**
+ * An `AsyncIterable` view over the events received by an `SseClient`, created with `SseClient.stream()`.
+ *
+ * Events are buffered until they are consumed, up to `bufferSize` events, beyond which the overflow policy applies.
+ * The stream ends once the buffered events are consumed after the client is stopped, or immediately when the
+ * consumer stops iterating.
+ *
+ * @example
+ * ```ts
+ * for await (const rawEvent of sseClient.stream({ eventNames: [EventName.BlockAddedEventType] })) {
+ *   console.log(rawEvent.parseAsBlockAddedEvent());
+ * }
+ * ```
+ */
+export class SseEventStream implements AsyncIterableIterator<RawEvent> {
+  private buffer: RawEvent[] = [];
+  private pendingReads: PendingRead[] = [];
+  private parser: EventParser;
+  private bufferSize: number;
+  private overflowPolicy: SseOverflowPolicy;
+  private eventNames?: EventName[];
+  private ended = false;
+  private error?: Error;
+  private droppedEvents = 0;
+
+  /**
+   * Creates an instance of SseEventStream.
+   *
+   * @param options - The filter, buffer size and overflow policy of the stream.
+   * @param onClose - Invoked once the stream no longer accepts events.
+   */
+  constructor(
+    options: SseEventStreamOptions = {},
+    private onClose: () => void = () => undefined
+  ) {
+    this.parser = new EventParser();
+    this.eventNames = options.eventNames;
+    this.bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+    this.overflowPolicy = options.overflowPolicy ?? SseOverflowPolicy.Error;
+
+    if (!(this.bufferSize > 0)) {
+      throw new Error('Buffer size must be greater than zero');
+    }
+  }
+
+  /**
+   * Returns the number of events discarded by the overflow policy so far.
+   */
+  public getDroppedCount(): number {
+    return this.droppedEvents;
+  }
+
+  /**
+   * Adds a message received from the event source to the stream, if it matches the filter.
+   *
+   * @param data - The raw JSON string representing the event data.
+   * @param type - The type of the event.
+   * @param lastEventId - The identifier of the event.
+   */
+  public push(data: string, type: string, lastEventId: string): void {
+    if (this.ended) {
+      return;
+    }
+
+    if (
+      this.eventNames &&
+      !this.eventNames.some(name => this.parser.shouldHandleEvent(data, name))
+    ) {
+      return;
+    }
+
+    const rawEvent = this.parser.parseEvent(data, type, lastEventId);
+    const pendingRead = this.pendingReads.shift();
+
+    if (pendingRead) {
+      pendingRead.resolve({ done: false, value: rawEvent });
+      return;
+    }
+
+    if (this.buffer.length < this.bufferSize) {
+      this.buffer.push(rawEvent);
+      return;
+    }
+
+    switch (this.overflowPolicy) {
+      case SseOverflowPolicy.DropOldest:
+        this.buffer.shift();
+        this.buffer.push(rawEvent);
+        this.droppedEvents++;
+        break;
+      case SseOverflowPolicy.DropNewest:
+        this.droppedEvents++;
+        break;
+      default:
+        this.error = new SseBufferOverflowError(this.bufferSize);
+        this.end();
+    }
+  }
+
+  /**
+   * Stops accepting events. Buffered events can still be consumed, after which the stream ends.
+   */
+  public end(): void {
+    if (this.ended) {
+      return;
+    }
+
+    this.ended = true;
+    this.onClose();
+
+    const pendingReads = this.pendingReads;
+    this.pendingReads = [];
+    pendingReads.forEach(read => this.settle(read));
+  }
+
+  /**
+   * Returns the next event, waiting for one to arrive if the buffer is empty.
+   */
+  public next(): Promise<IteratorResult<RawEvent>> {
+    const rawEvent = this.buffer.shift();
+
+    if (rawEvent) {
+      return Promise.resolve({ done: false, value: rawEvent });
+    }
+
+    return new Promise((resolve, reject) => {
+      const read = { resolve, reject };
+
+      if (this.ended) {
+        this.settle(read);
+      } else {
+        this.pendingReads.push(read);
+      }
+    });
+  }
+
+  /**
+   * Ends the stream and discards the buffered events. Invoked when a `for await` loop exits early.
+   */
+  public return(): Promise<IteratorResult<RawEvent>> {
+    this.buffer = [];
+    this.error = undefined;
+    this.end();
+    return Promise.resolve({ done: true, value: undefined });
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterableIterator<RawEvent> {
+    return this;
+  }
+
+  /**
+   * Creates a Node.js `Readable` in object mode emitting the events of this stream.
+   * Destroying the readable ends the stream.
+   *
+   * @returns A `Readable` emitting `RawEvent` instances.
+   */
+  public toReadable(): Readable {
+    const readable = new Readable({
+      objectMode: true,
+      read: () => {
+        this.next().then(
+          result => readable.push(result.done ? null : result.value),
+          error => readable.destroy(error)
+        );
+      },
+      destroy: (error, callback) => {
+        this.return().then(() => callback(error));
+      }
+    });
+
+    return readable;
+  }
+
+  /**
+   * Completes a read once the stream has ended, failing it if the stream ended because of an overflow.
+   */
+  private settle(read: PendingRead): void {
+    if (this.error) {
+      read.reject(this.error);
+    } else {
+      read.resolve({ done: true, value: undefined });
+    }
+  }
+}
@@ -1,3 +1,4 @@
 import getTransactionWithNullExecutionResults from './get_transaction_with_null_execution_results.json';
+import transactionV1ContractCall from './transaction_v1_contract_call.json';
 
-export { getTransactionWithNullExecutionResults };
+export { getTransactionWithNullExecutionResults, transactionV1ContractCall };
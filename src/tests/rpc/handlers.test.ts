@@ -0,0 +1,216 @@
+import { expect } from 'chai';
+
+import {
+  EndpointSelectionStrategy,
+  ErrProcessHttpRequest,
+  HttpError,
+  IHandler,
+  Method,
+  MultiEndpointHandler,
+  RetryHandler,
+  RpcRequest,
+  RpcResponse
+} from '../../rpc';
+
+const networkError = () =>
+  new Error(`${ErrProcessHttpRequest.message}, details: connect ECONNREFUSED`);
+
+/**
+ * A handler replaying the given outcomes, one per call, and counting its calls.
+ */
+class StubHandler implements IHandler {
+  public calls = 0;
+
+  constructor(private outcomes: Array<Error | RpcResponse>) {}
+
+  async processCall(): Promise<RpcResponse> {
+    const outcome = this.outcomes[
+      Math.min(this.calls, this.outcomes.length - 1)
+    ];
+    this.calls++;
+
+    if (outcome instanceof Error) {
+      throw outcome;
+    }
+    return outcome;
+  }
+
+  async processBatchCall(): Promise<RpcResponse[]> {
+    return [await this.processCall()];
+  }
+}
+
+const response = (result: string): RpcResponse => {
+  const rpcResponse = new RpcResponse();
+  rpcResponse.version = '2.0';
+  rpcResponse.result = result;
+  return rpcResponse;
+};
+
+const request = new RpcRequest('2.0', Method.GetStatus, null);
+
+describe('RetryHandler', () => {
+  const policy = { initialDelay: 1, maxDelay: 2 };
+
+  it('should retry network errors until the call succeeds', async () => {
+    const stub = new StubHandler([
+      networkError(),
+      networkError(),
+      response('ok')
+    ]);
+
+    const result = await new RetryHandler(stub, policy).processCall(request);
+
+    expect(result.result).to.equal('ok');
+    expect(stub.calls).to.equal(3);
+  });
+
+  it('should retry retryable HTTP status codes only', async () => {
+    const unavailable = new StubHandler([
+      new HttpError(503, new Error('Service Unavailable')),
+      response('ok')
+    ]);
+    const badRequest = new StubHandler([
+      new HttpError(400, new Error('Bad Request')),
+      response('ok')
+    ]);
+
+    expect(
+      (await new RetryHandler(unavailable, policy).processCall(request)).result
+    ).to.equal('ok');
+
+    try {
+      await new RetryHandler(badRequest, policy).processCall(request);
+      expect.fail('The call should fail');
+    } catch (err) {
+      expect(err.statusCode).to.equal(400);
+    }
+    expect(badRequest.calls).to.equal(1);
+  });
+
+  it('should throw the last error once the retries are exhausted', async () => {
+    const stub = new StubHandler([networkError()]);
+
+    try {
+      await new RetryHandler(stub, { ...policy, maxRetries: 2 }).processCall(
+        request
+      );
+      expect.fail('The call should fail');
+    } catch (err) {
+      expect(err.message).to.contain(ErrProcessHttpRequest.message);
+    }
+    expect(stub.calls).to.equal(3);
+  });
+
+  it('should retry failed batches', async () => {
+    const stub = new StubHandler([networkError(), response('ok')]);
+
+    const results = await new RetryHandler(stub, policy).processBatchCall([
+      request
+    ]);
+
+    expect(results.map(result => result.result)).to.deep.equal(['ok']);
+    expect(stub.calls).to.equal(2);
+  });
+
+  it('should send and retry the requests one by one when the wrapped handler does not support batches', async () => {
+    const stub = new StubHandler([networkError(), response('ok')]);
+    const handler: IHandler = { processCall: () => stub.processCall() };
+
+    const results = await new RetryHandler(handler, policy).processBatchCall([
+      request,
+      request
+    ]);
+
+    expect(results.map(result => result.result)).to.deep.equal(['ok', 'ok']);
+    expect(stub.calls).to.equal(3);
+  });
+});
+
+describe('MultiEndpointHandler', () => {
+  it('should fail over to the next endpoint and take the failed one out of rotation', async () => {
+    const primary = new StubHandler([networkError(), response('primary')]);
+    const secondary = new StubHandler([response('secondary')]);
+    const handler = new MultiEndpointHandler([primary, secondary]);
+
+    expect((await handler.processCall(request)).result).to.equal('secondary');
+    expect((await handler.processCall(request)).result).to.equal('secondary');
+    expect(primary.calls).to.equal(1);
+    expect(handler.getHealthyHandlers()).to.deep.equal([secondary]);
+  });
+
+  it('should try unhealthy endpoints as a last resort', async () => {
+    const primary = new StubHandler([networkError(), response('primary')]);
+    const secondary = new StubHandler([networkError()]);
+    const handler = new MultiEndpointHandler([primary, secondary]);
+
+    try {
+      await handler.processCall(request);
+      expect.fail('The call should fail');
+    } catch (err) {
+      expect(err.message).to.contain(ErrProcessHttpRequest.message);
+    }
+
+    expect((await handler.processCall(request)).result).to.equal('primary');
+    expect(handler.getHealthyHandlers()).to.deep.equal([primary]);
+  });
+
+  it('should spread the calls across endpoints with round-robin', async () => {
+    const first = new StubHandler([response('first')]);
+    const second = new StubHandler([response('second')]);
+    const handler = new MultiEndpointHandler([first, second], {
+      strategy: EndpointSelectionStrategy.RoundRobin
+    });
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push((await handler.processCall(request)).result);
+    }
+
+    expect(results).to.deep.equal(['first', 'second', 'first', 'second']);
+  });
+
+  it('should not fail over on non-retryable errors', async () => {
+    const primary = new StubHandler([
+      new HttpError(400, new Error('Bad Request'))
+    ]);
+    const secondary = new StubHandler([response('secondary')]);
+    const handler = new MultiEndpointHandler([primary, secondary]);
+
+    try {
+      await handler.processCall(request);
+      expect.fail('The call should fail');
+    } catch (err) {
+      expect(err.statusCode).to.equal(400);
+    }
+    expect(secondary.calls).to.equal(0);
+  });
+
+  it('should fail over whole batches', async () => {
+    const primary = new StubHandler([networkError()]);
+    const secondary = new StubHandler([response('secondary')]);
+    const handler = new MultiEndpointHandler([primary, secondary]);
+
+    const results = await handler.processBatchCall([request, request]);
+
+    expect(results.map(result => result.result)).to.deep.equal(['secondary']);
+    expect(handler.getHealthyHandlers()).to.deep.equal([secondary]);
+  });
+
+  it('should send the requests one by one to endpoints not supporting batches', async () => {
+    const primary = new StubHandler([networkError()]);
+    const secondary = new StubHandler([response('secondary')]);
+    const handler = new MultiEndpointHandler([
+      primary,
+      { processCall: () => secondary.processCall() }
+    ]);
+
+    const results = await handler.processBatchCall([request, request]);
+
+    expect(results.map(result => result.result)).to.deep.equal([
+      'secondary',
+      'secondary'
+    ]);
+    expect(secondary.calls).to.equal(2);
+  });
+});
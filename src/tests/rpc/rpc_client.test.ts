@@ -7,7 +7,16 @@ import {
   InfoGetDeployResult,
   InfoGetStatusResult,
   InfoGetTransactionResult,
-  InfoGetTransactionResultV1Compatible
+  InfoGetTransactionResultV1Compatible,
+  ConfirmationTimeoutError,
+  HttpError,
+  IHandler,
+  Method,
+  MultiEndpointHandler,
+  RetryHandler,
+  RpcClient,
+  RpcRequest,
+  RpcResponse
 } from '../../rpc';
 import { BlockBodyV2 } from '../../types';
 import {
@@ -228,3 +237,168 @@ describe('RPC Client', () => {
     expect(transactionResult?.executionInfo?.executionResult).to.be.undefined;
   });
 });
+
+/**
+ * A handler answering batches with the responses built by `respond`, and single calls with the response for it.
+ */
+class BatchStubHandler implements IHandler {
+  public batches: RpcRequest[][] = [];
+
+  constructor(private respond: (requests: RpcRequest[]) => any[]) {}
+
+  async processCall(params: RpcRequest): Promise<RpcResponse> {
+    return this.respond([params])[0];
+  }
+
+  async processBatchCall(params: RpcRequest[]): Promise<RpcResponse[]> {
+    this.batches.push(params);
+    return this.respond(params);
+  }
+}
+
+const result = (request: RpcRequest, value: any) => ({
+  jsonrpc: '2.0',
+  id: request.id!.toJSON(),
+  result: value
+});
+
+const error = (request: RpcRequest | null, message: string) => ({
+  jsonrpc: '2.0',
+  id: request ? request.id!.toJSON() : null,
+  error: { code: -32001, message }
+});
+
+describe('RPC Client batch', () => {
+  const requests = [
+    RpcRequest.defaultRpcRequest(Method.GetStatus, null),
+    RpcRequest.defaultRpcRequest(Method.GetPeers, null),
+    RpcRequest.defaultRpcRequest(Method.InfoGetChainspec, null)
+  ];
+
+  it('should match the responses to the requests by id', async () => {
+    const handler = new BatchStubHandler(batch =>
+      [
+        result(batch[0], 'status'),
+        error(batch[1], 'peers unavailable'),
+        result(batch[2], 'chainspec')
+      ].reverse()
+    );
+
+    const results = await new RpcClient(handler).batch(requests);
+
+    expect(handler.batches).to.have.length(1);
+    expect(
+      handler.batches[0].map(request => request.id!.toString())
+    ).to.deep.equal(['0', '1', '2']);
+    expect(results[0].ok && results[0].val.result).to.equal('status');
+    expect(results[1].err).to.be.true;
+    expect((results[1].val as HttpError).statusCode).to.equal(-32001);
+    expect(results[2].ok && results[2].val.result).to.equal('chainspec');
+  });
+
+  it('should fail the requests left unanswered', async () => {
+    const handler = new BatchStubHandler(batch => [result(batch[1], 'peers')]);
+
+    const results = await new RpcClient(handler).batch(requests);
+
+    expect(results.map(result => result.ok)).to.deep.equal([
+      false,
+      true,
+      false
+    ]);
+    expect((results[0].val as Error).message).to.equal(
+      'Missing response for batch request with id 0'
+    );
+  });
+
+  it('should fail every request when the batch is rejected', async () => {
+    const handler = new BatchStubHandler(() => [
+      error(null, 'invalid request')
+    ]);
+
+    const results = await new RpcClient(handler).batch(requests);
+
+    results.forEach(result => {
+      expect(result.err).to.be.true;
+      expect((result.val as HttpError).sourceErr.message).to.equal(
+        'invalid request'
+      );
+    });
+  });
+
+  it('should send the requests one by one when the handler does not support batches', async () => {
+    const handler: IHandler = {
+      processCall: async request =>
+        request.method === Method.GetPeers
+          ? (error(request, 'peers unavailable') as any)
+          : result(request, request.method)
+    };
+
+    const results = await new RpcClient(handler).batch(requests);
+
+    expect(results.map(result => result.ok)).to.deep.equal([true, false, true]);
+    expect(results[2].ok && results[2].val.result).to.equal(
+      Method.InfoGetChainspec
+    );
+  });
+
+  it('should send the requests one by one through wrappers of handlers not supporting batches', async () => {
+    const handler: IHandler = {
+      processCall: async request => result(request, request.method) as any
+    };
+    const wrappers = [
+      new RetryHandler(handler),
+      new MultiEndpointHandler([handler])
+    ];
+
+    for (const wrapper of wrappers) {
+      const results = await new RpcClient(wrapper).batch(requests);
+
+      expect(
+        results.map(result => result.ok && result.val.result)
+      ).to.deep.equal(requests.map(request => request.method));
+    }
+  });
+
+  it('should parse the blocks retrieved by hash', async () => {
+    const blockHash =
+      getBlockByHashJson.result.block_with_signatures.block.Version2.hash;
+    const handler = new BatchStubHandler(batch => [
+      result(batch[0], getBlockByHashJson.result),
+      result(batch[1], { api_version: '2.0.0' })
+    ]);
+
+    const [block, malformed] = await new RpcClient(handler).getBlocksByHash([
+      blockHash,
+      '00'.repeat(32)
+    ]);
+
+    expect(handler.batches[0][0].params).to.deep.equal({
+      block_identifier: { Hash: blockHash }
+    });
+    expect(block.ok && block.val.block.hash.toHex()).to.equal(blockHash);
+    expect(malformed.err).to.be.true;
+  });
+});
+
+describe('RPC Client confirmation', () => {
+  it('should reject with a ConfirmationTimeoutError when the transaction is not processed in time', async () => {
+    const handler: IHandler = {
+      processCall: async request =>
+        result(request, {
+          ...addReservationTransactionJson,
+          execution_info: null
+        }) as any
+    };
+    const transaction = InfoGetTransactionResult.fromJSON(
+      addReservationTransactionJson
+    )!.transaction;
+
+    try {
+      await new RpcClient(handler).waitForTransaction(transaction, 50);
+      expect.fail('The confirmation should time out');
+    } catch (err) {
+      expect(err).to.be.instanceOf(ConfirmationTimeoutError);
+    }
+  });
+});
@@ -0,0 +1,182 @@
+import { expect } from 'chai';
+
+import {
+  HttpError,
+  IHandler,
+  Method,
+  RpcRequest,
+  RpcResponse,
+  SpeculativeClient,
+  SpeculativeExecutionError,
+  toGasEstimate
+} from '../../rpc';
+import {
+  Deploy,
+  ExecutionResult,
+  KeyAlgorithm,
+  NativeTransferBuilder,
+  PrivateKey
+} from '../../types';
+import { getDeployWithNullExecutionResults } from '../data';
+
+const BLOCK_HASH =
+  'a2a4b37e33a04d5922e435e98ec8d555370a976eb7fa9913155a615fb2536649';
+
+/**
+ * A handler answering every call with the given response and recording the requests.
+ */
+class StubHandler implements IHandler {
+  public requests: RpcRequest[] = [];
+
+  constructor(private response: Partial<RpcResponse>) {}
+
+  async processCall(params: RpcRequest): Promise<RpcResponse> {
+    this.requests.push(params);
+    return this.response as RpcResponse;
+  }
+}
+
+const speculativeResult = (consumed: string, error: string | null = null) => ({
+  version: '2.0',
+  result: {
+    api_version: '2.0.0',
+    execution_result: {
+      block_hash: BLOCK_HASH,
+      transfers: [],
+      limit: '100000000',
+      consumed,
+      effects: [],
+      messages: [],
+      error
+    }
+  }
+});
+
+const newTransaction = async () => {
+  const sender = await PrivateKey.generate(KeyAlgorithm.ED25519);
+  const target = await PrivateKey.generate(KeyAlgorithm.ED25519);
+
+  const transaction = new NativeTransferBuilder()
+    .from(sender.publicKey)
+    .target(target.publicKey)
+    .amount('25000000000')
+    .id(1)
+    .chainName('casper-net-1')
+    .payment(100_000_000)
+    .build();
+
+  transaction.sign(sender);
+  return transaction;
+};
+
+describe('SpeculativeClient', () => {
+  const deploy = Deploy.fromJSON(
+    getDeployWithNullExecutionResults.result.deploy
+  );
+
+  it('should execute a TransactionV1 with speculative_exec_txn', async () => {
+    const transaction = await newTransaction();
+    const handler = new StubHandler(speculativeResult('2500000'));
+
+    const result = await new SpeculativeClient(handler).speculativeExec(
+      '0',
+      transaction.getTransactionV1()!
+    );
+
+    expect(handler.requests[0].method).to.equal(Method.SpeculativeExecTxn);
+    expect(handler.requests[0].params.transaction.Version1.hash).to.equal(
+      transaction.hash.toHex()
+    );
+    expect(result.apiVersion).to.equal('2.0.0');
+    expect(result.blockHash?.toHex()).to.equal(BLOCK_HASH);
+    expect(result.executionResult.limit).to.equal(100000000);
+    expect(result.executionResult.consumed).to.equal(2500000);
+    expect(result.executionResult.errorMessage).to.be.undefined;
+  });
+
+  it('should execute a deploy with speculative_exec', async () => {
+    const handler = new StubHandler({
+      version: '2.0',
+      result: {
+        api_version: '1.5.8',
+        execution_result: {
+          Success: {
+            effect: { operations: [], transforms: [] },
+            transfers: [],
+            cost: '100000000'
+          }
+        }
+      }
+    });
+
+    const result = await new SpeculativeClient(handler).speculativeExec(
+      '0',
+      deploy
+    );
+
+    expect(handler.requests[0].method).to.equal(Method.SpeculativeExec);
+    expect(handler.requests[0].params.deploy.hash).to.equal(
+      deploy.hash.toHex()
+    );
+    expect(result.executionResult.consumed).to.equal(100000000);
+    expect(result.blockHash).to.be.undefined;
+  });
+
+  it('should throw HttpError when the node responds with an error', async () => {
+    const handler = new StubHandler({
+      version: '2.0',
+      error: { code: -32003, message: 'invalid deploy' } as any
+    });
+
+    try {
+      await new SpeculativeClient(handler).speculativeExec('0', deploy);
+      expect.fail('Expected the speculative execution to fail');
+    } catch (err) {
+      expect(HttpError.isHttpError(err)).to.be.ok;
+      expect(err.statusCode).to.equal(-32003);
+      expect(err.sourceErr.message).to.equal('invalid deploy');
+    }
+  });
+
+  it('should estimate the payment of a transaction', async () => {
+    const transaction = await newTransaction();
+    const client = new SpeculativeClient(
+      new StubHandler(speculativeResult('2500000'))
+    );
+
+    const estimate = await client.estimateGas(transaction, {
+      margin: 0.2,
+      gasPrice: 2
+    });
+
+    expect(estimate).to.deep.equal({
+      consumed: 2500000,
+      paymentAmount: 3000000,
+      cost: 6000000
+    });
+  });
+
+  it('should reject estimates of failed executions', async () => {
+    const transaction = await newTransaction();
+    const client = new SpeculativeClient(
+      new StubHandler(speculativeResult('2500000', 'Out of gas error'))
+    );
+
+    try {
+      await client.estimateGas(transaction);
+      expect.fail('Expected the estimate to fail');
+    } catch (err) {
+      expect(err).to.be.instanceOf(SpeculativeExecutionError);
+      expect(err.executionResult.errorMessage).to.equal('Out of gas error');
+    }
+  });
+
+  it('should apply the minimum payment to estimates', () => {
+    const executionResult = new ExecutionResult();
+    executionResult.consumed = 1000;
+
+    expect(
+      toGasEstimate(executionResult, { minimumPayment: 2500 })
+    ).to.deep.equal({ consumed: 1000, paymentAmount: 2500, cost: 2500 });
+  });
+});
@@ -0,0 +1,325 @@
+import { expect } from 'chai';
+import EventSource from 'eventsource';
+
+import {
+  APIVersionEvent,
+  EventName,
+  RawEvent,
+  SseClient,
+  SseClientOptions,
+  SseConnectionState
+} from '../../sse';
+
+const eventStreamUrl = 'http://localhost:9999/events/main';
+const apiVersionEvent = (version: string) =>
+  JSON.stringify({ ApiVersion: version });
+const shutdownEvent = JSON.stringify('Shutdown');
+const stepEvent = JSON.stringify({ Step: { era_id: 1 } });
+
+/**
+ * Stands in for the connection to a node, letting the tests open it, emit events and fail it.
+ */
+class EventSourceStub {
+  public onopen?: () => void;
+  public onmessage?: (event: MessageEvent<string>) => void;
+  public onerror?: (error: unknown) => void;
+  public closed = false;
+
+  constructor(public readonly url: string) {}
+
+  open() {
+    this.onopen?.();
+  }
+
+  emit(data: string, lastEventId = '') {
+    this.onmessage?.({
+      data,
+      type: 'message',
+      lastEventId
+    } as MessageEvent<string>);
+  }
+
+  fail(error: unknown = new Error('connection lost')) {
+    this.onerror?.(error);
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+/**
+ * An `SseClient` connecting through `EventSourceStub`s.
+ */
+class TestSseClient extends SseClient {
+  public sources: EventSourceStub[] = [];
+
+  constructor(options: SseClientOptions = {}) {
+    super(eventStreamUrl, options);
+  }
+
+  get source(): EventSourceStub {
+    return this.sources[this.sources.length - 1];
+  }
+
+  protected createEventSource(url: string): EventSource {
+    const source = new EventSourceStub(url);
+    this.sources.push(source);
+    return (source as unknown) as EventSource;
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('SseClient', () => {
+  describe('subscriptions', () => {
+    it('should pass parsed events to typed handlers', () => {
+      const client = new TestSseClient();
+      const received: Array<[APIVersionEvent, RawEvent]> = [];
+
+      client.on(EventName.APIVersionEventType, (event, rawEvent) =>
+        received.push([event, rawEvent])
+      );
+      client.start();
+      client.source.emit(apiVersionEvent('2.0.0'), '7');
+      client.source.emit(stepEvent, '8');
+
+      expect(received).to.have.lengthOf(1);
+      expect(received[0][0]).to.be.instanceOf(APIVersionEvent);
+      expect(received[0][0].apiVersion).to.equal('2.0.0');
+      expect(received[0][1].lastEventId).to.equal('7');
+      client.stop();
+    });
+
+    it('should call every handler of an event until it unsubscribes', () => {
+      const client = new TestSseClient();
+      const calls: string[] = [];
+
+      const unsubscribe = client.on(EventName.StepEventType, () =>
+        calls.push('first')
+      );
+      client.on(EventName.StepEventType, () => calls.push('second'));
+      client.subscribe(EventName.StepEventType, () => calls.push('raw'));
+      client.start();
+
+      client.source.emit(stepEvent, '1');
+      unsubscribe();
+      client.source.emit(stepEvent, '2');
+
+      expect(calls).to.deep.equal(['first', 'second', 'raw', 'second', 'raw']);
+      expect(client.unsubscribe(EventName.StepEventType).ok).to.be.true;
+      expect(client.unsubscribe(EventName.StepEventType).err).to.be.true;
+      client.stop();
+    });
+
+    it('should pass events failing to parse to the error callback', () => {
+      const errors: Array<[unknown, RawEvent]> = [];
+      const client = new TestSseClient({
+        onError: (error, rawEvent) => errors.push([error, rawEvent])
+      });
+      let handled = 0;
+
+      client.on(EventName.APIVersionEventType, () => handled++);
+      client.start();
+      client.source.emit(apiVersionEvent('2.0.0'), '1');
+      client.source.emit(JSON.stringify({ ApiVersion: 5 }), '2');
+
+      expect(handled).to.equal(1);
+      // Reported once by the typed handler and once by the lifecycle tracking
+      expect(errors).to.have.lengthOf(2);
+      errors.forEach(([error, rawEvent]) => {
+        expect(error).to.be.instanceOf(Error);
+        expect(rawEvent.lastEventId).to.equal('2');
+      });
+      client.stop();
+    });
+
+    it('should drop events failing to parse without an error callback', () => {
+      const client = new TestSseClient();
+      let handled = 0;
+
+      client.on(EventName.APIVersionEventType, () => handled++);
+      client.start();
+
+      expect(() =>
+        client.source.emit(JSON.stringify({ ApiVersion: 5 }), '1')
+      ).to.not.throw();
+      expect(handled).to.equal(0);
+      client.stop();
+    });
+  });
+
+  describe('node lifecycle', () => {
+    it('should detect restarts after a shutdown or a version change', () => {
+      const restarts: Array<[string, string | undefined]> = [];
+      let shutdowns = 0;
+      const client = new TestSseClient({
+        onShutdown: () => shutdowns++,
+        onNodeRestart: (version, previous) => restarts.push([version, previous])
+      });
+
+      client.start();
+      client.source.emit(apiVersionEvent('2.0.0'));
+      client.source.emit(apiVersionEvent('2.0.0'));
+      client.source.emit(shutdownEvent);
+      client.source.emit(apiVersionEvent('2.0.0'));
+      client.source.emit(apiVersionEvent('2.0.1'));
+
+      expect(shutdowns).to.equal(1);
+      expect(restarts).to.deep.equal([
+        ['2.0.0', '2.0.0'],
+        ['2.0.1', '2.0.0']
+      ]);
+      client.stop();
+    });
+
+    it('should report malformed ApiVersion events instead of throwing', () => {
+      const errors: unknown[] = [];
+      const client = new TestSseClient({
+        onError: error => errors.push(error)
+      });
+
+      client.start();
+
+      expect(() =>
+        client.source.emit(JSON.stringify({ ApiVersion: { major: 2 } }))
+      ).to.not.throw();
+      expect(errors).to.have.lengthOf(1);
+      expect(client.getState()).to.equal(SseConnectionState.Connecting);
+      client.stop();
+    });
+  });
+
+  describe('reconnection', () => {
+    const reconnect = { initialDelay: 5, multiplier: 2, maxDelay: 15 };
+
+    it('should resume after the last received event', async () => {
+      const states: SseConnectionState[] = [];
+      const client = new TestSseClient({
+        reconnect,
+        onStateChange: state => states.push(state)
+      });
+
+      client.start(10);
+      expect(client.source.url).to.equal(`${eventStreamUrl}?start_from=10`);
+      client.source.open();
+      client.source.emit(stepEvent, '41');
+      client.source.emit(stepEvent, '42');
+
+      const lost = client.source;
+      lost.fail();
+
+      expect(lost.closed).to.be.true;
+      expect(client.getState()).to.equal(SseConnectionState.Reconnecting);
+      expect(client.getLastEventId()).to.equal(42);
+
+      await wait(20);
+
+      expect(client.sources).to.have.lengthOf(2);
+      expect(client.source.url).to.equal(`${eventStreamUrl}?start_from=43`);
+      client.source.open();
+      expect(states).to.deep.equal([
+        SseConnectionState.Connecting,
+        SseConnectionState.Open,
+        SseConnectionState.Reconnecting,
+        SseConnectionState.Open
+      ]);
+      client.stop();
+    });
+
+    it('should back off between failed attempts', async () => {
+      const client = new TestSseClient({ reconnect });
+      const connectedAt: number[] = [];
+      const start = Date.now();
+
+      client.start();
+      for (let i = 0; i < 3; i++) {
+        const source = client.source;
+        source.fail();
+        while (client.source === source) {
+          await wait(1);
+        }
+        connectedAt.push(Date.now() - start);
+      }
+
+      // Delays of 5, 10 and 15 (capped) milliseconds
+      expect(connectedAt[0]).to.be.at.least(4);
+      expect(connectedAt[1] - connectedAt[0]).to.be.at.least(9);
+      expect(connectedAt[2] - connectedAt[1]).to.be.at.least(14);
+      client.stop();
+    });
+
+    it('should close after the maximum number of attempts', async () => {
+      const errors: unknown[] = [];
+      const client = new TestSseClient({
+        reconnect: { ...reconnect, maxAttempts: 1 },
+        onStateChange: (state, error) => {
+          if (state === SseConnectionState.Closed) {
+            errors.push(error);
+          }
+        }
+      });
+      const stream = client.stream();
+
+      client.start();
+      client.source.fail();
+      await wait(20);
+      const error = new Error('still down');
+      client.source.fail(error);
+
+      expect(client.sources).to.have.lengthOf(2);
+      expect(client.getState()).to.equal(SseConnectionState.Closed);
+      expect(errors).to.deep.equal([error]);
+      expect((await stream.next()).done).to.be.true;
+    });
+
+    it('should not reconnect when disabled or stopped', async () => {
+      const disabled = new TestSseClient({ reconnect: { enabled: false } });
+      disabled.start();
+      disabled.source.fail();
+
+      const stopped = new TestSseClient({ reconnect });
+      stopped.start();
+      stopped.source.fail();
+      stopped.stop();
+
+      await wait(20);
+
+      expect(disabled.sources).to.have.lengthOf(1);
+      expect(disabled.getState()).to.equal(SseConnectionState.Closed);
+      expect(stopped.sources).to.have.lengthOf(1);
+      expect(stopped.getState()).to.equal(SseConnectionState.Closed);
+    });
+  });
+});
+
+describe('RawEvent.parseAs', () => {
+  it('should parse the payload registered for the event name', () => {
+    const rawEvent = new RawEvent('message', apiVersionEvent('2.0.0'), '3');
+
+    const event = rawEvent.parseAs(EventName.APIVersionEventType);
+
+    expect(event).to.be.instanceOf(APIVersionEvent);
+    expect(event.apiVersion).to.equal('2.0.0');
+  });
+
+  it('should return events without a payload class as is', () => {
+    const shutdown = new RawEvent('message', shutdownEvent, '4');
+    const eventId = new RawEvent('message', JSON.stringify({ EventID: 4 }), '');
+
+    expect(shutdown.parseAs(EventName.ShutdownType)).to.equal(shutdown);
+    expect(eventId.parseAs(EventName.EventIDEventType)).to.equal(eventId);
+  });
+
+  it('should throw on malformed payloads', () => {
+    const rawEvent = new RawEvent(
+      'message',
+      JSON.stringify({ ApiVersion: 5 }),
+      '5'
+    );
+
+    expect(() => rawEvent.parseAs(EventName.APIVersionEventType)).to.throw(
+      'Error parsing event data'
+    );
+  });
+});
@@ -0,0 +1,245 @@
+import { expect } from 'chai';
+
+import {
+  ConfirmationTimeoutError,
+  IHandler,
+  InfoGetTransactionResult,
+  Method,
+  RpcClient,
+  RpcRequest,
+  RpcResponse,
+  TransactionExpiredError
+} from '../../rpc';
+import {
+  ConfirmationTracker,
+  EventName,
+  SseClient,
+  SseConnectionState,
+  TypedEventHandlerFn
+} from '../../sse';
+import { Hash, Timestamp, Transaction, TransactionHash } from '../../types';
+import { addReservationTransactionJson, getBlockByHashJson } from '../data';
+
+const inclusionHeight =
+  addReservationTransactionJson.execution_info.block_height;
+
+const processedJson = addReservationTransactionJson;
+const pendingJson = { ...addReservationTransactionJson, execution_info: null };
+
+const blockAtHeight = (height: number) => {
+  const json = JSON.parse(JSON.stringify(getBlockByHashJson.result));
+  json.block_with_signatures.block.Version2.header.height = height;
+  return json;
+};
+
+/**
+ * A node answering `info_get_transaction` with the given results, the last one repeated,
+ * and `chain_get_block` with a block at `latestHeight`.
+ */
+class NodeStub implements IHandler {
+  public transactionCalls = 0;
+  public latestHeight = inclusionHeight;
+
+  constructor(private transactionResults: any[]) {}
+
+  async processCall(params: RpcRequest): Promise<RpcResponse> {
+    const response = new RpcResponse();
+    response.version = '2.0';
+    response.id = params.id;
+
+    if (params.method === Method.GetTransaction) {
+      response.result = this.transactionResults[
+        Math.min(this.transactionCalls, this.transactionResults.length - 1)
+      ];
+      this.transactionCalls++;
+    } else if (params.method === Method.GetBlock) {
+      response.result = blockAtHeight(this.latestHeight);
+    } else {
+      throw new Error(`Unexpected method ${params.method}`);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Stands in for an `SseClient` connected to a node, letting the tests emit events.
+ */
+class SseClientStub {
+  public state = SseConnectionState.Open;
+  private handlers: Array<{
+    eventName: EventName;
+    handler: (event: any) => void;
+  }> = [];
+
+  getState(): SseConnectionState {
+    return this.state;
+  }
+
+  on<K extends EventName>(eventName: K, handler: TypedEventHandlerFn<K>) {
+    const subscription = {
+      eventName,
+      handler: (event: any) => handler(event, event)
+    };
+    this.handlers.push(subscription);
+    return () => {
+      this.handlers = this.handlers.filter(h => h !== subscription);
+    };
+  }
+
+  emit(eventName: EventName, event: any) {
+    this.handlers
+      .filter(subscription => subscription.eventName === eventName)
+      .forEach(subscription => subscription.handler(event));
+  }
+
+  subscriptionCount(): number {
+    return this.handlers.length;
+  }
+}
+
+const newTransaction = (): Transaction => {
+  const transaction = InfoGetTransactionResult.fromJSON(
+    addReservationTransactionJson
+  )!.transaction;
+  transaction.timestamp = new Timestamp(new Date());
+  return transaction;
+};
+
+const transactionHash = (transaction: Transaction) =>
+  new TransactionHash(undefined, Hash.fromHex(transaction.hash.toHex()));
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('ConfirmationTracker', () => {
+  const options = { pollInterval: 5, timeout: 2000 };
+
+  it('should poll the node until the transaction is processed', async () => {
+    const node = new NodeStub([pendingJson, pendingJson, processedJson]);
+    const tracker = new ConfirmationTracker(new RpcClient(node));
+
+    const result = await tracker.waitForTransaction(newTransaction(), options);
+
+    expect(result.executionInfo?.blockHeight).to.equal(inclusionHeight);
+    expect(node.transactionCalls).to.equal(3);
+  });
+
+  it('should reject with a ConfirmationTimeoutError', async () => {
+    const tracker = new ConfirmationTracker(
+      new RpcClient(new NodeStub([pendingJson]))
+    );
+
+    try {
+      await tracker.waitForTransaction(newTransaction(), {
+        ...options,
+        timeout: 30
+      });
+      expect.fail('The confirmation should time out');
+    } catch (err) {
+      expect(err).to.be.instanceOf(ConfirmationTimeoutError);
+    }
+  });
+
+  it('should reject with a TransactionExpiredError once the ttl elapsed', async () => {
+    const transaction = newTransaction();
+    transaction.timestamp = new Timestamp(new Date(0));
+    const tracker = new ConfirmationTracker(
+      new RpcClient(new NodeStub([pendingJson]))
+    );
+
+    try {
+      await tracker.waitForTransaction(transaction, options);
+      expect.fail('The transaction should be expired');
+    } catch (err) {
+      expect(err).to.be.instanceOf(TransactionExpiredError);
+    }
+  });
+
+  it('should wait for the blocks on top of the including block', async () => {
+    const node = new NodeStub([processedJson]);
+    const tracker = new ConfirmationTracker(new RpcClient(node));
+    let confirmed = false;
+
+    const confirmation = tracker
+      .waitForTransaction(newTransaction(), { ...options, blockDepth: 2 })
+      .then(() => (confirmed = true));
+
+    await wait(30);
+    node.latestHeight = inclusionHeight + 1;
+    await wait(30);
+    expect(confirmed).to.be.false;
+
+    node.latestHeight = inclusionHeight + 2;
+    await confirmation;
+  });
+
+  it('should rely on the events while the event stream is open', async () => {
+    const transaction = newTransaction();
+    const node = new NodeStub([pendingJson, processedJson]);
+    const sseClient = new SseClientStub();
+    const tracker = new ConfirmationTracker(
+      new RpcClient(node),
+      (sseClient as unknown) as SseClient
+    );
+    let confirmed = false;
+
+    const confirmation = tracker
+      .waitForTransaction(transaction, { ...options, blockDepth: 1 })
+      .then(() => (confirmed = true));
+
+    await wait(30);
+    expect(node.transactionCalls).to.equal(1);
+
+    sseClient.emit(EventName.TransactionProcessedEventType, {
+      transactionProcessedPayload: {
+        transactionHash: transactionHash(transaction)
+      }
+    });
+    await wait(30);
+    expect(node.transactionCalls).to.equal(2);
+    expect(confirmed).to.be.false;
+
+    sseClient.emit(EventName.BlockAddedEventType, {
+      BlockAdded: { block: { height: inclusionHeight + 1 } }
+    });
+    await confirmation;
+    expect(sseClient.subscriptionCount()).to.equal(0);
+  });
+
+  it('should reject on a TransactionExpired event', async () => {
+    const transaction = newTransaction();
+    const sseClient = new SseClientStub();
+    const tracker = new ConfirmationTracker(
+      new RpcClient(new NodeStub([pendingJson])),
+      (sseClient as unknown) as SseClient
+    );
+
+    const confirmation = tracker.waitForTransaction(transaction, options);
+    sseClient.emit(EventName.TransactionExpiredEventType, {
+      transactionExpiredPayload: {
+        transactionHash: transactionHash(transaction)
+      }
+    });
+
+    try {
+      await confirmation;
+      expect.fail('The transaction should be expired');
+    } catch (err) {
+      expect(err).to.be.instanceOf(TransactionExpiredError);
+    }
+  });
+
+  it('should fall back to polling while the event stream is closed', async () => {
+    const node = new NodeStub([pendingJson, pendingJson, processedJson]);
+    const sseClient = new SseClientStub();
+    sseClient.state = SseConnectionState.Reconnecting;
+    const tracker = new ConfirmationTracker(
+      new RpcClient(node),
+      (sseClient as unknown) as SseClient
+    );
+
+    await tracker.waitForTransaction(newTransaction(), options);
+
+    expect(node.transactionCalls).to.equal(3);
+  });
+});
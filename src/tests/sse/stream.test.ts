@@ -0,0 +1,142 @@
+import { expect } from 'chai';
+
+import {
+  EventName,
+  RawEvent,
+  SseBufferOverflowError,
+  SseClient,
+  SseEventStream,
+  SseOverflowPolicy
+} from '../../sse';
+
+const stepEvent = (eraId: number) =>
+  JSON.stringify({ Step: { era_id: eraId } });
+const apiVersionEvent = JSON.stringify({ ApiVersion: '2.0.0' });
+
+const collect = async (stream: SseEventStream): Promise<RawEvent[]> => {
+  const events: RawEvent[] = [];
+  for await (const rawEvent of stream) {
+    events.push(rawEvent);
+  }
+  return events;
+};
+
+describe('SseEventStream', () => {
+  it('should yield the events matching the filter until it ends', async () => {
+    const stream = new SseEventStream({
+      eventNames: [EventName.StepEventType]
+    });
+
+    stream.push(apiVersionEvent, 'message', '');
+    stream.push(stepEvent(1), 'message', '1');
+    stream.push(stepEvent(2), 'message', '2');
+    stream.end();
+    stream.push(stepEvent(3), 'message', '3');
+
+    const events = await collect(stream);
+
+    expect(events.map(it => it.lastEventId)).to.deep.equal(['1', '2']);
+  });
+
+  it('should deliver events to a waiting consumer', async () => {
+    const stream = new SseEventStream();
+    const next = stream.next();
+
+    stream.push(stepEvent(1), 'message', '1');
+
+    const result = await next;
+    expect(result.done).to.be.false;
+    expect(result.value.data).to.equal(stepEvent(1));
+  });
+
+  it('should drop the oldest events when the buffer is full', async () => {
+    const stream = new SseEventStream({
+      bufferSize: 2,
+      overflowPolicy: SseOverflowPolicy.DropOldest
+    });
+
+    [1, 2, 3, 4].forEach(id => stream.push(stepEvent(id), 'message', `${id}`));
+    stream.end();
+
+    const events = await collect(stream);
+
+    expect(events.map(it => it.lastEventId)).to.deep.equal(['3', '4']);
+    expect(stream.getDroppedCount()).to.equal(2);
+  });
+
+  it('should drop the newest events when the buffer is full', async () => {
+    const stream = new SseEventStream({
+      bufferSize: 2,
+      overflowPolicy: SseOverflowPolicy.DropNewest
+    });
+
+    [1, 2, 3, 4].forEach(id => stream.push(stepEvent(id), 'message', `${id}`));
+    stream.end();
+
+    const events = await collect(stream);
+
+    expect(events.map(it => it.lastEventId)).to.deep.equal(['1', '2']);
+    expect(stream.getDroppedCount()).to.equal(2);
+  });
+
+  it('should fail after the buffered events when the buffer overflows', async () => {
+    const stream = new SseEventStream({ bufferSize: 2 });
+    const events: RawEvent[] = [];
+
+    [1, 2, 3].forEach(id => stream.push(stepEvent(id), 'message', `${id}`));
+
+    try {
+      for await (const rawEvent of stream) {
+        events.push(rawEvent);
+      }
+      expect.fail('The stream should fail on overflow');
+    } catch (error) {
+      expect(error).to.be.instanceOf(SseBufferOverflowError);
+    }
+
+    expect(events.map(it => it.lastEventId)).to.deep.equal(['1', '2']);
+  });
+
+  it('should close when the consumer stops iterating', async () => {
+    let closed = false;
+    const stream = new SseEventStream({}, () => {
+      closed = true;
+    });
+
+    stream.push(stepEvent(1), 'message', '1');
+    stream.push(stepEvent(2), 'message', '2');
+
+    expect((await stream.next()).value.lastEventId).to.equal('1');
+    await stream.return();
+
+    expect(closed).to.be.true;
+    expect((await stream.next()).done).to.be.true;
+  });
+
+  it('should emit the events through a Readable', async () => {
+    const stream = new SseEventStream();
+    const readable = stream.toReadable();
+    const events: RawEvent[] = [];
+
+    stream.push(stepEvent(1), 'message', '1');
+    stream.push(stepEvent(2), 'message', '2');
+    stream.end();
+
+    await new Promise<void>((resolve, reject) => {
+      readable.on('data', (rawEvent: RawEvent) => events.push(rawEvent));
+      readable.on('end', resolve);
+      readable.on('error', reject);
+    });
+
+    expect(events.map(it => it.lastEventId)).to.deep.equal(['1', '2']);
+  });
+
+  it('should end the streams of a client when it stops', async () => {
+    const client = new SseClient('http://localhost:9999/events');
+    const stream = client.stream();
+
+    client.stop();
+
+    expect((await stream.next()).done).to.be.true;
+  });
+});
@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+
+import {
+  AddressBook,
+  IdentifierKind,
+  IdentifierParseError,
+  PublicKey
+} from '../../types';
+
+const hashHex =
+  'e70dbca48c2d31bc2d754e51860ceaa8a1a49dc627b20320b0ecee1b6d9ce655';
+const publicKeyHex =
+  '012bac1d0ff9240ff0b7b06d555815640497861619ca12583ddef434885416e69b';
+
+describe('AddressBook', () => {
+  it('should add, resolve and remove labelled identifiers', () => {
+    const book = new AddressBook();
+
+    book.add('alice', publicKeyHex);
+    book.add('token', `contract-package-${hashHex}`);
+
+    expect(book.get('alice')?.kind).to.equal(IdentifierKind.PublicKey);
+    expect(book.resolve('token').hash?.toHex()).to.equal(hashHex);
+    expect(book.resolve(`hash-${hashHex}`).kind).to.equal(IdentifierKind.Hash);
+    expect(() => book.add('alice', `hash-${hashHex}`)).to.throw(
+      'label already used'
+    );
+    expect(() => book.add('bob', 'bob')).to.throw(IdentifierParseError);
+
+    expect(book.remove('token')).to.be.true;
+    expect(book.remove('token')).to.be.false;
+    expect(book.list().map(entry => entry.label)).to.deep.equal(['alice']);
+  });
+
+  it('should find the label of a public key from its account hash', () => {
+    const book = new AddressBook();
+    const accountHash = PublicKey.fromHex(publicKeyHex).accountHash();
+
+    book.add('alice', publicKeyHex);
+    book.add('token', `contract-package-${hashHex}`);
+
+    expect(book.findLabel(accountHash.toPrefixedString())).to.equal('alice');
+    expect(book.findLabel(`contract-package-${hashHex}`)).to.equal('token');
+    expect(book.findLabel(`contract-${hashHex}`)).to.be.undefined;
+  });
+
+  it('should require checksums for every lookup when asked to', () => {
+    const book = new AddressBook(true);
+    const checksummed = PublicKey.fromHex(publicKeyHex).toHex(true);
+
+    book.add('alice', checksummed);
+
+    expect(book.findLabel(checksummed)).to.equal('alice');
+    expect(() => book.findLabel(`hash-${hashHex}`)).to.throw(
+      IdentifierParseError,
+      'not checksummed'
+    );
+    expect(() => book.resolve(`hash-${hashHex}`)).to.throw(
+      IdentifierParseError,
+      'not checksummed'
+    );
+  });
+
+  it('should round-trip through JSON', () => {
+    const json = {
+      alice: publicKeyHex,
+      vault: `uref-${hashHex}-007`
+    };
+    const book = AddressBook.fromJSON(json);
+
+    expect(book.toJSON()).to.deep.equal(json);
+    expect(book.get('vault')?.uref?.toPrefixedString()).to.equal(json.vault);
+  });
+});
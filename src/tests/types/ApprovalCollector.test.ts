@@ -0,0 +1,132 @@
+import { expect } from 'chai';
+import { TypedJSON } from 'typedjson';
+
+import {
+  Account,
+  ApprovalCollector,
+  Approval,
+  ErrInvalidApprovalSignature,
+  HexBytes,
+  KeyAlgorithm,
+  NativeTransferBuilder,
+  PrivateKey,
+  PrivateKeySigner
+} from '../../types';
+
+const newAccount = (keys: PrivateKey[], weights: number[], threshold: number) =>
+  new TypedJSON(Account).parse({
+    account_hash: keys[0].publicKey.accountHash().toPrefixedString(),
+    named_keys: [],
+    main_purse:
+      'uref-b7f9d1fe77817e0fd9bc5bd67d02ccc402ffcaeb9978015e118a39cd5dca463c-007',
+    associated_keys: keys.map((key, i) => ({
+      account_hash: key.publicKey.accountHash().toPrefixedString(),
+      weight: weights[i]
+    })),
+    action_thresholds: { deployment: threshold, key_management: threshold }
+  })!;
+
+const newTransaction = (sender: PrivateKey) =>
+  new NativeTransferBuilder()
+    .from(sender.publicKey)
+    .target(PrivateKey.generate(KeyAlgorithm.ED25519).publicKey)
+    .amount('25000000000')
+    .id(1)
+    .chainName('casper-net-1')
+    .payment(100_000_000)
+    .build();
+
+describe('ApprovalCollector', () => {
+  const keys = [
+    PrivateKey.generate(KeyAlgorithm.ED25519),
+    PrivateKey.generate(KeyAlgorithm.SECP256K1),
+    PrivateKey.generate(KeyAlgorithm.ED25519)
+  ];
+  const account = newAccount(keys, [1, 1, 1], 2);
+
+  it('should merge partially signed transactions exchanged as JSON', async () => {
+    const collector = ApprovalCollector.fromTransaction(
+      newTransaction(keys[0])
+    );
+    const json = JSON.stringify(collector.toJSON());
+
+    const first = ApprovalCollector.fromJSON(JSON.parse(json));
+    await first.sign(new PrivateKeySigner(keys[0]));
+    const second = ApprovalCollector.fromJSON(JSON.parse(json));
+    await second.sign(new PrivateKeySigner(keys[1]));
+
+    collector.merge(ApprovalCollector.fromJSON(first.toJSON()));
+    collector.merge(ApprovalCollector.fromJSON(second.toJSON()));
+
+    expect(collector.approvals.map(it => it.signer.toHex())).to.deep.equal([
+      keys[0].publicKey.toHex(),
+      keys[1].publicKey.toHex()
+    ]);
+    expect(collector.getTransaction().validate()).to.be.true;
+  });
+
+  it('should deduplicate approvals by signer', async () => {
+    const collector = ApprovalCollector.fromTransaction(
+      newTransaction(keys[0])
+    );
+    const other = ApprovalCollector.fromJSON(collector.toJSON());
+
+    await collector.sign(new PrivateKeySigner(keys[0]));
+    await collector.sign(new PrivateKeySigner(keys[0]));
+    await other.sign(new PrivateKeySigner(keys[0]));
+    collector.merge(other);
+
+    expect(collector.approvals).to.have.lengthOf(1);
+  });
+
+  it('should reject approvals with invalid signatures', async () => {
+    const collector = ApprovalCollector.fromTransaction(
+      newTransaction(keys[0])
+    );
+    const forged = new Approval(
+      keys[1].publicKey,
+      new HexBytes(keys[2].signAndAddAlgorithmBytes(collector.hash.toBytes()))
+    );
+
+    expect(() => collector.addApprovals([forged])).to.throw(
+      ErrInvalidApprovalSignature.message
+    );
+    expect(collector.approvals).to.be.empty;
+  });
+
+  it('should reject merging approvals of another transaction', () => {
+    const collector = ApprovalCollector.fromTransaction(
+      newTransaction(keys[0])
+    );
+    const other = ApprovalCollector.fromTransaction(newTransaction(keys[1]));
+
+    expect(() => collector.merge(other)).to.throw('Cannot merge approvals');
+  });
+
+  it('should report whether the deployment threshold is satisfied', async () => {
+    const collector = ApprovalCollector.fromTransaction(
+      newTransaction(keys[0])
+    );
+
+    await collector.sign(new PrivateKeySigner(keys[0]));
+    // Keys outside of the associated keys carry no weight
+    await collector.sign(
+      new PrivateKeySigner(PrivateKey.generate(KeyAlgorithm.ED25519))
+    );
+
+    let status = collector.getThresholdStatus(account);
+    expect(status.weight).to.equal(1);
+    expect(status.threshold).to.equal(2);
+    expect(status.satisfied).to.be.false;
+    expect(status.missingKeys.map(it => it.accountHash.toHex())).to.deep.equal(
+      [keys[1], keys[2]].map(key => key.publicKey.accountHash().toHex())
+    );
+
+    await collector.sign(new PrivateKeySigner(keys[2]));
+
+    status = collector.getThresholdStatus(account);
+    expect(status.weight).to.equal(2);
+    expect(status.satisfied).to.be.true;
+    expect(collector.getThresholdStatus(account, 3).satisfied).to.be.false;
+  });
+});
@@ -0,0 +1,204 @@
+import { TypedJSON } from 'typedjson';
+import { expect } from 'chai';
+import { concat } from '@ethersproject/bytes';
+
+import {
+  Block,
+  BlockV1,
+  BlockWithSignatures,
+  CLValueUInt512,
+  HexBytes,
+  KeyAlgorithm,
+  PrivateKey,
+  Proof,
+  PublicKey,
+  ValidatorWeightEraEnd,
+  toBytesU64
+} from '../../types';
+import { getBlockByHashJson } from '../data';
+
+const chainName = 'dev-net';
+
+const validatorWeight = (
+  validator: PublicKey,
+  weight: number
+): ValidatorWeightEraEnd => {
+  const validatorWeight = new ValidatorWeightEraEnd();
+  validatorWeight.validator = validator;
+  validatorWeight.weight = new CLValueUInt512(weight);
+  return validatorWeight;
+};
+
+const parseBlockV2 = (): Block => {
+  const blockWithSignatures = new TypedJSON(BlockWithSignatures).parse(
+    getBlockByHashJson.result.block_with_signatures
+  )!;
+
+  return Block.newBlockFromBlockWrapper(
+    blockWithSignatures.block,
+    blockWithSignatures.proofs
+  );
+};
+
+describe('Block verification', () => {
+  it('should recompute the hashes of a V2 block', () => {
+    const block = parseBlockV2();
+    const blockV2 = block.getBlockV2()!;
+
+    expect(blockV2.header.computeHash().toHex()).to.equal(
+      getBlockByHashJson.result.block_with_signatures.block.Version2.hash
+    );
+    expect(blockV2.body.computeHash().toHex()).to.equal(
+      getBlockByHashJson.result.block_with_signatures.block.Version2.header
+        .body_hash
+    );
+  });
+
+  it('should verify the finality signatures of a V2 block', () => {
+    const block = parseBlockV2();
+    const weights = block.proofs.map(proof =>
+      validatorWeight(proof.publicKey, 100)
+    );
+
+    const result = block.verify(weights, { chainName });
+
+    expect(result.isHashValid).to.be.true;
+    expect(result.isBodyHashValid).to.be.true;
+    expect(result.proofs.every(proof => proof.isValid)).to.be.true;
+    expect(result.signedWeight.toNumber()).to.equal(400);
+    expect(result.totalWeight.toNumber()).to.equal(400);
+    expect(result.isFinal).to.be.true;
+    expect(result.isValid).to.be.true;
+  });
+
+  it('should not count signatures made for another chain', () => {
+    const block = parseBlockV2();
+    const weights = block.proofs.map(proof =>
+      validatorWeight(proof.publicKey, 100)
+    );
+
+    const result = block.verify(weights, { chainName: 'casper' });
+
+    expect(result.proofs.some(proof => proof.isValid)).to.be.false;
+    expect(result.signedWeight.toNumber()).to.equal(0);
+    expect(result.isFinal).to.be.false;
+    expect(result.isValid).to.be.false;
+  });
+
+  it('should compare the signed weight with the finality threshold', () => {
+    const block = parseBlockV2();
+    const nonSigner = PrivateKey.generate(KeyAlgorithm.ED25519).publicKey;
+    const weights = [
+      ...block.proofs.map(proof => validatorWeight(proof.publicKey, 100)),
+      validatorWeight(nonSigner, 900)
+    ];
+
+    const result = block.verify(weights, { chainName });
+
+    expect(result.signedWeight.toNumber()).to.equal(400);
+    expect(result.totalWeight.toNumber()).to.equal(1300);
+    expect(result.isFinal).to.be.false;
+    expect(
+      block.verify(weights, { chainName, finalityThreshold: [1, 4] }).isFinal
+    ).to.be.true;
+  });
+
+  it('should reject proofs from signers outside of the era validators', () => {
+    const block = parseBlockV2();
+    const [outsider, ...validators] = block.proofs;
+    const weights = validators.map(proof =>
+      validatorWeight(proof.publicKey, 100)
+    );
+
+    const result = block.verify(weights, { chainName });
+
+    expect(result.proofs[0].isValid).to.be.false;
+    expect(result.proofs[0].publicKey.toHex()).to.equal(
+      outsider.publicKey.toHex()
+    );
+    expect(result.signedWeight.toNumber()).to.equal(300);
+    expect(result.isFinal).to.be.true;
+  });
+
+  it('should detect a tampered block', () => {
+    const block = parseBlockV2();
+    const weights = block.proofs.map(proof =>
+      validatorWeight(proof.publicKey, 100)
+    );
+    block.getBlockV2()!.header.height += 1;
+    block.getBlockV2()!.body.rewardedSignatures = [];
+
+    const result = block.verify(weights, { chainName });
+
+    expect(result.isHashValid).to.be.false;
+    expect(result.isBodyHashValid).to.be.false;
+    expect(result.isValid).to.be.false;
+  });
+
+  it('should require a chain name for V2 blocks', () => {
+    expect(() => parseBlockV2().verify([])).to.throw(
+      'Chain name is required to verify a V2 block'
+    );
+  });
+
+  it('should verify the finality signatures of a V1 block', () => {
+    const validator = PrivateKey.generate(KeyAlgorithm.SECP256K1);
+    const other = PrivateKey.generate(KeyAlgorithm.ED25519);
+    const blockV1 = new TypedJSON(BlockV1).parse({
+      hash: '00'.repeat(32),
+      header: {
+        parent_hash: '11'.repeat(32),
+        state_root_hash: '22'.repeat(32),
+        body_hash: '00'.repeat(32),
+        random_bit: false,
+        accumulated_seed: '33'.repeat(32),
+        era_end: {
+          era_report: {
+            equivocators: [],
+            rewards: [
+              { validator: validator.publicKey.toHex(), amount: 10 },
+              { validator: other.publicKey.toHex(), amount: 20 }
+            ],
+            inactive_validators: [other.publicKey.toHex()]
+          },
+          next_era_validator_weights: [
+            { validator: validator.publicKey.toHex(), weight: '100' },
+            { validator: other.publicKey.toHex(), weight: '100' }
+          ]
+        },
+        timestamp: '2021-04-01T12:00:00.000Z',
+        era_id: 10,
+        height: 1000,
+        protocol_version: '1.5.8'
+      },
+      body: {
+        proposer: validator.publicKey.toHex(),
+        deploy_hashes: ['44'.repeat(32)],
+        transfer_hashes: []
+      },
+      proofs: []
+    })!;
+    blockV1.header.bodyHash = blockV1.body.computeHash();
+    blockV1.hash = blockV1.header.computeHash();
+
+    const proof = new Proof();
+    proof.publicKey = validator.publicKey;
+    proof.signature = new HexBytes(
+      validator.signAndAddAlgorithmBytes(
+        concat([blockV1.hash.toBytes(), toBytesU64(blockV1.header.eraID)])
+      )
+    );
+    blockV1.proofs = [proof];
+
+    const result = Block.newBlockFromBlockV1(blockV1).verify([
+      validatorWeight(validator.publicKey, 100),
+      validatorWeight(other.publicKey, 100)
+    ]);
+
+    expect(result.isHashValid).to.be.true;
+    expect(result.isBodyHashValid).to.be.true;
+    expect(result.proofs[0].isValid).to.be.true;
+    expect(result.signedWeight.toNumber()).to.equal(100);
+    expect(result.isFinal).to.be.true;
+  });
+});
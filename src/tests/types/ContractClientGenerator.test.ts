@@ -0,0 +1,218 @@
+import { expect } from 'chai';
+import { TypedJSON } from 'typedjson';
+import * as ts from 'typescript';
+
+import * as sdk from '../../types';
+import {
+  CLTypeKey,
+  CLTypeOption,
+  CLTypeRaw,
+  CLTypeUInt256,
+  CLValueCodecError,
+  ContractCall,
+  ContractClient,
+  EntryPointArg,
+  EntryPointPayment,
+  EntryPointType,
+  EntryPointV1,
+  PublicKey,
+  StoredValue,
+  contractEntryPointsFromJSON,
+  generateContractClient
+} from '../../types';
+import { stateItemResultV1Json } from '../data';
+
+const hashHex =
+  'e70dbca48c2d31bc2d754e51860ceaa8a1a49dc627b20320b0ecee1b6d9ce655';
+const sender = PublicKey.fromHex(
+  '012bac1d0ff9240ff0b7b06d555815640497861619ca12583ddef434885416e69b'
+);
+
+/**
+ * Compiles a generated client and returns its exports, resolving the SDK import to the SDK sources.
+ */
+const loadClient = (source: string): Record<string, any> => {
+  const { outputText, diagnostics } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS },
+    reportDiagnostics: true
+  });
+  expect(diagnostics).to.be.empty;
+
+  const exports: Record<string, any> = {};
+  const load = new Function('exports', 'require', outputText);
+  load(exports, (path: string) => {
+    expect(path).to.equal('casper-js-sdk');
+    return sdk;
+  });
+
+  return exports;
+};
+
+describe('generateContractClient', () => {
+  const contract = new TypedJSON(StoredValue).parse(
+    stateItemResultV1Json.stored_value
+  )!.contract!;
+
+  it('should emit a typed method per entry point', () => {
+    const source = generateContractClient(contract, {
+      className: 'Cep47Client'
+    });
+
+    expect(source).to.contain(
+      [
+        'export interface Cep47MintArgs {',
+        '  recipient: Key | string;',
+        '  token_ids: Array<number | bigint | string>;',
+        '  token_metas: Array<Map<string, string> | Record<string, string>>;',
+        '}'
+      ].join('\n')
+    );
+    expect(source).to.contain(
+      [
+        '  /**',
+        '   * Calls the `balance_of` entry point, which returns `U256`.',
+        '   */',
+        '  balanceOf(args: Cep47BalanceOfArgs): ContractCall {',
+        "    return this.call('balance_of', args, {",
+        "      owner: CLTypeParser.fromRawJson('Key')",
+        '    });',
+        '  }'
+      ].join('\n')
+    );
+    expect(source).to.contain('  totalSupply(): ContractCall {');
+    expect(source).to.contain(
+      '  constructorEntryPoint(args: Cep47ConstructorArgs): ContractCall {'
+    );
+    expect(source).to.contain(
+      "import {\n  CLTypeParser,\n  ContractCall,\n  ContractClient,\n  Key\n} from 'casper-js-sdk';"
+    );
+  });
+
+  it('should generate a client building deploys and transactions', () => {
+    const entryPoints = contractEntryPointsFromJSON(stateItemResultV1Json);
+    const { Cep47Client } = loadClient(
+      generateContractClient(entryPoints, { className: 'Cep47Client' })
+    );
+    const client = new Cep47Client({ contractHash: `hash-${hashHex}` });
+    const options = { sender, chainName: 'casper-test', paymentAmount: 1e9 };
+
+    const call: ContractCall = client.transfer({
+      recipient: `account-hash-${hashHex}`,
+      token_ids: [1, BigInt(2)]
+    });
+    const deploy = call.toDeploy(options);
+    const transaction = call.toTransaction(options);
+
+    expect(client).to.be.instanceOf(ContractClient);
+    expect(call.args.toValues()).to.deep.equal({
+      recipient: sdk.Key.newKey(`account-hash-${hashHex}`),
+      token_ids: [BigInt(1), BigInt(2)]
+    });
+    expect(deploy.session.storedContractByHash?.entryPoint).to.equal(
+      'transfer'
+    );
+    expect(deploy.session.storedContractByHash?.hash.hash.toHex()).to.equal(
+      hashHex
+    );
+    expect(deploy.header.chainName).to.equal('casper-test');
+    expect(transaction.getTransactionV1()).to.exist;
+    expect(transaction.entryPoint.customEntryPoint).to.equal('transfer');
+    expect(transaction.target.stored?.id.byHash?.toHex()).to.equal(hashHex);
+    expect(() => client.ownerOf({ token_id: 'one' })).to.throw(
+      CLValueCodecError,
+      'args.token_id: expected U256, got string "one"'
+    );
+  });
+
+  it('should read the VM1 entry points of an addressable entity', () => {
+    const entryPoints = contractEntryPointsFromJSON({
+      entity: {
+        AddressableEntity: {
+          entry_points: [
+            {
+              V1CasperVm: {
+                name: 'set-memo',
+                args: [{ name: 'memo', cl_type: { Option: 'String' } }],
+                ret: 'Unit',
+                access: 'Public',
+                entry_point_type: 'Called',
+                entry_point_payment: 'Caller'
+              }
+            },
+            { V2CasperVm: { flags: 0, functionIndex: 1 } }
+          ]
+        }
+      }
+    });
+    const source = generateContractClient(entryPoints, {
+      className: 'MemoClient'
+    });
+    const { MemoClient } = loadClient(source);
+    const client = new MemoClient({ contractPackageHash: hashHex });
+
+    expect(entryPoints).to.have.lengthOf(1);
+    expect(source).to.contain('  memo?: string | null;');
+    expect(source).to.contain(
+      '  setMemo(args: MemoSetMemoArgs = {}): ContractCall {'
+    );
+    expect(client.setMemo().args.toValues()).to.deep.equal({ memo: null });
+    expect(
+      client
+        .setMemo()
+        .toDeploy({ sender, chainName: 'casper', paymentAmount: 1e9 }).session
+        .storedVersionedContractByHash?.entryPoint
+    ).to.equal('set-memo');
+  });
+
+  it('should generate clients from entry points built in code', () => {
+    const entryPoints = [
+      new EntryPointV1(
+        'Public',
+        [
+          new EntryPointArg('owner', new CLTypeRaw(CLTypeKey)),
+          new EntryPointArg(
+            'memo',
+            new CLTypeRaw(new CLTypeOption(CLTypeUInt256))
+          )
+        ],
+        EntryPointType.Called,
+        EntryPointPayment.Caller,
+        'balance_of',
+        new CLTypeRaw(CLTypeUInt256)
+      )
+    ];
+    const source = generateContractClient(entryPoints, {
+      className: 'TokenClient'
+    });
+    const { TokenClient } = loadClient(source);
+    const client = new TokenClient({ contractHash: hashHex });
+
+    expect(source).to.contain('which returns `U256`');
+    expect(
+      client
+        .balanceOf({ owner: `hash-${hashHex}` })
+        .args.getByName('owner')
+        .key.toPrefixedString()
+    ).to.equal(`hash-${hashHex}`);
+  });
+
+  it('should reject invalid sources and targets', () => {
+    const entryPoints = contractEntryPointsFromJSON(stateItemResultV1Json);
+
+    expect(() =>
+      generateContractClient(entryPoints, { className: 'cep-47' })
+    ).to.throw('Invalid contract client class name');
+    expect(() =>
+      generateContractClient(
+        [entryPoints[0], { ...entryPoints[0], name: 'Approve' }],
+        { className: 'Cep47Client' }
+      )
+    ).to.throw('both map to the method approve');
+    expect(() => contractEntryPointsFromJSON({ stored_value: {} })).to.throw(
+      'no contract entry points'
+    );
+    expect(() => new ContractClient({})).to.throw(
+      'either a contract hash or a contract package hash'
+    );
+  });
+});
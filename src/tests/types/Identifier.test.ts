@@ -0,0 +1,104 @@
+import { expect } from 'chai';
+
+import {
+  IdentifierKind,
+  IdentifierParseError,
+  parseIdentifier,
+  PublicKey
+} from '../../types';
+
+const hashHex =
+  'e70dbca48c2d31bc2d754e51860ceaa8a1a49dc627b20320b0ecee1b6d9ce655';
+const publicKeyHex =
+  '012bac1d0ff9240ff0b7b06d555815640497861619ca12583ddef434885416e69b';
+
+const expectParseError = (source: string, reason: string) => {
+  try {
+    parseIdentifier(source);
+    expect.fail(`Expected "${source}" to be rejected`);
+  } catch (err) {
+    expect(err).to.be.instanceOf(IdentifierParseError);
+    expect(err.reason).to.contain(reason);
+  }
+};
+
+describe('parseIdentifier', () => {
+  it('should parse public keys with their account hash', () => {
+    const accountHash = PublicKey.fromHex(publicKeyHex).accountHash();
+    const parsed = parseIdentifier(`  ${publicKeyHex}\n`);
+
+    expect(parsed.kind).to.equal(IdentifierKind.PublicKey);
+    expect(parsed.source).to.equal(publicKeyHex);
+    expect(parsed.publicKey?.toHex()).to.equal(publicKeyHex);
+    expect(parsed.accountHash?.toPrefixedString()).to.equal(
+      accountHash.toPrefixedString()
+    );
+    expect(parsed.key?.toPrefixedString()).to.equal(
+      accountHash.toPrefixedString()
+    );
+  });
+
+  it('should classify prefixed identifiers', () => {
+    const cases: [string, IdentifierKind][] = [
+      [`account-hash-${hashHex}`, IdentifierKind.AccountHash],
+      [`00${hashHex}`, IdentifierKind.AccountHash],
+      [`entity-account-${hashHex}`, IdentifierKind.Entity],
+      [`entity-contract-${hashHex}`, IdentifierKind.Entity],
+      [`addressable-entity-${hashHex}`, IdentifierKind.Entity],
+      [`hash-${hashHex}`, IdentifierKind.Hash],
+      [hashHex, IdentifierKind.Hash],
+      [`uref-${hashHex}-007`, IdentifierKind.URef],
+      [`contract-package-${hashHex}`, IdentifierKind.ContractPackage],
+      [`contract-package-wasm${hashHex}`, IdentifierKind.ContractPackage],
+      [`package-${hashHex}`, IdentifierKind.ContractPackage],
+      [`contract-wasm-${hashHex}`, IdentifierKind.ContractWasm],
+      [`contract-${hashHex}`, IdentifierKind.Contract],
+      [`transfer-${hashHex}`, IdentifierKind.Key],
+      [`era-42`, IdentifierKind.Key]
+    ];
+
+    cases.forEach(([source, kind]) =>
+      expect(parseIdentifier(source).kind, source).to.equal(kind)
+    );
+  });
+
+  it('should normalise identifiers into SDK types', () => {
+    const entity = parseIdentifier(`entity-account-${hashHex}`);
+    expect(entity.entityAddr?.toPrefixedString()).to.equal(
+      `entity-account-${hashHex}`
+    );
+    expect(entity.accountHash?.toPrefixedString()).to.equal(
+      `account-hash-${hashHex}`
+    );
+
+    const uref = parseIdentifier(`uref-${hashHex}-007`);
+    expect(uref.uref?.toPrefixedString()).to.equal(`uref-${hashHex}-007`);
+
+    const contractPackage = parseIdentifier(`contract-package-${hashHex}`);
+    expect(contractPackage.hash?.toHex()).to.equal(hashHex);
+    expect(contractPackage.key).to.be.undefined;
+  });
+
+  it('should explain why an identifier is invalid', () => {
+    expectParseError('  ', 'the identifier is empty');
+    expectParseError(hashHex.slice(2), 'unexpected hex length 62');
+    expectParseError(`unknown-${hashHex}`, 'unknown prefix "unknown-"');
+    expectParseError(
+      `account-hash-${hashHex.replace('e7', 'E7')}`,
+      'Invalid hash checksum'
+    );
+    expectParseError(`contract-${hashHex.slice(4)}`, 'invalid contract-');
+    expectParseError(`uref-${hashHex}-9`, 'incorrect uref format');
+    expectParseError('not an address', 'expected a public key');
+  });
+
+  it('should require checksums when asked to', () => {
+    expect(() => parseIdentifier(`hash-${hashHex}`, true)).to.throw(
+      IdentifierParseError,
+      'not checksummed'
+    );
+    expect(
+      parseIdentifier(PublicKey.fromHex(publicKeyHex).toHex(true), true).kind
+    ).to.equal(IdentifierKind.PublicKey);
+  });
+});
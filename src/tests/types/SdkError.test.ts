@@ -0,0 +1,19 @@
+import { expect } from 'chai';
+
+import { SseBufferOverflowError } from '../../sse';
+import { SdkError } from '../../types';
+
+describe('SdkError', () => {
+  it('should keep the prototype chain of its subclasses', () => {
+    const error = new SseBufferOverflowError(8);
+
+    expect(error).to.be.instanceOf(SseBufferOverflowError);
+    expect(error).to.be.instanceOf(SdkError);
+    expect(error).to.be.instanceOf(Error);
+    expect(error.name).to.equal('SseBufferOverflowError');
+    expect(error.message).to.equal(
+      'SSE event stream buffer overflow, buffer size: 8'
+    );
+    expect(error.stack).to.be.a('string');
+  });
+});
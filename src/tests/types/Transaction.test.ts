@@ -21,8 +21,15 @@ import {
   Args,
   CLValue,
   TransactionV1Payload,
-  NativeTransferBuilder
+  NativeTransferBuilder,
+  SessionBuilder,
+  Deploy,
+  AccountHash
 } from '../../types';
+import {
+  getTransactionWithNullExecutionResults,
+  transactionV1ContractCall
+} from '../data';
 
 describe('Test Transaction', () => {
   it('should create a TransactionV1 with correct payload instance', async () => {
@@ -201,5 +208,94 @@ describe('Test Transaction', () => {
 
     const txBytes = tx.toBytes();
     assert.deepEqual(txBytes[0], 0x00);
+    expect(Transaction.fromBytes(txBytes).toBytes()).to.deep.equal(txBytes);
+  });
+
+  it('should round trip TransactionV1 bytes', () => {
+    const transactionV1 = TransactionV1.fromJSON(transactionV1ContractCall);
+    const bytes = transactionV1.toBytes();
+
+    const parsed = TransactionV1.fromBytes(bytes);
+
+    expect(parsed.toBytes()).to.deep.equal(bytes);
+    expect(parsed.hash.toHex()).to.equal(transactionV1.hash.toHex());
+    expect(parsed.approvals).to.have.lengthOf(2);
+    expect(parsed.validate()).to.equal(true);
+    expect(TransactionV1.toJSON(parsed)).to.deep.equal(
+      TransactionV1.toJSON(transactionV1)
+    );
+  });
+
+  it('should round trip Deploy bytes', () => {
+    const deploy = Deploy.fromJSON(
+      getTransactionWithNullExecutionResults.result.transaction
+    );
+    const bytes = deploy.toBytes();
+
+    const parsed = Deploy.fromBytes(bytes);
+
+    expect(parsed.toBytes()).to.deep.equal(bytes);
+    expect(parsed.hash.toHex()).to.equal(deploy.hash.toHex());
+    expect(parsed.validate()).to.equal(true);
+    expect(Deploy.toJSON(parsed)).to.deep.equal(Deploy.toJSON(deploy));
+  });
+
+  it('should round trip Transaction bytes for both versions', () => {
+    const transactions = [
+      Transaction.fromJSON(transactionV1ContractCall),
+      Transaction.fromJSON(getTransactionWithNullExecutionResults.result)
+    ];
+
+    transactions.forEach(transaction => {
+      const bytes = transaction.toBytes();
+      const parsed = Transaction.fromBytes(bytes);
+
+      expect(parsed.toBytes()).to.deep.equal(bytes);
+      expect(parsed.hash.toHex()).to.equal(transaction.hash.toHex());
+      expect(parsed.validate()).to.equal(true);
+    });
+  });
+
+  it('should round trip built session and transfer transactions bytes', async () => {
+    const sender = await PrivateKey.generate(KeyAlgorithm.SECP256K1);
+
+    const session = new SessionBuilder()
+      .from(sender.publicKey)
+      .wasm(Uint8Array.from([0x00, 0x61, 0x73, 0x6d]))
+      .installOrUpgrade()
+      .runtimeArgs(Args.fromMap({ name: CLValue.newCLString('casper') }))
+      .chainName('casper-net-1')
+      .payment(100_000_000)
+      .build();
+
+    const transfer = new NativeTransferBuilder()
+      .fromAccountHash(
+        AccountHash.fromString(
+          sender.publicKey.accountHash().toPrefixedString()
+        )
+      )
+      .target(sender.publicKey)
+      .amount('25000000000')
+      .id(42)
+      .chainName('casper-net-1')
+      .payment(100_000_000)
+      .build();
+
+    [session, transfer].forEach(transaction => {
+      transaction.sign(sender);
+
+      const bytes = transaction.toBytes();
+      const parsed = Transaction.fromBytes(bytes);
+
+      expect(parsed.toBytes()).to.deep.equal(bytes);
+      expect(parsed.toJSON()).to.deep.equal(transaction.toJSON());
+      expect(parsed.validate()).to.equal(true);
+    });
+  });
+
+  it('should fail to parse Transaction bytes with unknown version tag', () => {
+    expect(() => Transaction.fromBytes(Uint8Array.of(0x02))).to.throw(
+      'unknown version tag 2'
+    );
   });
 });
@@ -1,7 +1,13 @@
 import { assert, expect } from 'chai';
 import { TypedJSON } from 'typedjson';
 
-import { Transform, TransformKey, TransformKind, CLValue } from '../../types';
+import {
+  Transform,
+  TransformKey,
+  TransformKind,
+  TransformType,
+  CLValue
+} from '../../types';
 import {
   writeAccountV1Json,
   writeAccountV2Json,
@@ -279,3 +285,148 @@ describe('TransformKind JSON Parsing and CLValue Transformation', () => {
     );
   });
 });
+
+describe('TransformKind decoding', () => {
+  const decode = (json: any) => new TransformKind(json).decode();
+
+  it('should decode unit transforms', () => {
+    expect(decode('Identity')).to.deep.equal({
+      type: TransformType.Identity
+    });
+    expect(decode('WriteContract')).to.deep.equal({
+      type: TransformType.WriteContract
+    });
+    expect(decode('WriteContractPackage')).to.deep.equal({
+      type: TransformType.WriteContractPackage
+    });
+  });
+
+  it('should decode WriteCLValue of both versions', () => {
+    const clValueJson = {
+      bytes: '0467295a93',
+      parsed: '2472159591',
+      cl_type: 'U512'
+    };
+
+    const v1 = decode({ WriteCLValue: clValueJson });
+    const v2 = decode({ Write: { CLValue: clValueJson } });
+
+    [v1, v2].forEach(transform => {
+      if (transform.type !== TransformType.WriteCLValue) {
+        throw new Error(`Unexpected transform ${transform.type}`);
+      }
+      expect(transform.clValue.ui512!.toString()).to.equal('2472159591');
+    });
+  });
+
+  it('should decode WriteAccount of both versions', () => {
+    const v1 = new TypedJSON(TransformKey)
+      .parse(writeAccountV1Json)!
+      .transform.decode();
+    const v2 = new TypedJSON(Transform)
+      .parse(writeAccountV2Json)!
+      .kind.decode();
+
+    if (v1.type !== TransformType.WriteAccount) {
+      throw new Error(`Unexpected transform ${v1.type}`);
+    }
+    expect(v1.accountHash.toPrefixedString()).to.equal(
+      writeAccountV1Json.transform.WriteAccount
+    );
+    expect(v1.account).to.be.undefined;
+
+    if (v2.type !== TransformType.WriteAccount) {
+      throw new Error(`Unexpected transform ${v2.type}`);
+    }
+    expect(v2.accountHash.toPrefixedString()).to.equal(
+      writeAccountV2Json.kind.Write.Account.account_hash
+    );
+    expect(v2.account?.mainPurse.toPrefixedString()).to.equal(
+      writeAccountV2Json.kind.Write.Account.main_purse
+    );
+  });
+
+  it('should decode a written contract', () => {
+    const transform = new TypedJSON(Transform)
+      .parse(writeContractV2Json)!
+      .kind.decode();
+
+    if (transform.type !== TransformType.WriteContract) {
+      throw new Error(`Unexpected transform ${transform.type}`);
+    }
+    expect(transform.contract?.contractPackageHash.toPrefixedString()).to.equal(
+      writeContractV2Json.kind.Write.Contract.contract_package_hash
+    );
+  });
+
+  it('should decode WriteTransfer', () => {
+    const transform = decode({
+      WriteTransfer: {
+        id: 0,
+        to:
+          'account-hash-c54c0a2fd689a68dd4114d4852fefa414d24d04f531176729070ca83bd924bea',
+        gas: '0',
+        from:
+          'account-hash-d9c89d3ef62f1c8c5f951d1e44f136f133b728ae7291ea5d4f36530b6f02a910',
+        amount: '193125900000000',
+        source:
+          'uref-b27476d0aa1d55ce26512424b40b093e3057b4d79636f124a3a5e1a9f44733e8-007',
+        target:
+          'uref-654802c4a00cf5e05ecb5c57a7d7731b1f8fa50036c17b49a4b0a5e71dd35055-004',
+        deploy_hash:
+          '683cbcf69dd1a029d4291e873d600566b50b40a7a40da2ba98e169971cd92ddd'
+      }
+    });
+
+    if (transform.type !== TransformType.WriteTransfer) {
+      throw new Error(`Unexpected transform ${transform.type}`);
+    }
+    expect(transform.transfer.amount.toString()).to.equal('193125900000000');
+  });
+
+  it('should decode numeric additions', () => {
+    expect(decode({ AddInt32: -5 })).to.deep.equal({
+      type: TransformType.AddInt32,
+      value: -5
+    });
+
+    const transform = decode({ AddUInt512: '2472159591' });
+
+    if (transform.type !== TransformType.AddUInt512) {
+      throw new Error(`Unexpected transform ${transform.type}`);
+    }
+    expect(transform.value.toString()).to.equal('2472159591');
+  });
+
+  it('should decode AddKeys, Prune and Failure', () => {
+    const key =
+      'hash-f1740bb7fecb174954378ced69b2ced7d0fedd0f37957f6bf00da27670a113ae';
+
+    const addKeys = decode({ AddKeys: [{ name: 'counter', key }] });
+    const prune = decode({ Prune: key });
+    const failure = decode({ Failure: { TypeMismatch: 'U512' } });
+
+    if (addKeys.type !== TransformType.AddKeys) {
+      throw new Error(`Unexpected transform ${addKeys.type}`);
+    }
+    expect(addKeys.namedKeys[0].name).to.equal('counter');
+    expect(addKeys.namedKeys[0].key.toPrefixedString()).to.equal(key);
+
+    if (prune.type !== TransformType.Prune) {
+      throw new Error(`Unexpected transform ${prune.type}`);
+    }
+    expect(prune.key.toPrefixedString()).to.equal(key);
+
+    expect(failure).to.deep.equal({
+      type: TransformType.Failure,
+      error: '{"TypeMismatch":"U512"}'
+    });
+  });
+
+  it('should throw on unknown transforms', () => {
+    expect(() => decode('Unknown')).to.throw('Unknown transform kind');
+    expect(() => decode({ Write: { Unknown: {} } })).to.throw(
+      'Unknown stored value'
+    );
+  });
+});
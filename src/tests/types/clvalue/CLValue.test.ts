@@ -0,0 +1,241 @@
+import { expect } from 'chai';
+
+import {
+  CLType,
+  CLTypeAny,
+  CLTypeBool,
+  CLTypeByteArray,
+  CLTypeInt32,
+  CLTypeInt64,
+  CLTypeKey,
+  CLTypeList,
+  CLTypeMap,
+  CLTypeOption,
+  CLTypePublicKey,
+  CLTypeResult,
+  CLTypeString,
+  CLTypeStruct,
+  CLTypeTuple1,
+  CLTypeTuple2,
+  CLTypeTuple3,
+  CLTypeUInt128,
+  CLTypeUInt256,
+  CLTypeUInt32,
+  CLTypeUInt512,
+  CLTypeUInt64,
+  CLTypeUInt8,
+  CLTypeUnit,
+  CLTypeUref,
+  CLValue,
+  CLValueCodecError,
+  CLValueParser,
+  Conversions,
+  Key,
+  PublicKey,
+  TypeID,
+  URef
+} from '../../../types';
+
+const hashHex =
+  'e70dbca48c2d31bc2d754e51860ceaa8a1a49dc627b20320b0ecee1b6d9ce655';
+const key = Key.newKey(`hash-${hashHex}`);
+const uref = URef.fromString(`uref-${hashHex}-007`);
+const publicKey = PublicKey.fromHex(
+  '012bac1d0ff9240ff0b7b06d555815640497861619ca12583ddef434885416e69b'
+);
+const pointType = new CLTypeStruct('Point', [
+  { name: 'x', type: CLTypeInt32 },
+  { name: 'y', type: CLTypeInt32 }
+]);
+
+interface NativeCase {
+  type: CLType;
+  native: unknown;
+  expected: CLValue;
+}
+
+// One case for every `TypeID`, compared with the value built by the `CLValue` constructors
+const cases: NativeCase[] = [
+  {
+    type: CLTypeBool,
+    native: true,
+    expected: CLValue.newCLValueBool(true)
+  },
+  {
+    type: CLTypeInt32,
+    native: -2147483648,
+    expected: CLValue.newCLInt32(-2147483648)
+  },
+  {
+    type: CLTypeInt64,
+    native: BigInt('-9223372036854775808'),
+    expected: CLValue.newCLInt64('-9223372036854775808')
+  },
+  { type: CLTypeUInt8, native: 255, expected: CLValue.newCLUint8(255) },
+  {
+    type: CLTypeUInt32,
+    native: 4294967295,
+    expected: CLValue.newCLUInt32(4294967295)
+  },
+  {
+    type: CLTypeUInt64,
+    native: BigInt('18446744073709551615'),
+    expected: CLValue.newCLUint64('18446744073709551615')
+  },
+  {
+    type: CLTypeUInt128,
+    native: BigInt('340282366920938463463374607431768211455'),
+    expected: CLValue.newCLUInt128('340282366920938463463374607431768211455')
+  },
+  {
+    type: CLTypeUInt256,
+    native: BigInt(1) << BigInt(200),
+    expected: CLValue.newCLUInt256((BigInt(1) << BigInt(200)).toString())
+  },
+  {
+    type: CLTypeUInt512,
+    native: BigInt('2500000000'),
+    expected: CLValue.newCLUInt512('2500000000')
+  },
+  { type: CLTypeUnit, native: null, expected: CLValue.newCLUnit() },
+  {
+    type: CLTypeString,
+    native: 'Casper',
+    expected: CLValue.newCLString('Casper')
+  },
+  { type: CLTypeKey, native: key, expected: CLValue.newCLKey(key) },
+  { type: CLTypeUref, native: uref, expected: CLValue.newCLUref(uref) },
+  {
+    type: new CLTypeOption(CLTypeUInt32),
+    native: 7,
+    expected: CLValue.newCLOption(CLValue.newCLUInt32(7))
+  },
+  {
+    type: new CLTypeList(CLTypeString),
+    native: ['a', 'b'],
+    expected: CLValue.newCLList(CLTypeString, [
+      CLValue.newCLString('a'),
+      CLValue.newCLString('b')
+    ])
+  },
+  {
+    type: new CLTypeByteArray(4),
+    native: Uint8Array.from([1, 2, 3, 4]),
+    expected: CLValue.newCLByteArray(Uint8Array.from([1, 2, 3, 4]))
+  },
+  {
+    type: new CLTypeResult(CLTypeBool, CLTypeString),
+    native: { err: 'failed' },
+    expected: CLValue.newCLResult(
+      CLTypeBool,
+      CLTypeString,
+      CLValue.newCLString('failed'),
+      false
+    )
+  },
+  {
+    type: new CLTypeMap(CLTypeString, CLTypeUInt64),
+    native: new Map([['alice', BigInt(1)]]),
+    expected: (() => {
+      const map = CLValue.newCLMap(CLTypeString, CLTypeUInt64);
+      map.map!.append(CLValue.newCLString('alice'), CLValue.newCLUint64(1));
+      return map;
+    })()
+  },
+  {
+    type: new CLTypeTuple1(CLTypeBool),
+    native: [false],
+    expected: CLValue.newCLTuple1(CLValue.newCLValueBool(false))
+  },
+  {
+    type: new CLTypeTuple2(CLTypeKey, CLTypeUInt512),
+    native: [key, BigInt(10)],
+    expected: CLValue.newCLTuple2(
+      CLValue.newCLKey(key),
+      CLValue.newCLUInt512(10)
+    )
+  },
+  {
+    type: new CLTypeTuple3(
+      CLTypeUInt8,
+      CLTypeString,
+      new CLTypeList(CLTypeUInt8)
+    ),
+    native: [1, 'x', [2, 3]],
+    expected: CLValue.newCLTuple3(
+      CLValue.newCLUint8(1),
+      CLValue.newCLString('x'),
+      CLValue.newCLList(CLTypeUInt8, [
+        CLValue.newCLUint8(2),
+        CLValue.newCLUint8(3)
+      ])
+    )
+  },
+  {
+    type: CLTypeAny,
+    native: Uint8Array.from([9, 8, 7]),
+    expected: CLValue.newCLAny(Uint8Array.from([9, 8, 7]))
+  },
+  {
+    type: CLTypePublicKey,
+    native: publicKey,
+    expected: CLValue.newCLPublicKey(publicKey)
+  },
+  {
+    type: pointType,
+    native: { x: 1, y: -2 },
+    expected: CLValue.newCLStruct(pointType, {
+      x: CLValue.newCLInt32(1),
+      y: CLValue.newCLInt32(-2)
+    })
+  }
+];
+
+describe('CLValue native conversion', () => {
+  it('should cover every TypeID', () => {
+    const typeIDs = Object.keys(TypeID)
+      .map(name => TypeID[name as keyof typeof TypeID])
+      .filter(id => typeof id === 'number');
+
+    expect(cases.map(({ type }) => type.getTypeID())).to.have.members(typeIDs);
+  });
+
+  cases.forEach(({ type, native, expected }) => {
+    it(`should convert ${type.toString()} values`, () => {
+      const value = CLValue.fromNative(native, type);
+      const bytes = value.bytes();
+
+      expect(value.getType()).to.equal(type);
+      expect(Conversions.encodeBase16(bytes)).to.equal(
+        Conversions.encodeBase16(expected.bytes())
+      );
+      expect(value.toNative()).to.deep.equal(native);
+      expect(expected.toNative()).to.deep.equal(native);
+      expect(
+        CLValueParser.fromBytesByType(bytes, type).result.toNative()
+      ).to.deep.equal(native);
+    });
+  });
+
+  it('should convert empty options and successful results', () => {
+    const option = CLValue.fromNative(null, new CLTypeOption(CLTypeKey));
+    const result = CLValue.fromNative(
+      { ok: 'done' },
+      new CLTypeResult(CLTypeString, CLTypeUInt8)
+    );
+
+    expect(option.toNative()).to.be.null;
+    expect(result.toNative()).to.deep.equal({ ok: 'done' });
+    expect(CLValue.newCLOption(null, CLTypeUInt512).toNative()).to.be.null;
+  });
+
+  it('should reject values which do not match the type', () => {
+    expect(() =>
+      CLValue.fromNative([1, 'two'], new CLTypeList(CLTypeUInt32))
+    ).to.throw(CLValueCodecError, 'value[1]: expected U32, got string "two"');
+    expect(() => CLValue.fromNative(1.5, CLTypeInt64)).to.throw(
+      CLValueCodecError,
+      'expected I64, got number 1.5'
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import { expect } from 'chai';
+import { TypedJSON } from 'typedjson';
+
+import {
+  Args,
+  CLTypeBool,
+  CLTypeByteArray,
+  CLTypeKey,
+  CLTypeList,
+  CLTypeMap,
+  CLTypeOption,
+  CLTypeRaw,
+  CLTypeResult,
+  CLTypeString,
+  CLTypeTuple2,
+  CLTypeTuple3,
+  CLTypeUInt32,
+  CLTypeUInt512,
+  CLTypeUInt8,
+  CLValue,
+  CLValueCodec,
+  CLValueCodecError,
+  Conversions,
+  EntryPointArg,
+  Key
+} from '../../../types';
+
+const hashHex =
+  'e70dbca48c2d31bc2d754e51860ceaa8a1a49dc627b20320b0ecee1b6d9ce655';
+
+const expectCodecError = (encode: () => unknown, message: string) => {
+  try {
+    encode();
+    expect.fail('Expected the value to be rejected');
+  } catch (err) {
+    expect(err).to.be.instanceOf(CLValueCodecError);
+    expect(err.message).to.equal(message);
+  }
+};
+
+describe('CLValueCodec', () => {
+  it('should encode native values like the CLValue constructors', () => {
+    const recipientsType = new CLTypeList(
+      new CLTypeTuple2(CLTypeKey, CLTypeUInt512)
+    );
+    const recipients = CLValueCodec.encode(
+      [[`account-hash-${hashHex}`, BigInt('2500000000')]],
+      recipientsType
+    );
+    const expected = CLValue.newCLList(recipientsType.elementsType, [
+      CLValue.newCLTuple2(
+        CLValue.newCLKey(Key.newKey(`account-hash-${hashHex}`)),
+        CLValue.newCLUInt512('2500000000')
+      )
+    ]);
+
+    expect(recipients.type).to.equal(recipientsType);
+    expect(Conversions.encodeBase16(recipients.bytes())).to.equal(
+      Conversions.encodeBase16(expected.bytes())
+    );
+    expect(
+      CLValueCodec.encode(null, new CLTypeOption(CLTypeString)).bytes()
+    ).to.deep.equal(Uint8Array.from([0]));
+    expect(
+      CLValueCodec.encode(
+        { 0: 1, 1: 'a', 2: true },
+        new CLTypeTuple3(CLTypeUInt8, CLTypeString, CLTypeBool)
+      ).toString()
+    ).to.equal(
+      CLValue.newCLTuple3(
+        CLValue.newCLUint8(1),
+        CLValue.newCLString('a'),
+        CLValue.newCLValueBool(true)
+      ).toString()
+    );
+  });
+
+  it('should round-trip nested values', () => {
+    const type = new CLTypeMap(
+      CLTypeString,
+      new CLTypeResult(new CLTypeByteArray(2), CLTypeUInt32)
+    );
+    const value = new Map([
+      ['a', { ok: Uint8Array.from([1, 2]) }],
+      ['b', { err: 7 }]
+    ]);
+
+    expect(CLValueCodec.decode(CLValueCodec.encode(value, type))).to.deep.equal(
+      value
+    );
+    expect(
+      CLValueCodec.decode(
+        CLValueCodec.encode({ a: { ok: '0102' }, b: { err: '7' } }, type)
+      )
+    ).to.deep.equal(value);
+  });
+
+  it('should report the path of invalid values', () => {
+    const type = new CLTypeList(new CLTypeTuple2(CLTypeKey, CLTypeUInt512));
+    const recipients = [
+      [`account-hash-${hashHex}`, 1],
+      [`account-hash-${hashHex}`, 'ten']
+    ];
+
+    expectCodecError(
+      () => CLValueCodec.encode(recipients, type, 'args.recipients'),
+      'args.recipients[1][1]: expected U512, got string "ten"'
+    );
+    expectCodecError(
+      () => CLValueCodec.encode(256, CLTypeUInt8),
+      'value: expected U8, got number 256 (out of range)'
+    );
+    expectCodecError(
+      () => CLValueCodec.encode(-1, CLTypeUInt512),
+      'value: expected U512, got number -1 (out of range)'
+    );
+    expectCodecError(
+      () =>
+        CLValueCodec.encode(
+          { a: 'true' },
+          new CLTypeMap(CLTypeString, CLTypeBool)
+        ),
+      'value["a"]: expected Bool, got string "true"'
+    );
+    expectCodecError(
+      () => CLValueCodec.encode('0102', new CLTypeByteArray(32)),
+      'value: expected ByteArray: 32, got string "0102" (expected 32 bytes)'
+    );
+    expect(() => CLValueCodec.encode('hash-xyz', CLTypeKey)).to.throw(
+      CLValueCodecError,
+      'value: expected Key, got string "hash-xyz"'
+    );
+  });
+});
+
+describe('Args.fromValues', () => {
+  const schema = {
+    recipient: CLTypeKey,
+    amount: CLTypeUInt512,
+    memo: new CLTypeOption(CLTypeString)
+  };
+
+  it('should build args from native values', () => {
+    const args = Args.fromValues(
+      { recipient: `hash-${hashHex}`, amount: '2500000000' },
+      schema
+    );
+
+    expect(args.getByName('amount')?.ui512?.toString()).to.equal('2500000000');
+    expect(args.getByName('memo')?.option?.isEmpty()).to.be.true;
+    expect(args.toValues()).to.deep.equal({
+      recipient: Key.newKey(`hash-${hashHex}`),
+      amount: BigInt(2500000000),
+      memo: null
+    });
+  });
+
+  it('should use entry point arguments as schema', () => {
+    const entryPointArgs = [
+      { name: 'amount', cl_type: 'U512' },
+      { name: 'ids', cl_type: { List: 'U32' } }
+    ].map(json => new TypedJSON(EntryPointArg).parse(json)!);
+
+    const args = Args.fromValues({ amount: 1, ids: [1, 2] }, entryPointArgs);
+
+    expect(args.toValues()).to.deep.equal({ amount: BigInt(1), ids: [1, 2] });
+    expectCodecError(
+      () => Args.fromValues({ amount: 1, ids: [1, 'two'] }, entryPointArgs),
+      'args.ids[1]: expected U32, got string "two"'
+    );
+  });
+
+  it('should use entry point arguments built in code as schema', () => {
+    const entryPointArgs = [
+      new EntryPointArg('amount', new CLTypeRaw(CLTypeUInt512)),
+      new EntryPointArg('ids', new CLTypeRaw(new CLTypeList(CLTypeUInt32)))
+    ];
+
+    const args = Args.fromValues({ amount: '10', ids: [1] }, entryPointArgs);
+
+    expect(args.toValues()).to.deep.equal({ amount: BigInt(10), ids: [1] });
+    expectCodecError(
+      () => Args.fromValues({ amount: 'ten', ids: [] }, entryPointArgs),
+      'args.amount: expected U512, got string "ten"'
+    );
+  });
+
+  it('should reject missing and unexpected arguments', () => {
+    expectCodecError(
+      () => Args.fromValues({ recipient: `hash-${hashHex}` }, schema),
+      'args.amount: missing argument, expected U512'
+    );
+    expectCodecError(
+      () =>
+        Args.fromValues(
+          { recipient: `hash-${hashHex}`, amount: 1, fee: 1 },
+          schema
+        ),
+      'args.fee: unexpected argument'
+    );
+  });
+});
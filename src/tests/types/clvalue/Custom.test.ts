@@ -0,0 +1,192 @@
+import { expect } from 'chai';
+
+import {
+  CLTypeEnum,
+  CLTypeInt32,
+  CLTypeList,
+  CLTypeParser,
+  CLTypeRegistry,
+  CLTypeUInt32,
+  CLTypeUInt8,
+  CLValue,
+  CLValueChangeKind,
+  CLValueCodecError,
+  CLValueInspector,
+  CLValueParser,
+  Conversions,
+  TypeID
+} from '../../../types';
+
+describe('User-defined CLTypes', () => {
+  const point = CLTypeRegistry.registerStruct('Point', [
+    { name: 'x', type: CLTypeInt32 },
+    { name: 'y', type: CLTypeInt32 }
+  ]);
+  const shape = CLTypeRegistry.registerEnum('Shape', [
+    { name: 'Empty' },
+    {
+      name: 'Circle',
+      fields: [
+        { name: 'center', type: point },
+        { name: 'radius', type: CLTypeUInt32 }
+      ]
+    }
+  ]);
+  const circleHex = '01010000000200000003000000';
+  const circle = CLValue.newCLEnum(shape, 'Circle', {
+    center: CLValue.newCLStruct(point, {
+      x: CLValue.newCLInt32(1),
+      y: CLValue.newCLInt32(2)
+    }),
+    radius: CLValue.newCLUInt32(3)
+  });
+
+  after(() => {
+    CLTypeRegistry.unregister('Point');
+    CLTypeRegistry.unregister('Shape');
+  });
+
+  it('should resolve registered types by name', () => {
+    const list = CLTypeParser.fromRawJson({ List: 'Point' }) as CLTypeList;
+
+    expect(CLTypeRegistry.get('Shape')).to.equal(shape);
+    expect(list.elementsType).to.equal(point);
+    expect(point.toJSON()).to.equal('Any');
+    expect(Array.from(point.toBytes())).to.deep.equal([TypeID.Any]);
+    expect(() => CLTypeRegistry.registerStruct('Point', [])).to.throw(
+      'CLType name already used: Point'
+    );
+    expect(() => CLTypeRegistry.registerStruct('Key', [])).to.throw(
+      'CLType name already used: Key'
+    );
+  });
+
+  it('should serialize nested structs and enums', () => {
+    const parsed = CLValueParser.fromBytesByType(
+      Conversions.decodeBase16(circleHex),
+      shape
+    );
+
+    expect(Conversions.encodeBase16(circle.bytes())).to.equal(circleHex);
+    expect(circle.toString()).to.equal(
+      'Shape::Circle { center: Point { x: 1, y: 2 }, radius: 3 }'
+    );
+    expect(circle.toJSON()).to.deep.equal({
+      Circle: { center: { x: '1', y: '2' }, radius: '3' }
+    });
+    expect(parsed.result.enumVal!.variant.name).to.equal('Circle');
+    expect(parsed.result.toNative()).to.deep.equal(circle.toNative());
+    expect(parsed.bytes).to.be.empty;
+    expect(
+      Conversions.encodeBase16(CLValue.newCLEnum(shape, 'Empty').bytes())
+    ).to.equal('00');
+  });
+
+  it('should decode and encode the stored payloads', () => {
+    const bytes = Conversions.decodeBase16(circleHex);
+    const payloadType = new CLTypeList(CLTypeUInt8);
+    const fromAny = CLValueParser.fromCustomPayload(
+      CLValue.newCLAny(bytes),
+      shape
+    );
+    const fromList = CLValueParser.fromCustomPayload(
+      CLValue.fromNative(bytes, payloadType),
+      shape
+    );
+    const list = CLValueParser.toCustomPayload(circle, payloadType);
+
+    expect(fromAny.toNative()).to.deep.equal(circle.toNative());
+    expect(fromList.toNative()).to.deep.equal(circle.toNative());
+    expect(list.getType().toString()).to.equal(payloadType.toString());
+    expect(list.list!.size()).to.equal(bytes.length);
+    expect(
+      Conversions.encodeBase16(
+        CLValueParser.toCustomPayload(circle).any!.bytes()
+      )
+    ).to.equal(circleHex);
+  });
+
+  it('should convert native values', () => {
+    const native = { Circle: { center: { x: 1, y: 2 }, radius: 3 } };
+    const value = CLValue.fromNative(native, shape);
+
+    expect(Conversions.encodeBase16(value.bytes())).to.equal(circleHex);
+    expect(value.toNative()).to.deep.equal(native);
+    expect(CLValue.fromNative('Empty', shape).toNative()).to.deep.equal({
+      Empty: {}
+    });
+    expect(
+      CLValue.fromNative([{ x: 0, y: -1 }], new CLTypeList(point)).toNative()
+    ).to.deep.equal([{ x: 0, y: -1 }]);
+  });
+
+  it('should render and diff custom values', () => {
+    const moved = CLValue.fromNative(
+      { Circle: { center: { x: 1, y: 5 }, radius: 3 } },
+      shape
+    );
+
+    expect(CLValueInspector.format(circle)).to.equal(
+      [
+        'Shape::Circle {',
+        '  center: Point {',
+        '    x: I32 1,',
+        '    y: I32 2',
+        '  },',
+        '  radius: U32 3',
+        '}'
+      ].join('\n')
+    );
+    expect(CLValueInspector.format(CLValue.newCLEnum(shape, 'Empty'))).to.equal(
+      'Shape::Empty'
+    );
+    expect(
+      CLValueInspector.diff(circle, moved).map(({ kind, path }) => [kind, path])
+    ).to.deep.equal([[CLValueChangeKind.Changed, 'value.center.y']]);
+    expect(
+      CLValueInspector.diff(circle, CLValue.newCLEnum(shape, 'Empty'))
+    ).to.have.lengthOf(1);
+  });
+
+  it('should reject invalid types and values', () => {
+    expect(
+      () =>
+        new CLTypeEnum('Flag', [
+          { name: 'On', tag: 1, fields: [] },
+          { name: 'Off', tag: 1, fields: [] }
+        ])
+    ).to.throw('Duplicate variant name or tag in Flag: Off');
+    expect(() =>
+      CLValue.newCLStruct(point, { x: CLValue.newCLInt32(1) })
+    ).to.throw('Missing field "y" of Point');
+    expect(() =>
+      CLValue.fromNative({ Circle: { center: { x: 1 }, radius: 3 } }, shape)
+    ).to.throw(
+      CLValueCodecError,
+      'value.Circle.center.y: expected I32, got undefined'
+    );
+    expect(() => CLValue.fromNative({ x: 1, y: 2, z: 3 }, point)).to.throw(
+      CLValueCodecError,
+      'value.z: unknown field'
+    );
+    expect(() => CLValue.fromNative({ Square: {} }, shape)).to.throw(
+      CLValueCodecError,
+      'expected { Variant: fields } or a variant name'
+    );
+    expect(() =>
+      CLValueParser.fromCustomPayload(
+        CLValue.newCLAny(Conversions.decodeBase16('02')),
+        shape
+      )
+    ).to.throw('Unknown tag 2 of Shape');
+    expect(() =>
+      CLValueParser.fromCustomPayload(
+        CLValue.newCLAny(Conversions.decodeBase16('0000')),
+        shape
+      )
+    ).to.throw('Unexpected 1 trailing bytes after Shape');
+    expect(() =>
+      CLValueParser.fromCustomPayload(CLValue.newCLString('x'), shape)
+    ).to.throw('Expected an Any, ByteArray or List of U8 payload');
+  });
+});
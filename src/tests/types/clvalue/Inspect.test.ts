@@ -0,0 +1,175 @@
+import { expect } from 'chai';
+
+import {
+  Args,
+  CLTypeKey,
+  CLTypeList,
+  CLTypeMap,
+  CLTypeOption,
+  CLTypeResult,
+  CLTypeString,
+  CLTypeTuple2,
+  CLTypeUInt32,
+  CLTypeUInt512,
+  CLTypeUnit,
+  CLValue,
+  CLValueChangeKind,
+  CLValueInspector
+} from '../../../types';
+
+const hashHex =
+  'e70dbca48c2d31bc2d754e51860ceaa8a1a49dc627b20320b0ecee1b6d9ce655';
+const recipientsType = new CLTypeList(
+  new CLTypeTuple2(CLTypeKey, CLTypeUInt512)
+);
+
+describe('CLValueInspector', () => {
+  it('should render values with their types', () => {
+    const recipients = CLValue.fromNative(
+      [[`account-hash-${hashHex}`, '2500000000']],
+      recipientsType
+    );
+
+    expect(CLValueInspector.format(recipients, { motesAsCSPR: true })).to.equal(
+      [
+        '(List of Tuple2 (Key, U512)) [',
+        '  Tuple2 (Key, U512) (',
+        `    Key account-hash-${hashHex},`,
+        '    U512 2.5 CSPR',
+        '  )',
+        ']'
+      ].join('\n')
+    );
+    expect(CLValueInspector.format(recipients, { indent: 0 })).to.equal(
+      `(List of Tuple2 (Key, U512)) [Tuple2 (Key, U512) (Key account-hash-${hashHex}, U512 2500000000)]`
+    );
+  });
+
+  it('should render options, results, maps and empty values', () => {
+    const map = CLValue.fromNative(
+      { alice: 1 },
+      new CLTypeMap(CLTypeString, CLTypeUInt32)
+    );
+    const option = CLValue.fromNative(
+      ['a'],
+      new CLTypeOption(new CLTypeList(CLTypeString))
+    );
+    const result = CLValue.fromNative(
+      { err: 'failed' },
+      new CLTypeResult(CLTypeUnit, CLTypeString)
+    );
+
+    expect(CLValueInspector.format(map)).to.equal(
+      'Map (String: U32) {\n  String "alice": U32 1\n}'
+    );
+    expect(CLValueInspector.format(option)).to.equal(
+      '(Option: List) Some((List of String) [\n  String "a"\n])'
+    );
+    expect(CLValueInspector.format(result)).to.equal(
+      '(Result: Ok(Unit), Err(String)) Err(String "failed")'
+    );
+    expect(
+      CLValueInspector.format(CLValue.fromNative([], recipientsType))
+    ).to.equal('(List of Tuple2 (Key, U512)) []');
+  });
+
+  it('should report the changed, added and removed paths', () => {
+    const before = CLValue.fromNative(
+      [
+        [`account-hash-${hashHex}`, 1],
+        [`hash-${hashHex}`, 2]
+      ],
+      recipientsType
+    );
+    const after = CLValue.fromNative(
+      [
+        [`account-hash-${hashHex}`, 3],
+        [`hash-${hashHex}`, 2],
+        [`hash-${hashHex}`, 4]
+      ],
+      recipientsType
+    );
+
+    const changes = CLValueInspector.diff(before, after);
+
+    expect(changes.map(({ kind, path }) => [kind, path])).to.deep.equal([
+      [CLValueChangeKind.Changed, 'value[0][1]'],
+      [CLValueChangeKind.Added, 'value[2]']
+    ]);
+    expect(CLValueInspector.formatChanges(changes)).to.equal(
+      [
+        '~ value[0][1]: U512 1 -> U512 3',
+        `+ value[2]: Tuple2 (Key, U512) (Key hash-${hashHex}, U512 4)`
+      ].join('\n')
+    );
+    expect(CLValueInspector.diff(before, before)).to.be.empty;
+  });
+
+  it('should match map entries by key', () => {
+    const type = new CLTypeMap(CLTypeString, new CLTypeOption(CLTypeUInt32));
+    const before = CLValue.fromNative({ a: 1, b: 2, c: null }, type);
+    const after = CLValue.fromNative({ c: 3, a: 1, d: 4 }, type);
+
+    expect(
+      CLValueInspector.diff(before, after).map(({ kind, path }) => [kind, path])
+    ).to.deep.equal([
+      [CLValueChangeKind.Removed, 'value["b"]'],
+      [CLValueChangeKind.Changed, 'value["c"]'],
+      [CLValueChangeKind.Added, 'value["d"]']
+    ]);
+  });
+});
+
+describe('Args inspection', () => {
+  const schema = {
+    recipient: CLTypeKey,
+    amount: CLTypeUInt512,
+    memo: new CLTypeOption(CLTypeString)
+  };
+
+  it('should render arguments one per line', () => {
+    const args = Args.fromValues(
+      { recipient: `hash-${hashHex}`, amount: '2500000000' },
+      schema
+    );
+
+    expect(args.toPrettyString({ motesAsCSPR: true })).to.equal(
+      [
+        `recipient: Key hash-${hashHex}`,
+        'amount: U512 2.5 CSPR',
+        'memo: (Option: String) None'
+      ].join('\n')
+    );
+  });
+
+  it('should diff arguments', () => {
+    const before = Args.fromValues(
+      { recipient: `hash-${hashHex}`, amount: 1 },
+      schema
+    );
+    const after = Args.fromMap({
+      recipient: CLValue.newCLString('bob'),
+      amount: CLValue.newCLUInt512(1),
+      id: CLValue.newCLUint64(7)
+    });
+
+    expect(Args.diff(before, after)).to.deep.equal([
+      {
+        kind: CLValueChangeKind.Changed,
+        path: 'args.recipient',
+        before: before.getByName('recipient'),
+        after: after.getByName('recipient')
+      },
+      {
+        kind: CLValueChangeKind.Removed,
+        path: 'args.memo',
+        before: before.getByName('memo')
+      },
+      {
+        kind: CLValueChangeKind.Added,
+        path: 'args.id',
+        after: after.getByName('id')
+      }
+    ]);
+  });
+});
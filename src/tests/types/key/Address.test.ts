@@ -0,0 +1,101 @@
+import { expect } from 'chai';
+
+import {
+  AccountHash,
+  Hash,
+  isValidAddress,
+  Key,
+  PublicKey,
+  URef
+} from '../../../types';
+
+const hashHex =
+  'e70dbca48c2d31bc2d754e51860ceaa8a1a49dc627b20320b0ecee1b6d9ce655';
+const checksummedHashHex =
+  'e70DbCa48c2d31Bc2D754E51860ceAa8A1a49dC627b20320b0eCeE1B6d9Ce655';
+
+describe('Checksummed addresses', () => {
+  it('should checksum hashes like public keys', () => {
+    const publicKey = PublicKey.fromHex(
+      '012bac1d0ff9240ff0b7b06d555815640497861619ca12583ddef434885416e69b'
+    );
+
+    expect(new Hash(publicKey.bytes().slice(1)).toHex(true)).to.equal(
+      publicKey.toHex(true).slice(2)
+    );
+    expect(Hash.fromHex(hashHex).toHex(true)).to.equal(checksummedHashHex);
+    expect(Hash.fromHex(checksummedHashHex, true).toHex()).to.equal(hashHex);
+  });
+
+  it('should reject hashes with a wrong or missing checksum', () => {
+    const typo = checksummedHashHex.replace('DbCa', 'DBCa');
+
+    expect(() => Hash.fromHex(typo)).to.throw('Invalid hash checksum');
+    expect(() => Hash.fromHex(hashHex, true)).to.throw(
+      'Provided hash is not checksummed'
+    );
+    expect(() => Hash.fromHex(`${hashHex.slice(2)}zz`)).to.throw(
+      'expected a hexadecimal string'
+    );
+  });
+
+  it('should round-trip checksummed account hashes, URefs and keys', () => {
+    const accountHash = `account-hash-${checksummedHashHex}`;
+    const uref = `uref-${checksummedHashHex}-007`;
+    const key = `hash-${checksummedHashHex}`;
+
+    expect(
+      AccountHash.fromString(accountHash, true).toPrefixedString(true)
+    ).to.equal(accountHash);
+    expect(URef.fromString(uref, true).toPrefixedString(true)).to.equal(uref);
+    expect(Key.newKey(key, true).toPrefixedString(true)).to.equal(key);
+    expect(Key.newKey(uref, true).toPrefixedString()).to.equal(
+      `uref-${hashHex}-007`
+    );
+    expect(() => URef.fromString(`uref-${hashHex}-007`, true)).to.throw();
+  });
+
+  it('should round-trip checksummed entity, byte code, bid and message keys', () => {
+    [
+      `entity-account-${checksummedHashHex}`,
+      `byte-code-v1-wasm-${checksummedHashHex}`,
+      `bid-addr-01${checksummedHashHex}`,
+      `bid-addr-02${checksummedHashHex}${checksummedHashHex}`,
+      `bid-addr-03${checksummedHashHex}${checksummedHashHex}`,
+      `message-topic-entity-contract-${checksummedHashHex}-${checksummedHashHex}`
+    ].forEach(address => {
+      const key = Key.newKey(address, true);
+
+      expect(key.toPrefixedString(true), address).to.equal(address);
+      expect(key.toPrefixedString(), address).to.equal(address.toLowerCase());
+      expect(isValidAddress(address, true), address).to.be.true;
+      expect(isValidAddress(address.toLowerCase()), address).to.be.true;
+      expect(isValidAddress(address.toLowerCase(), true), address).to.be.false;
+      expect(isValidAddress(address.replace('DbCa', 'DBCa')), address).to.be
+        .false;
+    });
+  });
+
+  it('should validate addresses of every prefix', () => {
+    [
+      `account-hash-${checksummedHashHex}`,
+      `hash-${hashHex}`,
+      `uref-${checksummedHashHex}-007`,
+      `addressable-entity-${hashHex}`,
+      `entity-account-${checksummedHashHex}`,
+      `contract-package-wasm${hashHex}`,
+      `contract-package-${hashHex}`,
+      `contract-wasm-${checksummedHashHex}`,
+      `contract-${hashHex}`
+    ].forEach(address => expect(isValidAddress(address), address).to.be.true);
+
+    [
+      `account-hash-${checksummedHashHex.replace('DbCa', 'DBCa')}`,
+      `account-hash-${hashHex.slice(2)}`,
+      `uref-${hashHex}-008`,
+      `unknown-${hashHex}`
+    ].forEach(address => expect(isValidAddress(address), address).to.be.false);
+
+    expect(isValidAddress(`hash-${hashHex}`, true)).to.be.false;
+  });
+});
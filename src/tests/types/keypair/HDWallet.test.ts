@@ -0,0 +1,100 @@
+import { expect } from 'chai';
+
+import { Conversions, HDWallet, KeyAlgorithm } from '../../../types';
+
+// Test vector 1 of BIP-32 and SLIP-10
+const seed = Conversions.decodeBase16('000102030405060708090a0b0c0d0e0f');
+
+const privateKeyHex = (
+  wallet: HDWallet,
+  algorithm: KeyAlgorithm,
+  path: string
+) => Conversions.encodeBase16(wallet.derive(algorithm, path).toBytes());
+
+describe('HDWallet', () => {
+  it('should generate valid mnemonics', () => {
+    const mnemonic = HDWallet.generateMnemonic();
+
+    expect(mnemonic.split(' ')).to.have.lengthOf(24);
+    expect(HDWallet.validateMnemonic(mnemonic)).to.be.true;
+    expect(HDWallet.generateMnemonic(12).split(' ')).to.have.lengthOf(12);
+  });
+
+  it('should reject mnemonics with an invalid checksum', () => {
+    const mnemonic = Array(12)
+      .fill('abandon')
+      .join(' ');
+
+    expect(HDWallet.validateMnemonic(mnemonic)).to.be.false;
+    expect(() => HDWallet.fromMnemonic(mnemonic)).to.throw('Invalid mnemonic');
+  });
+
+  it('should compute the BIP-39 seed of a mnemonic', () => {
+    const mnemonic = `${Array(11)
+      .fill('abandon')
+      .join(' ')} about`;
+
+    expect(
+      Conversions.encodeBase16(HDWallet.mnemonicToSeed(mnemonic, 'TREZOR'))
+    ).to.equal(
+      'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04'
+    );
+  });
+
+  it('should derive secp256k1 keys with BIP-32', () => {
+    const wallet = HDWallet.fromSeed(seed);
+
+    expect(privateKeyHex(wallet, KeyAlgorithm.SECP256K1, 'm')).to.equal(
+      'e8f32e723decf4051aefac8e2c93c9c5b214313817cdb01a1494b917c8436b35'
+    );
+    expect(privateKeyHex(wallet, KeyAlgorithm.SECP256K1, "m/0'")).to.equal(
+      'edb2e14f9ee77d26dd93b4ecede8d16ed408ce149b6cd80b0715a2d911a0afea'
+    );
+  });
+
+  it('should derive ed25519 keys with SLIP-10', () => {
+    const wallet = HDWallet.fromSeed(seed);
+
+    expect(privateKeyHex(wallet, KeyAlgorithm.ED25519, 'm')).to.equal(
+      '2b4be7f19ee27bbf30c667b642d5f4aa69fd169872f8fc3059c08ebae2eb19e7'
+    );
+    expect(privateKeyHex(wallet, KeyAlgorithm.ED25519, "m/0'")).to.equal(
+      '68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3'
+    );
+    expect(privateKeyHex(wallet, KeyAlgorithm.ED25519, "m/0'/1'")).to.equal(
+      'b1d0bad404bf35da785a64ca1ac54b2617211d2777696fbffaf208f746ae84f2'
+    );
+  });
+
+  it('should reject non-hardened ed25519 derivation', () => {
+    const wallet = HDWallet.fromSeed(seed);
+
+    expect(() => wallet.derive(KeyAlgorithm.ED25519, "m/44'/0")).to.throw(
+      'ed25519 only supports hardened derivation'
+    );
+  });
+
+  it('should derive accounts along the Casper coin type path', () => {
+    const wallet = HDWallet.fromSeed(seed);
+
+    expect(HDWallet.derivationPath(KeyAlgorithm.SECP256K1, 3)).to.equal(
+      "m/44'/506'/0'/0/3"
+    );
+    expect(HDWallet.derivationPath(KeyAlgorithm.ED25519, 3)).to.equal(
+      "m/44'/506'/0'/0'/3'"
+    );
+
+    expect(
+      wallet.deriveAccount(KeyAlgorithm.SECP256K1, 3).publicKey.toHex()
+    ).to.equal(
+      wallet
+        .derive(KeyAlgorithm.SECP256K1, "m/44'/506'/0'/0/3")
+        .publicKey.toHex()
+    );
+    expect(
+      wallet.deriveAccount(KeyAlgorithm.ED25519, 0).publicKey.toHex()
+    ).to.not.equal(
+      wallet.deriveAccount(KeyAlgorithm.ED25519, 1).publicKey.toHex()
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import { expect } from 'chai';
+
+import {
+  Conversions,
+  Jwk,
+  KeyAlgorithm,
+  KeyAlgorithmMismatchError,
+  KeyFormatError,
+  KeySettings,
+  PrivateKey,
+  PublicKey
+} from '../../../types';
+
+// Generated with `openssl genpkey -algorithm ed25519` and `openssl ecparam -name secp256k1 -genkey`
+const vectors = {
+  [KeyAlgorithm.ED25519]: {
+    seed: '27892a4b96740f9a1c28fa0127fa69a8a420486aac5df378b97494a9c5b7c025',
+    pkcs8:
+      '302e020100300506032b65700422042027892a4b96740f9a1c28fa0127fa69a8a420486aac5df378b97494a9c5b7c025',
+    spki:
+      '302a300506032b657003210043e46e46b59d9e3961699aff1e2198f103fb8c4bf1b2875b98aac67551d9b18b',
+    publicKey:
+      '0143e46e46b59d9e3961699aff1e2198f103fb8c4bf1b2875b98aac67551d9b18b',
+    jwk: {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: 'Q-RuRrWdnjlhaZr_HiGY8QP7jEvxsodbmKrGdVHZsYs',
+      d: 'J4kqS5Z0D5ocKPoBJ_ppqKQgSGqsXfN4uXSUqcW3wCU'
+    } as Jwk
+  },
+  [KeyAlgorithm.SECP256K1]: {
+    seed: '4c2c2aca87a607021e870d6ff068423b15ded6364566c2ab104df06aced02b7d',
+    pkcs8:
+      '308184020100301006072a8648ce3d020106052b8104000a046d306b02010104204c2c2aca87a607021e870d6ff068423b15ded6364566c2ab104df06aced02b7da14403420004a0383e84027be8f130f5d6d23ff4fe3235ba7f0be561f75a42062a0d06c0fc50ed9a78067beae19f5c6530941fe937bc1daaf4e08de09b9a48c12f3f15af3ef5',
+    spki:
+      '3056301006072a8648ce3d020106052b8104000a03420004a0383e84027be8f130f5d6d23ff4fe3235ba7f0be561f75a42062a0d06c0fc50ed9a78067beae19f5c6530941fe937bc1daaf4e08de09b9a48c12f3f15af3ef5',
+    publicKey:
+      '0203a0383e84027be8f130f5d6d23ff4fe3235ba7f0be561f75a42062a0d06c0fc50',
+    jwk: {
+      kty: 'EC',
+      crv: 'secp256k1',
+      x: 'oDg-hAJ76PEw9dbSP_T-MjW6fwvlYfdaQgYqDQbA_FA',
+      y: '7Zp4Bnvq4Z9cZTCUH-k3vB2q9OCN4JuaSMEvPxWvPvU',
+      d: 'TCwqyoemBwIehw1v8GhCOxXe1jZFZsKrEE3was7QK30'
+    } as Jwk
+  }
+};
+
+// `openssl ec -outform DER`, the SEC 1 layout of the secp256k1 vector
+const sec1 =
+  '307402010104204c2c2aca87a607021e870d6ff068423b15ded6364566c2ab104df06aced02b7da00706052b8104000aa14403420004a0383e84027be8f130f5d6d23ff4fe3235ba7f0be561f75a42062a0d06c0fc50ed9a78067beae19f5c6530941fe937bc1daaf4e08de09b9a48c12f3f15af3ef5';
+
+const toPem = (label: string, der: string) =>
+  `-----BEGIN ${label}-----\n${Conversions.encodeBase64(
+    Conversions.decodeBase16(der)
+  )}\n-----END ${label}-----\n`;
+
+describe('Key formats', () => {
+  [KeyAlgorithm.ED25519, KeyAlgorithm.SECP256K1].forEach(algorithm => {
+    const vector = vectors[algorithm];
+    const name = KeySettings[algorithm].name;
+    const privateKey = PrivateKey.fromHex(vector.seed, algorithm);
+
+    it(`should round-trip ${name} keys through OpenSSL DER`, () => {
+      expect(Conversions.encodeBase16(privateKey.toDer())).to.equal(
+        vector.pkcs8
+      );
+      expect(Conversions.encodeBase16(privateKey.publicKey.toDer())).to.equal(
+        vector.spki
+      );
+      expect(
+        PrivateKey.fromDer(
+          Conversions.decodeBase16(vector.pkcs8),
+          algorithm
+        ).publicKey.toHex()
+      ).to.equal(vector.publicKey);
+      expect(
+        PublicKey.fromDer(
+          Conversions.decodeBase16(vector.spki),
+          algorithm
+        ).toHex()
+      ).to.equal(vector.publicKey);
+    });
+
+    it(`should round-trip ${name} keys through JWK`, () => {
+      expect(privateKey.toJwk()).to.deep.equal(vector.jwk);
+      expect(
+        PrivateKey.fromJwk(JSON.stringify(vector.jwk), algorithm).toBytes()
+      ).to.deep.equal(privateKey.toBytes());
+
+      const { d, ...publicJwk } = vector.jwk;
+      expect(d).to.be.a('string');
+      expect(privateKey.publicKey.toJwk()).to.deep.equal(publicJwk);
+      expect(PublicKey.fromJwk(publicJwk, algorithm).toHex()).to.equal(
+        vector.publicKey
+      );
+      expect(() => PrivateKey.fromJwk(publicJwk, algorithm)).to.throw(
+        'does not hold a private key'
+      );
+    });
+
+    it(`should import ${name} PKCS#8 PEM, raw seeds and 0x-prefixed hex`, () => {
+      expect(
+        PrivateKey.fromPem(
+          toPem('PRIVATE KEY', vector.pkcs8),
+          algorithm
+        ).publicKey.toHex()
+      ).to.equal(vector.publicKey);
+      expect(
+        PrivateKey.fromBytes(
+          Conversions.decodeBase16(vector.seed),
+          algorithm
+        ).publicKey.toHex()
+      ).to.equal(vector.publicKey);
+      expect(
+        PrivateKey.fromHex(`0x${vector.seed}`, algorithm).publicKey.toHex()
+      ).to.equal(vector.publicKey);
+    });
+  });
+
+  it('should import SEC 1 secp256k1 keys written by openssl ecparam', () => {
+    const pem =
+      toPem('EC PARAMETERS', '06052b8104000a') + toPem('EC PRIVATE KEY', sec1);
+
+    expect(
+      PrivateKey.fromPem(pem, KeyAlgorithm.SECP256K1).publicKey.toHex()
+    ).to.equal(vectors[KeyAlgorithm.SECP256K1].publicKey);
+    expect(
+      PrivateKey.fromDer(
+        Conversions.decodeBase16(sec1),
+        KeyAlgorithm.SECP256K1
+      ).toBytes()
+    ).to.deep.equal(
+      Conversions.decodeBase16(vectors[KeyAlgorithm.SECP256K1].seed)
+    );
+  });
+
+  it('should reject keys of another algorithm than the requested one', () => {
+    const ed25519 = vectors[KeyAlgorithm.ED25519];
+    const secp256k1 = vectors[KeyAlgorithm.SECP256K1];
+    const mismatches = [
+      () =>
+        PrivateKey.fromDer(
+          Conversions.decodeBase16(ed25519.pkcs8),
+          KeyAlgorithm.SECP256K1
+        ),
+      () =>
+        PublicKey.fromDer(
+          Conversions.decodeBase16(secp256k1.spki),
+          KeyAlgorithm.ED25519
+        ),
+      () => PrivateKey.fromJwk(secp256k1.jwk, KeyAlgorithm.ED25519),
+      () =>
+        PrivateKey.fromPem(
+          toPem('PRIVATE KEY', ed25519.pkcs8),
+          KeyAlgorithm.SECP256K1
+        ),
+      () =>
+        PublicKey.fromPem(
+          toPem('PUBLIC KEY', ed25519.spki),
+          KeyAlgorithm.SECP256K1
+        )
+    ];
+
+    for (const mismatch of mismatches) {
+      try {
+        mismatch();
+        expect.fail('Expected the algorithm mismatch to be rejected');
+      } catch (err) {
+        expect(err).to.be.instanceOf(KeyAlgorithmMismatchError);
+        expect(err).to.be.instanceOf(KeyFormatError);
+        expect(err.message).to.match(/expected a \w+ key, got a \w+ key/);
+      }
+    }
+  });
+
+  it('should reject malformed keys', () => {
+    const vector = vectors[KeyAlgorithm.SECP256K1];
+
+    expect(() =>
+      PrivateKey.fromDer(
+        Conversions.decodeBase16(vector.pkcs8.slice(0, 40)),
+        KeyAlgorithm.SECP256K1
+      )
+    ).to.throw(KeyFormatError, 'truncated DER structure');
+    expect(() =>
+      PrivateKey.fromJwk(
+        { ...vector.jwk, x: vectors[KeyAlgorithm.ED25519].jwk.x },
+        KeyAlgorithm.SECP256K1
+      )
+    ).to.throw(KeyFormatError);
+    expect(() =>
+      PrivateKey.fromJwk(
+        JSON.stringify(vector.jwk).slice(0, -1),
+        KeyAlgorithm.SECP256K1
+      )
+    ).to.throw(KeyFormatError, 'malformed JSON');
+  });
+});
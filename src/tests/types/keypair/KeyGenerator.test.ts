@@ -0,0 +1,111 @@
+import { expect } from 'chai';
+
+import {
+  generateKeys,
+  generateKeysInWorkers,
+  KeyAlgorithm,
+  PublicKey
+} from '../../../types';
+
+describe('Key generation', () => {
+  it('should generate keys with their identifiers', () => {
+    const keys = generateKeys({ count: 3, algorithm: KeyAlgorithm.SECP256K1 });
+
+    expect(keys).to.have.lengthOf(3);
+    for (const key of keys) {
+      const publicKey = key.privateKey.publicKey;
+
+      expect(key.publicKeyHex).to.equal(publicKey.toHex());
+      expect(
+        PublicKey.fromHex(key.checksummedPublicKeyHex, true)
+      ).to.deep.equal(publicKey);
+      expect(key.accountHash).to.equal(
+        publicKey.accountHash().toPrefixedString()
+      );
+    }
+  });
+
+  it('should only keep keys matching the vanity prefix', () => {
+    const publicKeys = generateKeys({
+      count: 2,
+      vanityPrefix: 'A',
+      maxAttempts: 10_000
+    });
+    const accountHashes = generateKeys({
+      count: 2,
+      vanityPrefix: 'b',
+      vanityTarget: 'accountHash',
+      maxAttempts: 10_000
+    });
+
+    expect(publicKeys).to.have.lengthOf(2);
+    publicKeys.forEach(key => expect(key.publicKeyHex).to.match(/^01a/));
+    expect(accountHashes).to.have.lengthOf(2);
+    accountHashes.forEach(key =>
+      expect(key.accountHash).to.match(/^account-hash-b/)
+    );
+  });
+
+  it('should stop looking for vanity keys after the maximum attempts', () => {
+    expect(
+      generateKeys({ count: 1, vanityPrefix: 'ffffffff', maxAttempts: 20 })
+    ).to.be.empty;
+    expect(() => generateKeys({ count: 1, vanityPrefix: 'xyz' })).to.throw(
+      'Invalid vanity prefix'
+    );
+  });
+
+  describe('in a worker pool', () => {
+    // The workers load the TypeScript sources of the key generation
+    const execArgv = ['--require', 'ts-node/register/transpile-only'];
+
+    before(function() {
+      if (typeof window !== 'undefined') {
+        this.skip();
+      }
+    });
+
+    it('should split the keys between the workers', async () => {
+      const keys = await generateKeysInWorkers({
+        count: 3,
+        workers: 2,
+        algorithm: KeyAlgorithm.ED25519,
+        execArgv
+      });
+
+      expect(keys).to.have.lengthOf(3);
+      for (const key of keys) {
+        expect(key.privateKey.publicKey.toHex()).to.equal(key.publicKeyHex);
+      }
+    }).timeout(60_000);
+
+    it('should stop every worker once enough vanity keys are found', async () => {
+      // Resolves after a few hundred attempts instead of running all of them
+      const keys = await generateKeysInWorkers({
+        count: 1,
+        workers: 2,
+        vanityPrefix: 'ab',
+        maxAttempts: 100_000_000,
+        execArgv
+      });
+
+      expect(keys).to.have.lengthOf(1);
+      expect(keys[0].publicKeyHex).to.match(/^01ab/);
+      expect(keys[0].privateKey.publicKey.toHex()).to.equal(
+        keys[0].publicKeyHex
+      );
+    }).timeout(60_000);
+
+    it('should return the vanity keys found once the attempts are exhausted', async () => {
+      const keys = await generateKeysInWorkers({
+        count: 1,
+        workers: 2,
+        vanityPrefix: 'ffffffff',
+        maxAttempts: 20,
+        execArgv
+      });
+
+      expect(keys).to.be.empty;
+    }).timeout(60_000);
+  });
+});
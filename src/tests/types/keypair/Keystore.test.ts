@@ -0,0 +1,202 @@
+import { expect } from 'chai';
+
+import {
+  Conversions,
+  InvalidKeystoreError,
+  KeyAlgorithm,
+  KeySettings,
+  KeystoreDecryptionError,
+  PrivateKey
+} from '../../../types';
+
+// Low costs keep the tests fast, real keystores should use the defaults
+const options = { scryptN: 1024 };
+
+const expectRejection = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (err) {
+    return err;
+  }
+  throw new Error('Expected the promise to be rejected');
+};
+
+describe('Keystore', () => {
+  [KeyAlgorithm.ED25519, KeyAlgorithm.SECP256K1].forEach(algorithm => {
+    it(`should encrypt and decrypt ${KeySettings[algorithm].name} keys`, async () => {
+      const privateKey = PrivateKey.generate(algorithm);
+      const json = await privateKey.toEncryptedJson('password', options);
+
+      expect(json).to.not.contain(
+        Conversions.encodeBase16(privateKey.toBytes())
+      );
+
+      const decrypted = await PrivateKey.fromEncryptedJson(json, 'password');
+
+      expect(decrypted.toBytes()).to.deep.equal(privateKey.toBytes());
+      expect(decrypted.publicKey.toHex()).to.equal(
+        privateKey.publicKey.toHex()
+      );
+    });
+  });
+
+  it('should write a versioned keystore', async () => {
+    const privateKey = PrivateKey.generate(KeyAlgorithm.SECP256K1);
+    const keystore = JSON.parse(
+      await privateKey.toEncryptedJson('password', options)
+    );
+
+    expect(keystore.version).to.equal(1);
+    expect(keystore.algorithm).to.equal('SECP256K1');
+    expect(keystore.publicKey).to.equal(privateKey.publicKey.toHex());
+    expect(keystore.crypto.cipher).to.equal('aes-256-gcm');
+    expect(keystore.crypto.kdf).to.equal('scrypt');
+    expect(keystore.crypto.kdfparams.n).to.equal(1024);
+  });
+
+  it('should support PBKDF2', async () => {
+    const privateKey = PrivateKey.generate(KeyAlgorithm.ED25519);
+    const json = await privateKey.toEncryptedJson('password', {
+      kdf: 'pbkdf2',
+      pbkdf2Iterations: 1000
+    });
+
+    expect(JSON.parse(json).crypto.kdf).to.equal('pbkdf2');
+
+    const decrypted = await PrivateKey.fromEncryptedJson(json, 'password');
+    expect(decrypted.toBytes()).to.deep.equal(privateKey.toBytes());
+  });
+
+  it('should reject a wrong password', async () => {
+    const json = await PrivateKey.generate(
+      KeyAlgorithm.ED25519
+    ).toEncryptedJson('password', options);
+
+    const err = await expectRejection(
+      PrivateKey.fromEncryptedJson(json, 'wrong password')
+    );
+    expect(err).to.be.instanceOf(KeystoreDecryptionError);
+  });
+
+  it('should reject a tampered ciphertext', async () => {
+    const keystore = JSON.parse(
+      await PrivateKey.generate(KeyAlgorithm.SECP256K1).toEncryptedJson(
+        'password',
+        options
+      )
+    );
+    const { ciphertext } = keystore.crypto;
+    keystore.crypto.ciphertext =
+      (ciphertext[0] === '0' ? '1' : '0') + ciphertext.slice(1);
+
+    const err = await expectRejection(
+      PrivateKey.fromEncryptedJson(keystore, 'password')
+    );
+    expect(err).to.be.instanceOf(KeystoreDecryptionError);
+  });
+
+  it('should reject a tampered public key', async () => {
+    const keystore = JSON.parse(
+      await PrivateKey.generate(KeyAlgorithm.ED25519).toEncryptedJson(
+        'password',
+        options
+      )
+    );
+    keystore.publicKey = PrivateKey.generate(
+      KeyAlgorithm.ED25519
+    ).publicKey.toHex();
+
+    const err = await expectRejection(
+      PrivateKey.fromEncryptedJson(keystore, 'password')
+    );
+    expect(err).to.be.instanceOf(KeystoreDecryptionError);
+  });
+
+  it('should reject unsupported versions', async () => {
+    const keystore = JSON.parse(
+      await PrivateKey.generate(KeyAlgorithm.ED25519).toEncryptedJson(
+        'password',
+        options
+      )
+    );
+    keystore.version = 2;
+
+    const err = await expectRejection(
+      PrivateKey.fromEncryptedJson(keystore, 'password')
+    );
+    expect(err).to.be.instanceOf(InvalidKeystoreError);
+    expect(err.message).to.contain('unsupported version 2');
+  });
+
+  [
+    { kdfparams: { n: 1 << 22 }, message: 'unsupported scrypt parameters' },
+    { kdfparams: { n: 1000 }, message: 'unsupported scrypt parameters' },
+    { kdfparams: { r: 1024 }, message: 'unsupported scrypt parameters' },
+    { kdfparams: { p: 1 << 16 }, message: 'unsupported scrypt parameters' },
+    { kdfparams: { dklen: 1 << 30 }, message: 'unsupported derived key length' }
+  ].forEach(({ kdfparams, message }) => {
+    it(`should reject costly key derivations: ${JSON.stringify(
+      kdfparams
+    )}`, async () => {
+      const keystore = JSON.parse(
+        await PrivateKey.generate(KeyAlgorithm.ED25519).toEncryptedJson(
+          'password',
+          options
+        )
+      );
+      Object.assign(keystore.crypto.kdfparams, kdfparams);
+
+      const err = await expectRejection(
+        PrivateKey.fromEncryptedJson(keystore, 'password')
+      );
+      expect(err).to.be.instanceOf(InvalidKeystoreError);
+      expect(err.message).to.contain(message);
+    });
+  });
+
+  it('should reject costly PBKDF2 iterations', async () => {
+    const keystore = JSON.parse(
+      await PrivateKey.generate(
+        KeyAlgorithm.ED25519
+      ).toEncryptedJson('password', { kdf: 'pbkdf2', pbkdf2Iterations: 1000 })
+    );
+    keystore.crypto.kdfparams.c = 1e12;
+
+    const err = await expectRejection(
+      PrivateKey.fromEncryptedJson(keystore, 'password')
+    );
+    expect(err).to.be.instanceOf(InvalidKeystoreError);
+    expect(err.message).to.contain('unsupported PBKDF2 iterations');
+  });
+
+  [
+    {
+      field: 'salt',
+      tamper: (keystore: any) => (keystore.crypto.kdfparams.salt = 'not hex')
+    },
+    {
+      field: 'IV',
+      tamper: (keystore: any) => (keystore.crypto.cipherparams.iv = 'abc')
+    },
+    {
+      field: 'ciphertext',
+      tamper: (keystore: any) => delete keystore.crypto.ciphertext
+    }
+  ].forEach(({ field, tamper }) => {
+    it(`should reject a malformed ${field}`, async () => {
+      const keystore = JSON.parse(
+        await PrivateKey.generate(KeyAlgorithm.ED25519).toEncryptedJson(
+          'password',
+          options
+        )
+      );
+      tamper(keystore);
+
+      const err = await expectRejection(
+        PrivateKey.fromEncryptedJson(keystore, 'password')
+      );
+      expect(err).to.be.instanceOf(InvalidKeystoreError);
+      expect(err.message).to.contain('malformed ciphertext, IV or salt');
+    });
+  });
+});
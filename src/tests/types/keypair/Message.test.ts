@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+
+import {
+  Conversions,
+  KeyAlgorithm,
+  KeySettings,
+  PrivateKey,
+  formatCasperMessage,
+  signMessage,
+  verifyMessage
+} from '../../../types';
+
+describe('Message signing', () => {
+  const message = 'Sign in to example.com\nNonce: 2b6f8c1e';
+
+  [KeyAlgorithm.ED25519, KeyAlgorithm.SECP256K1].forEach(algorithm => {
+    describe(KeySettings[algorithm].name, () => {
+      const privateKey = PrivateKey.generate(algorithm);
+
+      it('should sign the prefixed message with the algorithm byte', () => {
+        const signature = signMessage(privateKey, message);
+
+        expect(signature).to.have.lengthOf(65);
+        expect(signature[0]).to.equal(algorithm);
+        expect(
+          privateKey.publicKey.verifySignature(
+            formatCasperMessage(message),
+            signature
+          )
+        ).to.be.true;
+      });
+
+      it('should verify tagged, raw and hex signatures', () => {
+        const signature = signMessage(privateKey, message);
+
+        expect(verifyMessage(privateKey.publicKey, message, signature)).to.be
+          .true;
+        expect(
+          verifyMessage(privateKey.publicKey, message, signature.subarray(1))
+        ).to.be.true;
+        expect(
+          verifyMessage(
+            privateKey.publicKey,
+            message,
+            Conversions.encodeBase16(signature)
+          )
+        ).to.be.true;
+      });
+
+      it('should reject a tampered message or another key', () => {
+        const signature = signMessage(privateKey, message);
+
+        expect(verifyMessage(privateKey.publicKey, `${message}!`, signature)).to
+          .be.false;
+        expect(
+          verifyMessage(
+            PrivateKey.generate(algorithm).publicKey,
+            message,
+            signature
+          )
+        ).to.be.false;
+      });
+    });
+  });
+
+  it('should reject signatures tagged with another algorithm', () => {
+    const privateKey = PrivateKey.generate(KeyAlgorithm.ED25519);
+    const signature = signMessage(privateKey, message);
+    signature[0] = KeyAlgorithm.SECP256K1;
+
+    expect(verifyMessage(privateKey.publicKey, message, signature)).to.be.false;
+  });
+
+  it('should not verify the message without the prefix', () => {
+    const privateKey = PrivateKey.generate(KeyAlgorithm.ED25519);
+    const signature = privateKey.signAndAddAlgorithmBytes(
+      new TextEncoder().encode(message)
+    );
+
+    expect(verifyMessage(privateKey.publicKey, message, signature)).to.be.false;
+  });
+});
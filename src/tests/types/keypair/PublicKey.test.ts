@@ -1,6 +1,13 @@
 import { expect } from 'chai';
+import { sha256 } from '@noble/hashes/sha256';
 
-import { KeyAlgorithm, PrivateKey, PublicKey } from '../../../types';
+import {
+  Conversions,
+  KeyAlgorithm,
+  PrivateKey,
+  PublicKey
+} from '../../../types';
+import { PrivateKey as Secp256k1PrivateKey } from '../../../types/keypair/secp256k1/PrivateKey';
 
 describe('PublicKey', () => {
   it('should work PublicKey fromHex and toHex', () => {
@@ -30,4 +37,74 @@ describe('PublicKey', () => {
     const publicKey = PublicKey.fromHex(hash.toLowerCase(), true);
     expect(hash).to.deep.equal(publicKey.toHex(true));
   });
+
+  describe('secp256k1 recovery and conversion', () => {
+    // The private key 1, whose public key is the generator point
+    const privateKeyHex =
+      '0000000000000000000000000000000000000000000000000000000000000001';
+    const compressedHex =
+      '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+    const uncompressedHex =
+      '0479be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798' +
+      '483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8';
+    const message = Uint8Array.from([67, 97, 115, 112, 101, 114]); // "Casper"
+    const recoverableSignatureHex =
+      'fced9d31f0925c7eaddc2e1da13498849639cbb218bc7b7bde97c1bcda2402ed' +
+      '21ef31e923bb4f06b2dda64cfa233d49cd7a86f4ab86af5fd53a33ec10217955' +
+      '01';
+
+    it('should sign with the recovery id appended', () => {
+      const signature = Secp256k1PrivateKey.fromHex(privateKeyHex).sign(
+        message,
+        true
+      );
+
+      expect(Conversions.encodeBase16(signature)).to.equal(
+        recoverableSignatureHex
+      );
+      expect(signature.subarray(0, 64)).to.deep.equal(
+        Secp256k1PrivateKey.fromHex(privateKeyHex).sign(message)
+      );
+    });
+
+    it('should recover the public key from a signature and message hash', () => {
+      const signature = Conversions.decodeBase16(recoverableSignatureHex);
+      const expected = `02${compressedHex}`;
+
+      expect(
+        PublicKey.recoverPublicKey(sha256(message), signature).toHex()
+      ).to.equal(expected);
+      expect(
+        PublicKey.recoverPublicKey(
+          sha256(message),
+          signature.subarray(0, 64),
+          signature[64]
+        ).toHex()
+      ).to.equal(expected);
+      expect(() =>
+        PublicKey.recoverPublicKey(sha256(message), signature.subarray(0, 64))
+      ).to.throw('Invalid recovery id');
+    });
+
+    it('should convert between compressed and uncompressed forms', () => {
+      const publicKey = PublicKey.fromSecp256k1Bytes(
+        Conversions.decodeBase16(uncompressedHex)
+      );
+
+      expect(publicKey.toHex()).to.equal(`02${compressedHex}`);
+      expect(
+        Conversions.encodeBase16(publicKey.toUncompressedBytes())
+      ).to.equal(uncompressedHex);
+      expect(
+        PublicKey.fromSecp256k1Bytes(
+          Conversions.decodeBase16(compressedHex)
+        ).equals(publicKey)
+      ).to.be.true;
+      expect(() =>
+        PrivateKey.generate(
+          KeyAlgorithm.ED25519
+        ).publicKey.toUncompressedBytes()
+      ).to.throw('invalid public key algorithm');
+    });
+  });
 });
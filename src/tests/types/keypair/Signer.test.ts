@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+
+import {
+  Deploy,
+  DeployHeader,
+  ErrInvalidApprovalSignature,
+  ExecutableDeployItem,
+  KeyAlgorithm,
+  NativeTransferBuilder,
+  PrivateKey,
+  PrivateKeySigner,
+  PublicKey,
+  Signer,
+  TransferDeployItem
+} from '../../../types';
+
+/**
+ * A signer returning raw signatures without the algorithm byte, as browser wallets do.
+ */
+class MockSigner implements Signer {
+  public signedHashes: Uint8Array[] = [];
+
+  constructor(private privateKey: PrivateKey) {}
+
+  async getPublicKey(): Promise<PublicKey> {
+    return this.privateKey.publicKey;
+  }
+
+  async signHash(hash: Uint8Array): Promise<Uint8Array> {
+    this.signedHashes.push(hash);
+    return this.privateKey.sign(hash);
+  }
+}
+
+const newDeploy = (account: PublicKey) => {
+  const header = DeployHeader.default();
+  header.account = account;
+  header.chainName = 'casper-net-1';
+
+  const session = new ExecutableDeployItem();
+  session.transfer = TransferDeployItem.newTransfer(
+    '25000000000',
+    PrivateKey.generate(KeyAlgorithm.ED25519).publicKey,
+    undefined,
+    1
+  );
+
+  return Deploy.makeDeploy(
+    header,
+    ExecutableDeployItem.standardPayment('100000000'),
+    session
+  );
+};
+
+describe('Signer', () => {
+  it('should sign deploys with a signer returning raw signatures', async () => {
+    const privateKey = PrivateKey.generate(KeyAlgorithm.SECP256K1);
+    const signer = new MockSigner(privateKey);
+    const deploy = newDeploy(privateKey.publicKey);
+
+    await deploy.signWith(signer);
+
+    expect(signer.signedHashes[0]).to.deep.equal(deploy.hash.toBytes());
+    expect(deploy.approvals[0].signer).to.deep.equal(privateKey.publicKey);
+    expect(deploy.approvals[0].signature.bytes[0]).to.equal(
+      KeyAlgorithm.SECP256K1
+    );
+    expect(deploy.validate()).to.be.true;
+  });
+
+  it('should build and sign transactions with several signers', async () => {
+    const sender = PrivateKey.generate(KeyAlgorithm.ED25519);
+    const cosigner = PrivateKey.generate(KeyAlgorithm.SECP256K1);
+
+    const transaction = await new NativeTransferBuilder()
+      .from(sender.publicKey)
+      .target(cosigner.publicKey)
+      .amount('25000000000')
+      .id(1)
+      .chainName('casper-net-1')
+      .payment(100_000_000)
+      .buildAndSign(new PrivateKeySigner(sender), new MockSigner(cosigner));
+
+    expect(transaction.approvals.map(it => it.signer)).to.deep.equal([
+      sender.publicKey,
+      cosigner.publicKey
+    ]);
+    expect(transaction.validate()).to.be.true;
+  });
+
+  it('should reject signatures not matching the public key of the signer', async () => {
+    const privateKey = PrivateKey.generate(KeyAlgorithm.ED25519);
+    const signer: Signer = {
+      getPublicKey: async () => privateKey.publicKey,
+      signHash: async hash =>
+        PrivateKey.generate(KeyAlgorithm.ED25519).signAndAddAlgorithmBytes(hash)
+    };
+    const deploy = newDeploy(privateKey.publicKey);
+
+    try {
+      await deploy.signWith(signer);
+      expect.fail('Expected the signature to be rejected');
+    } catch (err) {
+      expect(err).to.equal(ErrInvalidApprovalSignature);
+    }
+    expect(deploy.approvals).to.be.empty;
+  });
+});
@@ -0,0 +1,138 @@
+import { parseIdentifier, ParsedIdentifier } from './Identifier';
+
+/**
+ * A labelled identifier of an `AddressBook`.
+ */
+export interface AddressBookEntry {
+  label: string;
+  identifier: ParsedIdentifier;
+}
+
+/**
+ * Returns what an identifier designates, so a public key and its account hash match the same entry.
+ */
+const identityOf = ({ kind, accountHash, key, hash }: ParsedIdentifier) =>
+  accountHash?.toPrefixedString() ??
+  key?.toPrefixedString() ??
+  `${kind}-${hash?.toHex()}`;
+
+/**
+ * Keeps labelled identifiers, such as the public keys and contract hashes of an application,
+ * parsed with `parseIdentifier` so any supported identifier can be added and looked up.
+ *
+ * @example
+ * ```ts
+ * const book = AddressBook.fromJSON(JSON.parse(saved));
+ * book.add('treasury', 'account-hash-...');
+ *
+ * const recipient = book.resolve(input); // a label or any identifier
+ * const label = book.findLabel(deploy.header.account.toHex());
+ * ```
+ */
+export class AddressBook {
+  private entries: AddressBookEntry[] = [];
+
+  /**
+   * Creates an empty address book.
+   * @param checksummed - (Optional) Whether added hashes and public keys must be checksummed. Defaults to `false`.
+   */
+  constructor(private checksummed = false) {}
+
+  /**
+   * Adds a labelled identifier.
+   * @param label - The unique label of the identifier.
+   * @param identifier - Any identifier supported by `parseIdentifier`.
+   * @returns The parsed identifier.
+   * @throws {IdentifierParseError} If the identifier is invalid.
+   * @throws Error if the label is already used.
+   */
+  add(label: string, identifier: string): ParsedIdentifier {
+    if (this.get(label)) {
+      throw new Error(`Address book label already used: ${label}`);
+    }
+
+    const parsed = parseIdentifier(identifier, this.checksummed);
+    this.entries.push({ label, identifier: parsed });
+    return parsed;
+  }
+
+  /**
+   * Removes a labelled identifier.
+   * @param label - The label of the identifier.
+   * @returns `true` if the label was found.
+   */
+  remove(label: string): boolean {
+    const count = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.label !== label);
+    return this.entries.length !== count;
+  }
+
+  /**
+   * Gets a labelled identifier.
+   * @param label - The label of the identifier.
+   * @returns The parsed identifier, or `undefined` if the label is unknown.
+   */
+  get(label: string): ParsedIdentifier | undefined {
+    return this.entries.find(entry => entry.label === label)?.identifier;
+  }
+
+  /**
+   * Resolves user input which is either a label of the address book or an identifier.
+   * @param labelOrIdentifier - A label or any identifier supported by `parseIdentifier`.
+   * @returns The parsed identifier.
+   * @throws {IdentifierParseError} If the input is neither a label nor a valid identifier.
+   */
+  resolve(labelOrIdentifier: string): ParsedIdentifier {
+    return (
+      this.get(labelOrIdentifier) ??
+      parseIdentifier(labelOrIdentifier, this.checksummed)
+    );
+  }
+
+  /**
+   * Finds the label of an identifier, matching public keys with their account hash.
+   * @param identifier - Any identifier supported by `parseIdentifier`.
+   * @returns The label, or `undefined` if the identifier isn't in the address book.
+   * @throws {IdentifierParseError} If the identifier is invalid.
+   */
+  findLabel(identifier: string): string | undefined {
+    const identity = identityOf(parseIdentifier(identifier, this.checksummed));
+    return this.entries.find(entry => identityOf(entry.identifier) === identity)
+      ?.label;
+  }
+
+  /**
+   * Lists the labelled identifiers, in the order they were added.
+   * @returns The entries of the address book.
+   */
+  list(): AddressBookEntry[] {
+    return this.entries.slice();
+  }
+
+  /**
+   * Serializes the address book to a JSON object mapping the labels to the identifiers as they were added.
+   * @returns The JSON representation of the address book.
+   */
+  toJSON(): Record<string, string> {
+    return this.entries.reduce<Record<string, string>>((json, entry) => {
+      json[entry.label] = entry.identifier.source;
+      return json;
+    }, {});
+  }
+
+  /**
+   * Creates an address book from its JSON representation.
+   * @param json - A JSON object mapping labels to identifiers.
+   * @param checksummed - (Optional) Whether the hashes and public keys must be checksummed. Defaults to `false`.
+   * @returns A new `AddressBook` instance.
+   * @throws {IdentifierParseError} If an identifier is invalid.
+   */
+  static fromJSON(
+    json: Record<string, string>,
+    checksummed = false
+  ): AddressBook {
+    const book = new AddressBook(checksummed);
+    Object.keys(json).forEach(label => book.add(label, json[label]));
+    return book;
+  }
+}
@@ -0,0 +1,216 @@
+import { Account, AssociatedKey } from './Account';
+import { Deploy } from './Deploy';
+import { Hash } from './key';
+import { Signer } from './keypair';
+import {
+  Approval,
+  ErrInvalidApprovalSignature,
+  Transaction,
+  TransactionError,
+  TransactionV1
+} from './Transaction';
+
+/**
+ * The weight the approvals of a transaction carry for an account, compared to one of its thresholds.
+ */
+export interface ApprovalThresholdStatus {
+  /**
+   * The total weight of the associated keys which approved the transaction.
+   */
+  weight: number;
+  /**
+   * The threshold the weight is compared to, the deployment threshold by default.
+   */
+  threshold: number;
+  /**
+   * Whether the weight reaches the threshold.
+   */
+  satisfied: boolean;
+  /**
+   * The associated keys which did not approve the transaction yet.
+   */
+  missingKeys: AssociatedKey[];
+}
+
+/**
+ * Collects the approvals of a transaction from the associated keys of a multi-signature account.
+ *
+ * Each party signs the same unsigned transaction, exchanged in its portable JSON form, and the
+ * partially signed transactions are merged: every approval is verified against the transaction hash
+ * and approvals are deduplicated by signer. The account tells whether the collected approvals carry
+ * enough weight to reach its deployment threshold.
+ *
+ * @example
+ * ```ts
+ * const collector = ApprovalCollector.fromTransaction(transaction);
+ * const json = collector.toJSON(); // sent to every signer
+ *
+ * // On each signer's side
+ * const partial = ApprovalCollector.fromJSON(json);
+ * await partial.sign(signer);
+ * // Returned to the coordinator
+ * collector.merge(ApprovalCollector.fromJSON(partial.toJSON()));
+ *
+ * if (collector.getThresholdStatus(account).satisfied) {
+ *   await rpcClient.putTransaction(collector.getTransaction());
+ * }
+ * ```
+ */
+export class ApprovalCollector {
+  private constructor(private transaction: Transaction) {}
+
+  /**
+   * Creates a collector for a transaction, keeping its existing approvals.
+   * @param transaction - The transaction to collect approvals for.
+   * @returns A new `ApprovalCollector` instance.
+   */
+  static fromTransaction(
+    transaction: Transaction | Deploy | TransactionV1
+  ): ApprovalCollector {
+    if (transaction instanceof Deploy) {
+      return new ApprovalCollector(Transaction.fromDeploy(transaction));
+    }
+
+    if (transaction instanceof TransactionV1) {
+      return new ApprovalCollector(Transaction.fromTransactionV1(transaction));
+    }
+
+    return new ApprovalCollector(transaction);
+  }
+
+  /**
+   * Creates a collector from the portable form produced by `toJSON`.
+   * @param json - The JSON of a `Deploy` or `TransactionV1`, including its approvals.
+   * @returns A new `ApprovalCollector` instance.
+   * @throws {TransactionError} If any approval signature is invalid.
+   */
+  static fromJSON(json: any): ApprovalCollector {
+    const collector = new ApprovalCollector(Transaction.fromJSON(json));
+    collector.getApprovalList().forEach(approval => collector.verify(approval));
+
+    return collector;
+  }
+
+  /**
+   * The hash of the transaction, the message every party signs.
+   */
+  public get hash(): Hash {
+    return this.transaction.hash;
+  }
+
+  /**
+   * The approvals collected so far.
+   */
+  public get approvals(): Approval[] {
+    return [...this.getApprovalList()];
+  }
+
+  /**
+   * Returns the transaction with the approvals collected so far.
+   */
+  public getTransaction(): Transaction {
+    return this.transaction;
+  }
+
+  /**
+   * Signs the transaction with the given signer, unless it already approved it.
+   * @param signer - The signer approving the transaction.
+   * @throws {TransactionError} If the signature returned by the signer is invalid.
+   */
+  public async sign(signer: Signer): Promise<void> {
+    this.addApprovals([await Approval.fromSigner(signer, this.hash)]);
+  }
+
+  /**
+   * Adds approvals collected from other parties, skipping signers which already approved the transaction.
+   * @param approvals - The approvals to add.
+   * @throws {TransactionError} If any approval signature is invalid, in which case no approval is added.
+   */
+  public addApprovals(approvals: Approval[]): void {
+    approvals.forEach(approval => this.verify(approval));
+
+    const list = this.getApprovalList();
+    const signers = list.map(approval => approval.signer.toHex());
+
+    for (const approval of approvals) {
+      const signer = approval.signer.toHex();
+
+      if (signers.indexOf(signer) === -1) {
+        signers.push(signer);
+        list.push(approval);
+      }
+    }
+  }
+
+  /**
+   * Merges the approvals of another collector of the same transaction.
+   * @param other - The collector holding the approvals of other parties.
+   * @throws {TransactionError} If the collectors hold different transactions or any approval signature is invalid.
+   */
+  public merge(other: ApprovalCollector): void {
+    if (!this.hash.equals(other.hash)) {
+      throw new TransactionError(
+        `Cannot merge approvals of transaction ${other.hash.toHex()} into ${this.hash.toHex()}`
+      );
+    }
+
+    this.addApprovals(other.approvals);
+  }
+
+  /**
+   * Computes the weight of the associated keys of the account which approved the transaction.
+   * @param account - The account the transaction is sent from.
+   * @param threshold - The threshold to reach, the deployment threshold of the account by default.
+   * @returns The approval weight compared to the threshold, and the keys which did not approve yet.
+   */
+  public getThresholdStatus(
+    account: Account,
+    threshold = account.actionThresholds.deployment
+  ): ApprovalThresholdStatus {
+    const approvers = this.getApprovalList().map(approval =>
+      approval.signer.accountHash().toHex()
+    );
+
+    let weight = 0;
+    const missingKeys: AssociatedKey[] = [];
+
+    for (const associatedKey of account.associatedKeys) {
+      if (approvers.indexOf(associatedKey.accountHash.toHex()) !== -1) {
+        weight += associatedKey.weight;
+      } else {
+        missingKeys.push(associatedKey);
+      }
+    }
+
+    return { weight, threshold, satisfied: weight >= threshold, missingKeys };
+  }
+
+  /**
+   * Returns the portable JSON form of the transaction and its approvals, which `fromJSON` reads back.
+   */
+  public toJSON(): any {
+    return this.transaction.toJSON();
+  }
+
+  private getApprovalList(): Approval[] {
+    const origin =
+      this.transaction.getTransactionV1() ?? this.transaction.getDeploy();
+
+    if (!origin) {
+      throw new Error('Incorrect Transaction instance. Missing origin value');
+    }
+
+    return origin.approvals;
+  }
+
+  private verify(approval: Approval): void {
+    try {
+      approval.signer.verifySignature(
+        this.hash.toBytes(),
+        approval.signature.bytes
+      );
+    } catch {
+      throw ErrInvalidApprovalSignature;
+    }
+  }
+}
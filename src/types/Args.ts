@@ -1,7 +1,20 @@
 import { concat } from '@ethersproject/bytes';
 import { jsonMapMember, jsonObject } from 'typedjson';
 
-import { CLValue, CLValueParser } from './clvalue';
+import {
+  CLNativeValue,
+  CLType,
+  CLTypeRaw,
+  CLValue,
+  CLValueChange,
+  CLValueCodec,
+  CLValueCodecError,
+  CLValueFormatOptions,
+  CLValueInspector,
+  CLValueParser,
+  TypeID
+} from './clvalue';
+import { EntryPointArg } from './EntryPoint';
 import {
   expandBuffer,
   toBytesString,
@@ -81,7 +94,11 @@ export class NamedArg {
   public static fromBytes(bytes: Uint8Array): NamedArg {
     let offset = 0;
 
-    const nameLength = new DataView(bytes.buffer).getUint32(offset, true);
+    const nameLength = new DataView(
+      bytes.buffer,
+      bytes.byteOffset,
+      bytes.byteLength
+    ).getUint32(offset, true);
     offset += 4;
     const nameBytes = bytes.slice(offset, offset + nameLength);
     offset += nameLength;
@@ -123,6 +140,19 @@ const desRA = (_arr: any) => {
   return parsed;
 };
 
+/**
+ * The types of a set of named arguments, given as a record of `CLType`s or as the arguments of an entry point.
+ */
+export type ArgsSchema = Record<string, CLType> | EntryPointArg[];
+
+const schemaTypes = (schema: ArgsSchema): Record<string, CLType> =>
+  Array.isArray(schema)
+    ? schema.reduce<Record<string, CLType>>((types, arg) => {
+        types[arg.name] = CLTypeRaw.resolve(arg.clType);
+        return types;
+      }, {})
+    : schema;
+
 /**
  * Represents a set of named arguments (`NamedArg`) for a contract call.
  * Provides methods to serialize, deserialize, and manipulate argument entries.
@@ -175,6 +205,84 @@ export class Args {
     return this.fromMap(args);
   }
 
+  /**
+   * Creates an `Args` instance from native JavaScript values, converted to `CLValue`s by `CLValueCodec`
+   * according to their types. Missing `Option` arguments are set to `None`.
+   * @param values - An object containing argument names as keys and native values as values.
+   * @param schema - The types of the arguments, e.g. the `args` of an entry point.
+   * @returns A new `Args` instance, with the arguments in the order of the schema.
+   * @throws {CLValueCodecError} If an argument is missing, unexpected or doesn't match its type,
+   * with its path, e.g. `args.amount: expected U512, got string "ten"`.
+   *
+   * @example
+   * ```ts
+   * const args = Args.fromValues(
+   *   { recipient: 'account-hash-...', amount: '2500000000' },
+   *   { recipient: CLTypeKey, amount: CLTypeUInt256 }
+   * );
+   * ```
+   */
+  public static fromValues(
+    values: Record<string, unknown>,
+    schema: ArgsSchema
+  ): Args {
+    const types = schemaTypes(schema);
+
+    Object.keys(values).forEach(name => {
+      if (!types[name]) {
+        throw new CLValueCodecError(`args.${name}`, 'unexpected argument');
+      }
+    });
+
+    const args = new Map<string, CLValue>();
+
+    Object.keys(types).forEach(name => {
+      const type = types[name];
+
+      if (values[name] === undefined && type.getTypeID() !== TypeID.Option) {
+        throw new CLValueCodecError(
+          `args.${name}`,
+          `missing argument, expected ${type.toString()}`
+        );
+      }
+
+      args.set(name, CLValueCodec.encode(values[name], type, `args.${name}`));
+    });
+
+    return new Args(args);
+  }
+
+  /**
+   * Converts the arguments to native JavaScript values with `CLValueCodec`.
+   * @returns An object containing argument names as keys and native values as values.
+   */
+  public toValues(): Record<string, CLNativeValue> {
+    const values: Record<string, CLNativeValue> = {};
+    this.args.forEach((value, name) => {
+      values[name] = CLValueCodec.decode(value);
+    });
+    return values;
+  }
+
+  /**
+   * Renders the arguments for humans with `CLValueInspector.format`, one `name: value` per line.
+   * @param options - (Optional) The indentation and how `U512` amounts are shown.
+   * @returns The rendered arguments.
+   */
+  public toPrettyString(options?: CLValueFormatOptions): string {
+    return CLValueInspector.formatEntries(this.args, options);
+  }
+
+  /**
+   * Compares two sets of arguments with `CLValueInspector.diff`, at paths such as `args.amount`.
+   * @param before - The first arguments.
+   * @param after - The second arguments.
+   * @returns The added, removed and changed arguments and nested values, empty when the arguments are equal.
+   */
+  public static diff(before: Args, after: Args): CLValueChange[] {
+    return CLValueInspector.diffEntries(before.args, after.args);
+  }
+
   /**
    * Inserts a new argument into the map.
    * @param key - The argument name.
@@ -207,7 +315,11 @@ export class Args {
   public static fromBytes(bytes: Uint8Array): Args {
     let offset = 0;
 
-    const numArgs = new DataView(bytes.buffer).getUint32(offset, true);
+    const numArgs = new DataView(
+      bytes.buffer,
+      bytes.byteOffset,
+      bytes.byteLength
+    ).getUint32(offset, true);
     offset += 4;
 
     const args = new Map<string, CLValue>();
@@ -11,6 +11,137 @@ import {
 import { PublicKey } from './keypair';
 import { HexBytes } from './HexBytes';
 import { getEnumKeyByValue } from "../utils";
+import { BigNumber } from '@ethersproject/bignumber';
+import { concat } from '@ethersproject/bytes';
+import { byteHash, toBytesU32, toBytesU64, toBytesU8 } from './ByteConverters';
+import {
+  ValidatorWeightAuction,
+  ValidatorWeightEraEnd
+} from './ValidatorWeight';
+
+/**
+ * The fraction of the total validator weight that finality signatures have to exceed,
+ * matching the default `finality_threshold_fraction` of the chainspec.
+ */
+const DEFAULT_FINALITY_THRESHOLD: [number, number] = [1, 3];
+
+/**
+ * Options for verifying a block and its finality signatures.
+ */
+export interface IBlockVerificationOptions {
+  /**
+   * The name of the chain the block belongs to.
+   * Required for V2 blocks, as their finality signatures commit to the chain name hash.
+   */
+  chainName?: string;
+
+  /**
+   * The `[numerator, denominator]` fraction of the total validator weight that
+   * the signed weight has to exceed for the block to be considered final.
+   * Defaults to `[1, 3]`.
+   */
+  finalityThreshold?: [number, number];
+}
+
+/**
+ * The outcome of verifying a single finality signature of a block.
+ */
+export interface IProofVerificationResult {
+  /**
+   * The public key of the signer.
+   */
+  publicKey: PublicKey;
+
+  /**
+   * Whether the signer is a validator of the era and the signature is valid.
+   */
+  isValid: boolean;
+
+  /**
+   * The weight of the signer in the era, zero if it is not a validator.
+   */
+  weight: BigNumber;
+
+  /**
+   * The reason the proof was rejected, if it was.
+   */
+  error?: string;
+}
+
+/**
+ * The outcome of verifying a block against its header, body and finality signatures.
+ */
+export interface IBlockVerificationResult {
+  /**
+   * The block hash recomputed from the header bytes.
+   */
+  computedHash: Hash;
+
+  /**
+   * Whether the recomputed block hash matches the hash reported for the block.
+   */
+  isHashValid: boolean;
+
+  /**
+   * The body hash recomputed from the body bytes.
+   */
+  computedBodyHash: Hash;
+
+  /**
+   * Whether the recomputed body hash matches the body hash in the header.
+   */
+  isBodyHashValid: boolean;
+
+  /**
+   * The verification outcome of every proof attached to the block.
+   */
+  proofs: IProofVerificationResult[];
+
+  /**
+   * The combined weight of the validators with a valid signature, each counted once.
+   */
+  signedWeight: BigNumber;
+
+  /**
+   * The total weight of the era's validators.
+   */
+  totalWeight: BigNumber;
+
+  /**
+   * Whether the signed weight exceeds the finality threshold.
+   */
+  isFinal: boolean;
+
+  /**
+   * Whether both hashes match and the block is final.
+   */
+  isValid: boolean;
+}
+
+/**
+ * Serializes an optional value as an `Option<T>`.
+ */
+const optionToBytes = (value?: Uint8Array | null): Uint8Array =>
+  value ? concat([Uint8Array.of(1), value]) : Uint8Array.of(0);
+
+/**
+ * Serializes a list of hashes as a length-prefixed `Vec<Digest>`.
+ */
+const hashesToBytes = (hashes: Hash[]): Uint8Array =>
+  concat([toBytesU32(hashes.length), ...hashes.map(hash => hash.toBytes())]);
+
+/**
+ * Serializes a `major.minor.patch` protocol version as three `u32` values.
+ */
+const protocolVersionToBytes = (version?: string): Uint8Array => {
+  const parts = (version ?? '').split('.').map(Number);
+
+  if (parts.length !== 3 || parts.some(part => !Number.isInteger(part))) {
+    throw new Error(`Invalid protocol version: ${version}`);
+  }
+
+  return concat(parts.map(part => toBytesU32(part)));
+};
 
 /**
  * Represents a proof containing a public key and a signature, used for validating the authenticity of data.
@@ -366,6 +497,122 @@ export class Block {
       blockV1
     );
   }
+
+  /**
+   * Verifies the block locally, without trusting the node it was fetched from.
+   *
+   * The block hash is recomputed from the header bytes, the body hash from the body bytes,
+   * and every proof is checked with `PublicKey.verifySignature` against the finality signature
+   * bytes of the block. The weights of the validators with a valid signature are then summed up
+   * and compared with the finality threshold.
+   *
+   * @param validatorWeights - The validator weights of the block's era, e.g. the
+   * `nextEraValidatorWeights` of the previous era's switch block.
+   * @param options - The chain name (required for V2 blocks) and an optional finality threshold.
+   * @returns The outcome of the verification.
+   * @throws Will throw an error if the block was not created from a V1 or V2 block,
+   * or if the chain name is missing for a V2 block.
+   */
+  public verify(
+    validatorWeights: Array<ValidatorWeightEraEnd | ValidatorWeightAuction>,
+    options: IBlockVerificationOptions = {}
+  ): IBlockVerificationResult {
+    let computedHash: Hash;
+    let computedBodyHash: Hash;
+    let bodyHash: Hash;
+    let signedBytes: Uint8Array;
+
+    if (this.originBlockV2) {
+      const { header, body } = this.originBlockV2;
+
+      if (!options.chainName) {
+        throw new Error('Chain name is required to verify a V2 block');
+      }
+
+      computedHash = header.computeHash();
+      computedBodyHash = body.computeHash();
+      bodyHash = header.bodyHash;
+      signedBytes = concat([
+        this.hash.toBytes(),
+        toBytesU64(header.height),
+        toBytesU64(header.eraID),
+        byteHash(Buffer.from(options.chainName))
+      ]);
+    } else if (this.originBlockV1) {
+      const { header, body } = this.originBlockV1;
+
+      computedHash = header.computeHash();
+      computedBodyHash = body.computeHash();
+      bodyHash = header.bodyHash;
+      signedBytes = concat([this.hash.toBytes(), toBytesU64(header.eraID)]);
+    } else {
+      throw new Error('Block must be created from a BlockV1 or BlockV2');
+    }
+
+    const weights = new Map<string, BigNumber>();
+    let totalWeight = BigNumber.from(0);
+
+    for (const validatorWeight of validatorWeights) {
+      const weight = validatorWeight.weight.getValue();
+      weights.set(validatorWeight.validator.toHex(), weight);
+      totalWeight = totalWeight.add(weight);
+    }
+
+    const signers = new Set<string>();
+    let signedWeight = BigNumber.from(0);
+
+    const proofs = this.proofs.map(proof => {
+      const signer = proof.publicKey.toHex();
+      const weight = weights.get(signer) ?? BigNumber.from(0);
+      const result: IProofVerificationResult = {
+        publicKey: proof.publicKey,
+        isValid: false,
+        weight
+      };
+
+      if (!weights.has(signer)) {
+        result.error = 'Signer is not a validator of the era';
+        return result;
+      }
+
+      try {
+        result.isValid = proof.publicKey.verifySignature(
+          signedBytes,
+          proof.signature.bytes
+        );
+      } catch (error) {
+        result.error = error.message;
+        return result;
+      }
+
+      if (!signers.has(signer)) {
+        signers.add(signer);
+        signedWeight = signedWeight.add(weight);
+      }
+
+      return result;
+    });
+
+    const [numerator, denominator] =
+      options.finalityThreshold ?? DEFAULT_FINALITY_THRESHOLD;
+    const isFinal = signedWeight
+      .mul(denominator)
+      .gt(totalWeight.mul(numerator));
+    const isHashValid = computedHash.equals(this.hash);
+    const isBodyHashValid = computedBodyHash.equals(bodyHash);
+
+    return {
+      computedHash,
+      isHashValid,
+      computedBodyHash,
+      isBodyHashValid,
+      proofs,
+      signedWeight,
+      totalWeight,
+      isFinal,
+      isValid: isHashValid && isBodyHashValid && isFinal
+    };
+  }
 }
 
 /**
@@ -469,6 +716,15 @@ export class BlockTransaction {
     return transactions;
   }
 
+  /**
+   * Serializes the transaction hash, prefixed with the tag of its version.
+   * @returns A `Uint8Array` representing the `TransactionHash` of the transaction.
+   */
+  public toBytes(): Uint8Array {
+    const tag = this.version === TransactionVersion.Deploy ? 0 : 1;
+    return concat([Uint8Array.of(tag), this.hash.toBytes()]);
+  }
+
   public toJSON(): string {
     return JSON.stringify({
       [this.category.toString()]: [{[getEnumKeyByValue(TransactionVersion, this.version) ?? '']: this.hash.toJSON()}]
@@ -697,6 +953,40 @@ export class BlockHeaderV1 {
    */
   @jsonMember({ name: 'era_end', constructor: EraEndV1 })
   public eraEnd?: EraEndV1;
+
+  /**
+   * Serializes the header into the byte representation the block hash is computed from.
+   * @returns A `Uint8Array` representing the block header.
+   * @throws Will throw an error if the accumulated seed or the protocol version is missing.
+   */
+  public toBytes(): Uint8Array {
+    if (!this.accumulatedSeed) {
+      throw new Error(
+        'Accumulated seed is required to serialize a block header'
+      );
+    }
+
+    return concat([
+      this.parentHash.toBytes(),
+      this.stateRootHash.toBytes(),
+      this.bodyHash.toBytes(),
+      Uint8Array.of(this.randomBit ? 1 : 0),
+      this.accumulatedSeed.toBytes(),
+      optionToBytes(this.eraEnd?.toBytes()),
+      toBytesU64(this.timestamp.toMilliseconds()),
+      toBytesU64(this.eraID),
+      toBytesU64(this.height),
+      protocolVersionToBytes(this.protocolVersion)
+    ]);
+  }
+
+  /**
+   * Computes the hash of the block this header belongs to.
+   * @returns The blake2b hash of the header bytes.
+   */
+  public computeHash(): Hash {
+    return new Hash(byteHash(this.toBytes()));
+  }
 }
 
 /**
@@ -737,6 +1027,26 @@ export class BlockBodyV1 {
     deserializer: (json: any) => json.map((it: string) => Hash.fromJSON(it))
   })
   public transferHashes: Hash[];
+
+  /**
+   * Serializes the body into the byte representation the body hash is computed from.
+   * @returns A `Uint8Array` representing the block body.
+   */
+  public toBytes(): Uint8Array {
+    return concat([
+      this.proposer.toBytes(),
+      hashesToBytes(this.deployHashes),
+      hashesToBytes(this.transferHashes)
+    ]);
+  }
+
+  /**
+   * Computes the hash of the body, as referenced by the `bodyHash` of the block header.
+   * @returns The blake2b hash of the body bytes.
+   */
+  public computeHash(): Hash {
+    return new Hash(byteHash(this.toBytes()));
+  }
 }
 
 /**
@@ -902,6 +1212,43 @@ export class BlockHeaderV2 {
    */
   @jsonMember({ name: 'era_end', constructor: EraEndV2 })
   public eraEnd?: EraEndV2;
+
+  /**
+   * Serializes the header into the byte representation the block hash is computed from.
+   * @returns A `Uint8Array` representing the block header.
+   * @throws Will throw an error if the accumulated seed or the protocol version is missing.
+   */
+  public toBytes(): Uint8Array {
+    if (!this.accumulatedSeed) {
+      throw new Error(
+        'Accumulated seed is required to serialize a block header'
+      );
+    }
+
+    return concat([
+      this.parentHash.toBytes(),
+      this.stateRootHash.toBytes(),
+      this.bodyHash.toBytes(),
+      Uint8Array.of(this.randomBit ? 1 : 0),
+      this.accumulatedSeed.toBytes(),
+      optionToBytes(this.eraEnd?.toBytes()),
+      toBytesU64(this.timestamp.toMilliseconds()),
+      toBytesU64(this.eraID),
+      toBytesU64(this.height),
+      protocolVersionToBytes(this.protocolVersion),
+      this.proposer.toBytes(),
+      toBytesU8(this.currentGasPrice),
+      optionToBytes(this.lastSwitchBlockHash?.toBytes())
+    ]);
+  }
+
+  /**
+   * Computes the hash of the block this header belongs to.
+   * @returns The blake2b hash of the header bytes.
+   */
+  public computeHash(): Hash {
+    return new Hash(byteHash(this.toBytes()));
+  }
 }
 
 /**
@@ -930,6 +1277,49 @@ export class BlockBodyV2 {
    */
   @jsonArrayMember(Number, { dimensions: 2, name: 'rewarded_signatures' })
   public rewardedSignatures: number[][];
+
+  /**
+   * Serializes the body into the byte representation the body hash is computed from.
+   * Transactions are grouped by category, in ascending order, as the node does.
+   * @returns A `Uint8Array` representing the block body.
+   */
+  public toBytes(): Uint8Array {
+    const categories = new Map<number, BlockTransaction[]>();
+
+    for (const transaction of this.transactions) {
+      const transactions = categories.get(transaction.category) ?? [];
+      transactions.push(transaction);
+      categories.set(transaction.category, transactions);
+    }
+
+    const sortedCategories = Array.from(categories.keys()).sort(
+      (a, b) => a - b
+    );
+
+    return concat([
+      toBytesU32(sortedCategories.length),
+      ...sortedCategories.map(category => {
+        const transactions = categories.get(category)!;
+        return concat([
+          toBytesU8(category),
+          toBytesU32(transactions.length),
+          ...transactions.map(transaction => transaction.toBytes())
+        ]);
+      }),
+      toBytesU32(this.rewardedSignatures.length),
+      ...this.rewardedSignatures.map(signatures =>
+        concat([toBytesU32(signatures.length), Uint8Array.from(signatures)])
+      )
+    ]);
+  }
+
+  /**
+   * Computes the hash of the body, as referenced by the `bodyHash` of the block header.
+   * @returns The blake2b hash of the body bytes.
+   */
+  public computeHash(): Hash {
+    return new Hash(byteHash(this.toBytes()));
+  }
 }
 
 /**
@@ -83,6 +83,15 @@ export class Proposer {
     return this.publicKey;
   }
 
+  /**
+   * Converts the proposer to its byte representation.
+   * The system proposer is serialized as the bare system public key tag.
+   * @returns A `Uint8Array` representing the proposer's public key.
+   */
+  toBytes(): Uint8Array {
+    return this.isSystem ? Uint8Array.of(0) : this.getPublicKey().bytes();
+  }
+
   /**
    * Serializes the proposer instance to JSON.
    * System proposers are represented as '00'; otherwise, the public key is serialized.
@@ -0,0 +1,150 @@
+import { Args, ArgsSchema } from './Args';
+import { ContractCallBuilder } from './TransactionBuilder';
+import { Deploy } from './Deploy';
+import { Transaction } from './Transaction';
+import { Timestamp } from './Time';
+import { ContractHash, ContractPackageHash } from './key';
+import { PublicKey } from './keypair';
+
+/**
+ * The contract called by a `ContractClient`: a contract hash, or a contract package hash with an optional version.
+ * Hashes can be given with or without their prefix.
+ */
+export interface ContractClientTarget {
+  contractHash?: string;
+  contractPackageHash?: string;
+  version?: number;
+}
+
+/**
+ * The options of the Deploy or TransactionV1 built for a `ContractCall`.
+ */
+export interface ContractCallOptions {
+  /** The public key of the account sending the call. */
+  sender: PublicKey;
+  /** The name of the Casper network chain. */
+  chainName: string;
+  /** The payment amount in motes. */
+  paymentAmount: number;
+  /** (Optional) The gas price tolerance. Defaults to `1`. */
+  gasPriceTolerance?: number;
+  /** (Optional) The time-to-live in milliseconds. Defaults to 30 minutes. */
+  ttl?: number;
+  /** (Optional) The timestamp of the call. Defaults to now. */
+  timestamp?: Timestamp;
+}
+
+/**
+ * A call of a contract entry point with its validated runtime arguments,
+ * which can be built as a legacy Deploy or as a TransactionV1.
+ */
+export class ContractCall {
+  /**
+   * @param target - The called contract.
+   * @param entryPoint - The name of the entry point.
+   * @param args - The runtime arguments of the call.
+   */
+  constructor(
+    public readonly target: ContractClientTarget,
+    public readonly entryPoint: string,
+    public readonly args: Args
+  ) {}
+
+  /**
+   * Returns a `ContractCallBuilder` set up with the target, entry point and arguments of the call.
+   */
+  builder(): ContractCallBuilder {
+    const { contractHash, contractPackageHash, version } = this.target;
+    const builder = contractHash
+      ? new ContractCallBuilder().byHash(
+          ContractHash.newContract(contractHash).hash.toHex()
+        )
+      : new ContractCallBuilder().byPackageHash(
+          ContractPackageHash.newContractPackage(
+            contractPackageHash!
+          ).hash.toHex(),
+          version
+        );
+
+    return builder.entryPoint(this.entryPoint).runtimeArgs(this.args);
+  }
+
+  /**
+   * Builds the call as a TransactionV1, for Casper 2.x networks.
+   * @param options - The sender, chain and payment of the transaction.
+   */
+  toTransaction(options: ContractCallOptions): Transaction {
+    return this.configure(options).build();
+  }
+
+  /**
+   * Builds the call as a legacy Deploy, for Casper 1.x networks.
+   * @param options - The sender, chain and payment of the deploy.
+   */
+  toDeploy(options: ContractCallOptions): Deploy {
+    return this.configure(options)
+      .buildFor1_5()
+      .getDeploy()!;
+  }
+
+  private configure({
+    sender,
+    chainName,
+    paymentAmount,
+    gasPriceTolerance,
+    ttl,
+    timestamp
+  }: ContractCallOptions): ContractCallBuilder {
+    let builder = this.builder()
+      .from(sender)
+      .chainName(chainName)
+      .payment(paymentAmount, gasPriceTolerance);
+
+    if (ttl !== undefined) {
+      builder = builder.ttl(ttl);
+    }
+
+    if (timestamp) {
+      builder = builder.timestamp(timestamp);
+    }
+
+    return builder;
+  }
+}
+
+/**
+ * Base class of the typed contract clients emitted by `generateContractClient`,
+ * holding the called contract and validating the arguments of each call.
+ */
+export class ContractClient {
+  /**
+   * @param target - The contract to call.
+   * @throws Error if the target doesn't have exactly one of `contractHash` and `contractPackageHash`.
+   */
+  constructor(public readonly target: ContractClientTarget) {
+    if (!target.contractHash === !target.contractPackageHash) {
+      throw new Error(
+        'Contract client target needs either a contract hash or a contract package hash'
+      );
+    }
+  }
+
+  /**
+   * Validates the arguments of an entry point and returns its call.
+   * @param entryPoint - The name of the entry point.
+   * @param values - The native values of the arguments.
+   * @param schema - The types of the arguments.
+   * @throws {CLValueCodecError} If a value doesn't match its type.
+   */
+  protected call(
+    entryPoint: string,
+    values: object,
+    schema: ArgsSchema
+  ): ContractCall {
+    return new ContractCall(
+      this.target,
+      entryPoint,
+      Args.fromValues(values as Record<string, unknown>, schema)
+    );
+  }
+}
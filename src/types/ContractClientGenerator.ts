@@ -0,0 +1,409 @@
+import { TypedJSON } from 'typedjson';
+
+import { EntryPointV1, EntryPointValue } from './EntryPoint';
+import { NamedEntryPoint } from './AddressableEntity';
+import {
+  CLType,
+  CLTypeDynamic,
+  CLTypeList,
+  CLTypeMap,
+  CLTypeOption,
+  CLTypeRaw,
+  CLTypeResult,
+  CLTypeTuple1,
+  CLTypeTuple2,
+  CLTypeTuple3,
+  TypeID
+} from './clvalue';
+
+/**
+ * The entry points a contract client is generated from: a `Contract` (`StoredValue.contract`),
+ * an addressable entity (`StateGetEntityResult.entity.addressableEntity`) or a list of entry points.
+ */
+export type ContractClientSource =
+  | { entryPoints?: NamedEntryPoint[] | EntryPointValue[] }
+  | EntryPointV1[];
+
+/**
+ * Options of `generateContractClient`.
+ */
+export interface ContractClientGeneratorOptions {
+  /** The name of the generated client class. */
+  className: string;
+  /** (Optional) The module the generated code imports the SDK from. Defaults to `casper-js-sdk`. */
+  importPath?: string;
+}
+
+const identifierPattern = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+const reservedWords = [
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'debugger',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'enum',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'function',
+  'if',
+  'import',
+  'in',
+  'instanceof',
+  'new',
+  'null',
+  'return',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'typeof',
+  'var',
+  'void',
+  'while',
+  'with'
+];
+
+// Members of `ContractClient` which entry points can't override
+const clientMembers = ['constructor', 'call', 'target'];
+
+const words = (name: string) => name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+
+const capitalize = (word: string) =>
+  word.charAt(0).toUpperCase() + word.slice(1);
+
+const pascalCase = (name: string) => {
+  const pascal = words(name)
+    .map(capitalize)
+    .join('');
+  return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal;
+};
+
+const methodName = (entryPoint: string) => {
+  const pascal = pascalCase(entryPoint);
+  const name = pascal.charAt(0).toLowerCase() + pascal.slice(1);
+
+  return reservedWords.indexOf(name) >= 0 || clientMembers.indexOf(name) >= 0
+    ? `${name}EntryPoint`
+    : name;
+};
+
+const quote = (value: string) => `'${value.replace(/['\\]/g, '\\$&')}'`;
+
+const propertyName = (name: string) =>
+  identifierPattern.test(name) ? name : quote(name);
+
+/**
+ * Renders a JSON value as a TypeScript literal.
+ */
+const literal = (json: unknown): string => {
+  if (typeof json === 'string') {
+    return quote(json);
+  }
+  if (Array.isArray(json)) {
+    return `[${json.map(literal).join(', ')}]`;
+  }
+  if (typeof json === 'object' && json !== null) {
+    const entries = Object.keys(json).map(
+      key =>
+        `${propertyName(key)}: ${literal(
+          (json as Record<string, unknown>)[key]
+        )}`
+    );
+    return `{ ${entries.join(', ')} }`;
+  }
+  return String(json);
+};
+
+const bigIntegerType = 'number | bigint | string';
+
+/**
+ * Returns the TypeScript type of the native values `CLValueCodec` accepts for a `CLType`,
+ * adding the SDK types it uses to `imports`.
+ */
+const nativeType = (type: CLType, imports: Set<string>): string => {
+  const elementType = (inner: CLType) => {
+    const native = nativeType(inner, imports);
+    return native.indexOf('|') >= 0 ? `Array<${native}>` : `${native}[]`;
+  };
+
+  switch (type.getTypeID()) {
+    case TypeID.Bool:
+      return 'boolean';
+    case TypeID.I32:
+    case TypeID.U8:
+    case TypeID.U32:
+      return 'number';
+    case TypeID.I64:
+    case TypeID.U64:
+    case TypeID.U128:
+    case TypeID.U256:
+    case TypeID.U512:
+      return bigIntegerType;
+    case TypeID.String:
+      return 'string';
+    case TypeID.Unit:
+      return 'null';
+    case TypeID.Key:
+      imports.add('Key');
+      return 'Key | string';
+    case TypeID.URef:
+      imports.add('URef');
+      return 'URef | string';
+    case TypeID.PublicKey:
+      imports.add('PublicKey');
+      return 'PublicKey | string';
+    case TypeID.ByteArray:
+    case TypeID.Any:
+      return 'Uint8Array | string';
+    case TypeID.Option:
+      return `${nativeType((type as CLTypeOption).inner, imports)} | null`;
+    case TypeID.List: {
+      const { elementsType } = type as CLTypeList;
+      return elementsType.getTypeID() === TypeID.U8
+        ? 'Uint8Array | number[]'
+        : elementType(elementsType);
+    }
+    case TypeID.Map: {
+      const { key, val } = type as CLTypeMap;
+      const valueType = nativeType(val, imports);
+      return key.getTypeID() === TypeID.String
+        ? `Map<string, ${valueType}> | Record<string, ${valueType}>`
+        : `Map<${nativeType(key, imports)}, ${valueType}>`;
+    }
+    case TypeID.Result: {
+      const { innerOk, innerErr } = type as CLTypeResult;
+      return `{ ok: ${nativeType(innerOk, imports)} } | { err: ${nativeType(
+        innerErr,
+        imports
+      )} }`;
+    }
+    case TypeID.Tuple1:
+      return `[${nativeType((type as CLTypeTuple1).inner, imports)}]`;
+    case TypeID.Tuple2: {
+      const { inner1, inner2 } = type as CLTypeTuple2;
+      return `[${[inner1, inner2]
+        .map(t => nativeType(t, imports))
+        .join(', ')}]`;
+    }
+    case TypeID.Tuple3: {
+      const { inner1, inner2, inner3 } = type as CLTypeTuple3;
+      return `[${[inner1, inner2, inner3]
+        .map(t => nativeType(t, imports))
+        .join(', ')}]`;
+    }
+    default:
+      throw new Error(`Unsupported CLType: ${type.toString()}`);
+  }
+};
+
+const resolveType = (type: CLTypeRaw | CLType): CLType => {
+  const resolved = CLTypeRaw.resolve(type);
+  return resolved instanceof CLTypeDynamic
+    ? resolveType(resolved.inner)
+    : resolved;
+};
+
+/**
+ * Returns the VM1 entry points of a contract client source.
+ * VM2 entry points don't describe their arguments and are left out.
+ */
+const entryPointsOf = (source: ContractClientSource): EntryPointV1[] => {
+  if (Array.isArray(source)) {
+    return source;
+  }
+
+  const entryPoints: Array<NamedEntryPoint | EntryPointValue> =
+    source.entryPoints ?? [];
+
+  return entryPoints
+    .map(entryPoint =>
+      entryPoint instanceof NamedEntryPoint
+        ? entryPoint.entryPoint
+        : entryPoint.v1CasperVm
+    )
+    .filter((entryPoint): entryPoint is EntryPointV1 => !!entryPoint);
+};
+
+/**
+ * Returns the entry points of a contract or an addressable entity from its JSON, as saved from
+ * `RpcClient.getStateItem` (`stored_value.Contract`) or `RpcClient.getLatestEntity` (`entity.AddressableEntity`).
+ * The whole RPC result, the stored value or the contract or entity itself are accepted.
+ *
+ * @param json - The JSON of the contract or entity.
+ * @returns The VM1 entry points.
+ * @throws Error if the JSON doesn't hold entry points.
+ */
+export const contractEntryPointsFromJSON = (json: any): EntryPointV1[] => {
+  const value = json?.stored_value ?? json;
+  const holder =
+    value?.Contract ??
+    value?.entity?.AddressableEntity ??
+    value?.AddressableEntity ??
+    value;
+
+  if (!Array.isArray(holder?.entry_points)) {
+    throw new Error('The JSON has no contract entry points');
+  }
+
+  return entryPointsOf({
+    entryPoints: holder.entry_points.map((entryPoint: any) =>
+      entryPoint.V1CasperVm || entryPoint.V2CasperVm
+        ? new TypedJSON(EntryPointValue).parse(entryPoint)!
+        : NamedEntryPoint.fromJSON(entryPoint)
+    )
+  });
+};
+
+const docComment = (lines: string[], indent = '') =>
+  [
+    `${indent}/**`,
+    ...lines.map(line => `${indent} * ${line}`),
+    `${indent} */`
+  ].join('\n');
+
+/**
+ * Generates the TypeScript source of a typed client for the entry points of a contract.
+ *
+ * The client extends `ContractClient` with one method per entry point, which takes the typed
+ * arguments of the entry point, validates them with `Args.fromValues` and returns a `ContractCall`
+ * that builds a Deploy (`toDeploy`) or a TransactionV1 (`toTransaction`).
+ * Arguments keep their on-chain names, and `Option` arguments can be left out.
+ *
+ * @param source - The contract, addressable entity or entry points, see `contractEntryPointsFromJSON` for saved JSON.
+ * @param options - The name of the client class and where it imports the SDK from.
+ * @returns The TypeScript source of the client module.
+ * @throws Error if the class name is invalid or two entry points get the same method name.
+ *
+ * @example
+ * ```ts
+ * const { storedValue } = await rpcClient.getStateItem(null, contractHash, []);
+ * const source = generateContractClient(storedValue.contract!, {
+ *   className: 'TokenClient'
+ * });
+ * fs.writeFileSync('TokenClient.ts', source);
+ *
+ * // In the application
+ * const token = new TokenClient({ contractHash });
+ * const deploy = token
+ *   .transfer({ recipient: 'account-hash-...', amount: 2_500_000_000n })
+ *   .toDeploy({ sender, chainName: 'casper', paymentAmount: 3_000_000_000 });
+ * ```
+ */
+export const generateContractClient = (
+  source: ContractClientSource,
+  { className, importPath = 'casper-js-sdk' }: ContractClientGeneratorOptions
+): string => {
+  if (!identifierPattern.test(className)) {
+    throw new Error(`Invalid contract client class name: ${className}`);
+  }
+
+  const imports = new Set<string>(['ContractCall', 'ContractClient']);
+  const methodNames: Record<string, string> = {};
+  const declarations: string[] = [];
+  const methods: string[] = [];
+
+  entryPointsOf(source).forEach(({ name, args, ret }) => {
+    const method = methodName(name);
+    if (methodNames[method] !== undefined) {
+      throw new Error(
+        `Entry points "${methodNames[method]}" and "${name}" both map to the method ${method}`
+      );
+    }
+    methodNames[method] = name;
+
+    const returnType = ret && resolveType(ret);
+    const returns =
+      returnType && returnType.getTypeID() !== TypeID.Unit
+        ? `, which returns \`${returnType.toString()}\``
+        : '';
+    const comment = docComment(
+      [`Calls the \`${name}\` entry point${returns}.`],
+      '  '
+    );
+
+    if (!args.length) {
+      methods.push(
+        [
+          comment,
+          `  ${method}(): ContractCall {`,
+          `    return this.call(${quote(name)}, {}, {});`,
+          '  }'
+        ].join('\n')
+      );
+      return;
+    }
+
+    imports.add('CLTypeParser');
+
+    const argsName = `${className.replace(/Client$/, '')}${pascalCase(
+      name
+    )}Args`;
+    const types = args.map(arg => resolveType(arg.clType));
+    const optional = types.map(type => type.getTypeID() === TypeID.Option);
+
+    declarations.push(
+      [
+        docComment([`The arguments of the \`${name}\` entry point.`]),
+        `export interface ${argsName} {`,
+        ...args.map(
+          (arg, i) =>
+            `  ${propertyName(arg.name)}${optional[i] ? '?' : ''}: ${nativeType(
+              types[i],
+              imports
+            )};`
+        ),
+        '}'
+      ].join('\n')
+    );
+
+    methods.push(
+      [
+        comment,
+        `  ${method}(args: ${argsName}${
+          optional.every(Boolean) ? ' = {}' : ''
+        }): ContractCall {`,
+        `    return this.call(${quote(name)}, args, {`,
+        args
+          .map(
+            (arg, i) =>
+              `      ${propertyName(
+                arg.name
+              )}: CLTypeParser.fromRawJson(${literal(types[i].toJSON())})`
+          )
+          .join(',\n'),
+        '    });',
+        '  }'
+      ].join('\n')
+    );
+  });
+
+  const importNames = Array.from(imports).sort();
+
+  return (
+    [
+      `// Generated by casper-js-sdk from the contract entry points, don't edit it by hand.`,
+      `import {\n${importNames
+        .map(name => `  ${name}`)
+        .join(',\n')}\n} from '${importPath}';`,
+      ...declarations,
+      [
+        docComment([`Typed client of the contract entry points.`]),
+        `export class ${className} extends ContractClient {`,
+        methods.join('\n\n'),
+        '}'
+      ].join('\n')
+    ].join('\n\n') + '\n'
+  );
+};
@@ -1,4 +1,5 @@
 import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { byteHash } from './ByteConverters';
 
 /**
  * A utility class for various data conversions used in the Casper ecosystem.
@@ -80,6 +81,47 @@ export class Conversions {
     return new Uint8Array(Buffer.from(base16String, 'hex'));
   }
 
+  /**
+   * Encodes a `Uint8Array` into a mixed-case checksummed Base-16 string, following
+   * [CEP-57](https://github.com/casper-network/ceps/blob/master/text/0057-checksummed-addresses.md):
+   * each letter is uppercased when the matching bit of the Blake2b hash of the bytes is set.
+   *
+   * @param bytes - The `Uint8Array` to be encoded.
+   * @returns A checksummed Base-16 string representation of the input bytes.
+   *
+   * @example
+   * const hex = Conversions.encodeChecksummedBase16(hashBytes);
+   * console.log(hex); // Outputs e.g. "fA2b..."
+   */
+  static encodeChecksummedBase16(bytes: Uint8Array): string {
+    const hash = byteHash(bytes);
+    let bit = 0;
+
+    return Conversions.encodeBase16(bytes).replace(/[a-f]/g, char => {
+      const isSet = (hash[bit >> 3] >>> (bit & 7)) & 1;
+      bit++;
+      return isSet ? char.toUpperCase() : char;
+    });
+  }
+
+  /**
+   * Checks whether a Base-16 string is exactly the checksummed encoding of its bytes, as produced by `encodeChecksummedBase16`.
+   *
+   * @param base16String - The Base-16 string to check.
+   * @returns `true` if the string is checksummed, otherwise `false`.
+   */
+  static isChecksummedBase16(base16String: string): boolean {
+    if (!/^([0-9a-fA-F]{2})*$/.test(base16String)) {
+      return false;
+    }
+
+    return (
+      Conversions.encodeChecksummedBase16(
+        Conversions.decodeBase16(base16String)
+      ) === base16String
+    );
+  }
+
   /**
    * Converts a CSPR amount to its mote equivalent.
    *
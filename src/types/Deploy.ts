@@ -3,7 +3,7 @@ import { concat } from '@ethersproject/bytes';
 
 import { Hash } from './key';
 import { HexBytes } from './HexBytes';
-import { PublicKey, PrivateKey } from './keypair';
+import { PublicKey, PrivateKey, RAW_SIGNATURE_LENGTH, Signer } from './keypair';
 import { Duration, Timestamp } from './Time';
 import { Approval, Transaction } from './Transaction';
 import {
@@ -21,7 +21,13 @@ import {
   toBytesU32,
   toBytesU64
 } from './ByteConverters';
-import { CLValue } from './clvalue';
+import {
+  CLValue,
+  CLValueString,
+  CLValueUInt32,
+  CLValueUInt64,
+  IResultWithBytes
+} from './clvalue';
 
 /**
  * Represents the header of a deploy in the blockchain.
@@ -158,6 +164,43 @@ export class DeployHeader {
     ]);
   }
 
+  /**
+   * Deserializes a deploy header from its byte representation.
+   * @param source The byte array starting with a serialized deploy header.
+   * @returns An object containing the `DeployHeader` and the remaining bytes.
+   */
+  public static fromBytes(source: Uint8Array): IResultWithBytes<DeployHeader> {
+    const account = PublicKey.fromBytes(source);
+    const timestamp = CLValueUInt64.fromBytes(account.bytes);
+    const ttl = CLValueUInt64.fromBytes(timestamp.bytes);
+    const gasPrice = CLValueUInt64.fromBytes(ttl.bytes);
+    const bodyHash = Hash.fromBytes(gasPrice.bytes);
+    const dependenciesCount = CLValueUInt32.fromBytes(bodyHash.bytes);
+
+    let remainder = dependenciesCount.bytes;
+    const dependencies: Hash[] = [];
+
+    for (let i = 0; i < dependenciesCount.result.toNumber(); i++) {
+      const dependency = Hash.fromBytes(remainder);
+      dependencies.push(dependency.result);
+      remainder = dependency.bytes;
+    }
+
+    const chainName = CLValueString.fromBytes(remainder);
+
+    const header = new DeployHeader(
+      chainName.result.toString(),
+      dependencies,
+      gasPrice.result.toNumber(),
+      new Timestamp(new Date(timestamp.result.toNumber())),
+      new Duration(ttl.result.toNumber()),
+      account.result,
+      bodyHash.result
+    );
+
+    return { result: header, bytes: chainName.bytes };
+  }
+
   /**
    * Returns a default `DeployHeader` instance with default values.
    * @returns A `DeployHeader` instance with default values.
@@ -275,6 +318,17 @@ export class Deploy {
     this.approvals.push(new Approval(keys.publicKey, signature));
   }
 
+  /**
+   * Signs the deploy with the given signer, e.g. a browser wallet or a remote signing service,
+   * and adds the signature to the approvals list.
+   *
+   * @param signer The signer approving the deploy.
+   * @throws {TransactionError} If the signature returned by the signer is invalid.
+   */
+  public async signWith(signer: Signer): Promise<void> {
+    this.approvals.push(await Approval.fromSigner(signer, this.hash));
+  }
+
   /**
    * Converts the deploy object into a byte array for transmission or storage.
    *
@@ -289,6 +343,37 @@ export class Deploy {
     ]);
   }
 
+  /**
+   * Deserializes a deploy from the byte representation produced by `toBytes`.
+   *
+   * The deploy is not validated, call `validate` to check its hashes and approval signatures.
+   *
+   * @param bytes The serialized deploy.
+   * @returns A new `Deploy` instance.
+   * @throws Error if the byte array is malformed or contains trailing bytes.
+   */
+  public static fromBytes(bytes: Uint8Array): Deploy {
+    const header = DeployHeader.fromBytes(bytes);
+    const hash = Hash.fromBytes(header.bytes);
+    const payment = ExecutableDeployItem.fromBytes(hash.bytes);
+    const session = ExecutableDeployItem.fromBytes(payment.bytes);
+    const approvals = deserializeApprovals(session.bytes);
+
+    if (approvals.bytes.length !== 0) {
+      throw new Error(
+        `Failed to deserialize Deploy: ${approvals.bytes.length} unexpected trailing bytes`
+      );
+    }
+
+    return new Deploy(
+      hash.result,
+      header.result,
+      payment.result,
+      session.result,
+      approvals.result
+    );
+  }
+
   /**
    * Sets an already generated signature for the deploy.
    *
@@ -560,6 +645,38 @@ export const serializeApprovals = (approvals: Approval[]): Uint8Array => {
   return concat([len, bytes]);
 };
 
+/**
+ * Deserializes a `Uint8Array` typed byte array produced by `serializeApprovals` into an array of `Approval`s.
+ *
+ * @param source The byte array starting with serialized approvals.
+ * @returns An object containing the `Approval` array and the remaining bytes.
+ *
+ * @example
+ * const { result: approvals } = deserializeApprovals(serializeApprovals(approvals));
+ */
+export const deserializeApprovals = (
+  source: Uint8Array
+): IResultWithBytes<Approval[]> => {
+  const count = CLValueUInt32.fromBytes(source);
+  const approvals: Approval[] = [];
+  let remainder = count.bytes;
+
+  for (let i = 0; i < count.result.toNumber(); i++) {
+    const signer = PublicKey.fromBytes(remainder);
+    const signatureLength = RAW_SIGNATURE_LENGTH + 1; // algorithm tag + signature
+
+    if (signer.bytes.length < signatureLength) {
+      throw new Error('Invalid byte array for Approval signature');
+    }
+
+    const signature = new HexBytes(signer.bytes.slice(0, signatureLength));
+    approvals.push(new Approval(signer.result, signature));
+    remainder = signer.bytes.subarray(signatureLength);
+  }
+
+  return { result: approvals, bytes: remainder };
+};
+
 /**
  * Default TTL value used for deploys (30 minutes).
  */
@@ -4,10 +4,60 @@ import {
   jsonArrayMember,
   jsonMapMember
 } from 'typedjson';
+import { concat } from '@ethersproject/bytes';
 import { PublicKey } from './keypair';
 import { ValidatorWeightEraEnd } from './ValidatorWeight';
 import { CLValueUInt512 } from './clvalue';
 import { deserializeRewards, serializeRewards } from './SerializationUtils';
+import { toBytesU32, toBytesU64, toBytesU8 } from './ByteConverters';
+
+/**
+ * Serializes a list of public keys as a length-prefixed `Vec<PublicKey>`.
+ */
+const publicKeysToBytes = (keys: PublicKey[]): Uint8Array =>
+  concat([toBytesU32(keys.length), ...keys.map(key => key.bytes())]);
+
+/**
+ * Lexicographically compares two byte arrays.
+ */
+const compareBytes = (a: Uint8Array, b: Uint8Array): number => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+
+  return a.length - b.length;
+};
+
+/**
+ * Serializes `[key, value]` entries as a `BTreeMap<PublicKey, _>`,
+ * ordering them by their key bytes the same way the node does.
+ */
+const publicKeyMapToBytes = (
+  entries: [PublicKey, Uint8Array][]
+): Uint8Array => {
+  const sorted = entries
+    .map(([key, value]) => ({ key: key.bytes(), value }))
+    .sort((a, b) => compareBytes(a.key, b.key));
+
+  return concat([
+    toBytesU32(sorted.length),
+    ...sorted.map(it => concat([it.key, it.value]))
+  ]);
+};
+
+/**
+ * Serializes validator weights as a `BTreeMap<PublicKey, U512>`.
+ */
+const validatorWeightsToBytes = (
+  weights: ValidatorWeightEraEnd[]
+): Uint8Array =>
+  publicKeyMapToBytes(
+    weights.map(
+      it => [it.validator, it.weight.bytes()] as [PublicKey, Uint8Array]
+    )
+  );
 
 /**
  * Class representing the rewards associated with a validator in a given era.
@@ -97,6 +147,25 @@ export class EraReport {
     this.inactiveValidators = inactiveValidators;
     this.rewards = rewards;
   }
+
+  /**
+   * Serializes the era report into its byte representation.
+   * Reward amounts are encoded as `u64` values, as in the V1 protocol.
+   *
+   * @returns A `Uint8Array` representing the era report.
+   */
+  public toBytes(): Uint8Array {
+    const rewards = this.rewards.map(reward => [
+      reward.validator,
+      toBytesU64(reward.amount.getValue())
+    ]) as [PublicKey, Uint8Array][];
+
+    return concat([
+      publicKeysToBytes(this.equivocators),
+      publicKeyMapToBytes(rewards),
+      publicKeysToBytes(this.inactiveValidators)
+    ]);
+  }
 }
 
 /**
@@ -172,6 +241,26 @@ export class EraEndV2 {
     this.rewards = rewards;
     this.nextEraGasPrice = nextEraGasPrice;
   }
+
+  /**
+   * Serializes the era end into the byte layout used for hashing a V2 block header.
+   *
+   * @returns A `Uint8Array` representing the era end.
+   */
+  public toBytes(): Uint8Array {
+    const rewards = Array.from(this.rewards, ([validator, amounts]) => [
+      PublicKey.fromHex(validator),
+      concat([toBytesU32(amounts.length), ...amounts.map(it => it.bytes())])
+    ]) as [PublicKey, Uint8Array][];
+
+    return concat([
+      publicKeysToBytes(this.equivocators),
+      publicKeysToBytes(this.inactiveValidators),
+      validatorWeightsToBytes(this.nextEraValidatorWeights),
+      publicKeyMapToBytes(rewards),
+      toBytesU8(this.nextEraGasPrice)
+    ]);
+  }
 }
 
 /**
@@ -206,6 +295,18 @@ export class EraEndV1 {
     this.eraReport = eraReport;
     this.nextEraValidatorWeights = nextEraValidatorWeights;
   }
+
+  /**
+   * Serializes the era end into the byte layout used for hashing a V1 block header.
+   *
+   * @returns A `Uint8Array` representing the era end.
+   */
+  public toBytes(): Uint8Array {
+    return concat([
+      this.eraReport.toBytes(),
+      validatorWeightsToBytes(this.nextEraValidatorWeights)
+    ]);
+  }
 }
 
 /**
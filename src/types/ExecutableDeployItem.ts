@@ -3,8 +3,17 @@ import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
 import { concat } from '@ethersproject/bytes';
 
 import { Args } from './Args';
-import { CLTypeOption, CLTypeUInt64, CLValue, CLValueOption } from './clvalue';
-import { ContractHash, URef } from './key';
+import {
+  CLTypeOption,
+  CLTypeUInt32,
+  CLTypeUInt64,
+  CLValue,
+  CLValueOption,
+  CLValueString,
+  CLValueUInt32,
+  IResultWithBytes
+} from './clvalue';
+import { ContractHash, Hash, URef } from './key';
 import {
   byteArrayJsonDeserializer,
   byteArrayJsonSerializer,
@@ -25,6 +34,36 @@ enum ExecutableDeployItemType {
   Transfer
 }
 
+/**
+ * Deserializes runtime arguments from the beginning of a byte array.
+ * @param source The byte array starting with serialized `Args`.
+ * @returns The parsed `Args` and the bytes following them.
+ */
+const argsFromBytes = (source: Uint8Array): IResultWithBytes<Args> => {
+  const args = Args.fromBytes(source.slice());
+  return { result: args, bytes: source.subarray(args.toBytes().length) };
+};
+
+/**
+ * Deserializes an optional contract version (`Option<u32>`) from the beginning of a byte array.
+ * @param source The byte array starting with a serialized optional version.
+ * @returns The parsed version, or `undefined` if absent, and the bytes following it.
+ */
+const versionFromBytes = (
+  source: Uint8Array
+): IResultWithBytes<number | undefined> => {
+  const option = CLValueOption.fromBytes(
+    source,
+    new CLTypeOption(CLTypeUInt32)
+  );
+  const inner = option.result.value();
+
+  return {
+    result: inner ? inner.ui32!.toNumber() : undefined,
+    bytes: option.bytes
+  };
+};
+
 /**
  * Represents a deploy item containing module bytes and associated arguments.
  */
@@ -527,6 +566,111 @@ export class ExecutableDeployItem {
     return new Uint8Array();
   }
 
+  /**
+   * Deserializes an `ExecutableDeployItem` from its byte representation.
+   *
+   * The first byte is the deploy item type tag, followed by the bytes produced by the `bytes()`
+   * method of the matching deploy item.
+   *
+   * @param source The byte array starting with a serialized deploy item.
+   * @returns An object containing the deserialized `ExecutableDeployItem` and the remaining bytes.
+   * @throws Error if the byte array is empty or contains an unknown type tag.
+   */
+  public static fromBytes(
+    source: Uint8Array
+  ): IResultWithBytes<ExecutableDeployItem> {
+    if (source.length === 0) {
+      throw new Error('Empty byte array for ExecutableDeployItem');
+    }
+
+    const executableDeployItem = new ExecutableDeployItem();
+    const tag = source[0];
+    let remainder = source.subarray(1);
+
+    switch (tag) {
+      case ExecutableDeployItemType.ModuleBytes: {
+        const length = CLValueUInt32.fromBytes(remainder);
+        const moduleBytesLength = length.result.toNumber();
+        const moduleBytes = length.bytes.slice(0, moduleBytesLength);
+        const args = argsFromBytes(length.bytes.subarray(moduleBytesLength));
+
+        executableDeployItem.moduleBytes = new ModuleBytes(
+          moduleBytes,
+          args.result
+        );
+        remainder = args.bytes;
+        break;
+      }
+      case ExecutableDeployItemType.StoredContractByHash: {
+        const hash = Hash.fromBytes(remainder);
+        const entryPoint = CLValueString.fromBytes(hash.bytes);
+        const args = argsFromBytes(entryPoint.bytes);
+
+        executableDeployItem.storedContractByHash = new StoredContractByHash(
+          new ContractHash(hash.result, ''),
+          entryPoint.result.toString(),
+          args.result
+        );
+        remainder = args.bytes;
+        break;
+      }
+      case ExecutableDeployItemType.StoredContractByName: {
+        const name = CLValueString.fromBytes(remainder);
+        const entryPoint = CLValueString.fromBytes(name.bytes);
+        const args = argsFromBytes(entryPoint.bytes);
+
+        executableDeployItem.storedContractByName = new StoredContractByName(
+          name.result.toString(),
+          entryPoint.result.toString(),
+          args.result
+        );
+        remainder = args.bytes;
+        break;
+      }
+      case ExecutableDeployItemType.StoredVersionedContractByHash: {
+        const hash = Hash.fromBytes(remainder);
+        const version = versionFromBytes(hash.bytes);
+        const entryPoint = CLValueString.fromBytes(version.bytes);
+        const args = argsFromBytes(entryPoint.bytes);
+
+        executableDeployItem.storedVersionedContractByHash = new StoredVersionedContractByHash(
+          new ContractHash(hash.result, ''),
+          entryPoint.result.toString(),
+          args.result,
+          version.result
+        );
+        remainder = args.bytes;
+        break;
+      }
+      case ExecutableDeployItemType.StoredVersionedContractByName: {
+        const name = CLValueString.fromBytes(remainder);
+        const version = versionFromBytes(name.bytes);
+        const entryPoint = CLValueString.fromBytes(version.bytes);
+        const args = argsFromBytes(entryPoint.bytes);
+
+        executableDeployItem.storedVersionedContractByName = new StoredVersionedContractByName(
+          name.result.toString(),
+          entryPoint.result.toString(),
+          args.result,
+          version.result
+        );
+        remainder = args.bytes;
+        break;
+      }
+      case ExecutableDeployItemType.Transfer: {
+        const args = argsFromBytes(remainder);
+
+        executableDeployItem.transfer = new TransferDeployItem(args.result);
+        remainder = args.bytes;
+        break;
+      }
+      default:
+        throw new Error(`Unknown ExecutableDeployItem type tag: ${tag}`);
+    }
+
+    return { result: executableDeployItem, bytes: remainder };
+  }
+
   /**
    * Creates a standard payment `ExecutableDeployItem` with the specified amount.
    * @param amount The amount to be transferred.
@@ -0,0 +1,229 @@
+import {
+  AccountHash,
+  EntityAddr,
+  Hash,
+  hashIdentifierPrefixes,
+  Key,
+  keyIDbyPrefix,
+  KeyTypeID,
+  PrefixName,
+  URef
+} from './key';
+import { isValidPublicKey, PublicKey } from './keypair';
+import { SdkError } from './SdkError';
+
+/**
+ * The kinds of identifiers recognised by `parseIdentifier`.
+ */
+export enum IdentifierKind {
+  /** A hex public key, including its algorithm tag. */
+  PublicKey = 'PublicKey',
+  /** An `account-hash-` prefixed or `00` tagged account hash. */
+  AccountHash = 'AccountHash',
+  /** An `entity-` prefixed entity address or an `addressable-entity-` prefixed hash. */
+  Entity = 'Entity',
+  /** A `contract-` prefixed contract hash. */
+  Contract = 'Contract',
+  /** A `contract-package-`, `contract-package-wasm` or `package-` prefixed package hash. */
+  ContractPackage = 'ContractPackage',
+  /** A `contract-wasm-` prefixed contract Wasm hash. */
+  ContractWasm = 'ContractWasm',
+  /** A `hash-` prefixed hash, or an unprefixed 32-byte hash whose kind can't be told. */
+  Hash = 'Hash',
+  /** A `uref-` prefixed URef with its access rights. */
+  URef = 'URef',
+  /** Any other global state key accepted by `Key.newKey`. */
+  Key = 'Key'
+}
+
+/**
+ * An identifier parsed by `parseIdentifier`, normalised into the matching SDK types.
+ * Only the fields relevant to its kind are set.
+ */
+export interface ParsedIdentifier {
+  kind: IdentifierKind;
+  /** The parsed string, without surrounding whitespace. */
+  source: string;
+  /** The public key, for public keys. */
+  publicKey?: PublicKey;
+  /** The account hash, for public keys, account hashes and account entities. */
+  accountHash?: AccountHash;
+  /** The entity address, for `entity-` prefixed identifiers. */
+  entityAddr?: EntityAddr;
+  /** The URef, for URefs. */
+  uref?: URef;
+  /** The hash, for hashes and contract, package, Wasm and addressable entity hashes. */
+  hash?: Hash;
+  /** The global state key, for identifiers which are one. */
+  key?: Key;
+}
+
+/**
+ * Error thrown when a string can't be parsed as an identifier, explaining why.
+ */
+export class IdentifierParseError extends SdkError {
+  /**
+   * @param source - The string which couldn't be parsed.
+   * @param reason - Why it couldn't be parsed.
+   */
+  constructor(public source: string, public reason: string) {
+    super(`Can't parse identifier "${source}": ${reason}`);
+    this.name = 'IdentifierParseError';
+  }
+}
+
+/**
+ * The kinds of the hash identifiers which are not `Key` variants, by prefix.
+ */
+const hashIdentifierKinds: Record<string, IdentifierKind> = {
+  [PrefixName.AddressableEntity]: IdentifierKind.Entity,
+  [PrefixName.ContractPackageWasm]: IdentifierKind.ContractPackage,
+  [PrefixName.ContractPackage]: IdentifierKind.ContractPackage,
+  [PrefixName.ContractWasm]: IdentifierKind.ContractWasm,
+  [PrefixName.Contract]: IdentifierKind.Contract
+};
+
+const hexPattern = /^[0-9a-fA-F]+$/;
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : String(err);
+
+const kindOfKey = (key: Key): IdentifierKind => {
+  switch (key.type) {
+    case KeyTypeID.Account:
+      return IdentifierKind.AccountHash;
+    case KeyTypeID.Hash:
+      return IdentifierKind.Hash;
+    case KeyTypeID.URef:
+      return IdentifierKind.URef;
+    case KeyTypeID.Package:
+      return IdentifierKind.ContractPackage;
+    case KeyTypeID.AddressableEntity:
+      return IdentifierKind.Entity;
+    default:
+      return IdentifierKind.Key;
+  }
+};
+
+const fromKey = (source: string, key: Key): ParsedIdentifier => {
+  const accountHash =
+    key.account ??
+    (key.addressableEntity?.account
+      ? new AccountHash(key.addressableEntity.account)
+      : undefined);
+
+  return {
+    kind: kindOfKey(key),
+    source,
+    accountHash,
+    entityAddr: key.addressableEntity,
+    uref: key.uRef,
+    hash: key.hash ?? key.package,
+    key
+  };
+};
+
+const parseHex = (source: string, checksummed: boolean): ParsedIdentifier => {
+  if (isValidPublicKey(source)) {
+    const publicKey = PublicKey.fromHex(source, checksummed);
+    return {
+      kind: IdentifierKind.PublicKey,
+      source,
+      publicKey,
+      accountHash: publicKey.accountHash(),
+      key: Key.createByType(
+        publicKey.accountHash().toPrefixedString(),
+        KeyTypeID.Account
+      )
+    };
+  }
+
+  const isAccountHash =
+    source.length === Hash.StringHashLen + 2 && source.startsWith('00');
+
+  if (source.length !== Hash.StringHashLen && !isAccountHash) {
+    throw new Error(
+      `unexpected hex length ${source.length}, expected a ${Hash.StringHashLen} characters hash or a public key`
+    );
+  }
+
+  return fromKey(source, Key.newKey(source, checksummed));
+};
+
+/**
+ * Classifies a user-provided identifier and parses it into the matching SDK types.
+ * Public keys, account hashes, entity addresses, URefs, contract, package and Wasm hashes
+ * and every other global state key accepted by `Key.newKey` are recognised.
+ * Mixed-case hashes and public keys are validated against their CEP-57 checksum.
+ * @param source - The identifier, surrounding whitespace is ignored.
+ * @param checksummed - (Optional) Whether hashes and public keys must be checksummed. Defaults to `false`.
+ * @returns The kind of the identifier and its parsed values.
+ * @throws {IdentifierParseError} If the identifier is invalid, with the reason.
+ *
+ * @example
+ * ```ts
+ * const { kind, accountHash } = parseIdentifier(input);
+ *
+ * if (kind === IdentifierKind.PublicKey || kind === IdentifierKind.AccountHash) {
+ *   builder.target(accountHash);
+ * }
+ * ```
+ */
+export const parseIdentifier = (
+  source: string,
+  checksummed = false
+): ParsedIdentifier => {
+  const trimmed = source.trim();
+
+  if (!trimmed) {
+    throw new IdentifierParseError(source, 'the identifier is empty');
+  }
+
+  if (hexPattern.test(trimmed)) {
+    try {
+      return parseHex(trimmed, checksummed);
+    } catch (err) {
+      throw new IdentifierParseError(trimmed, errorMessage(err));
+    }
+  }
+
+  const hashPrefix = hashIdentifierPrefixes.find(prefix =>
+    trimmed.startsWith(prefix)
+  );
+
+  if (hashPrefix) {
+    try {
+      return {
+        kind: hashIdentifierKinds[hashPrefix],
+        source: trimmed,
+        hash: Hash.fromHex(trimmed.slice(hashPrefix.length), checksummed)
+      };
+    } catch (err) {
+      throw new IdentifierParseError(
+        trimmed,
+        `invalid ${hashPrefix} identifier: ${errorMessage(err)}`
+      );
+    }
+  }
+
+  const prefix = Key.findPrefixByMap(trimmed, keyIDbyPrefix);
+
+  if (!prefix && !trimmed.startsWith('Key::')) {
+    const unknownPrefix = /^[a-z-]+-/.exec(trimmed)?.[0];
+    throw new IdentifierParseError(
+      trimmed,
+      unknownPrefix
+        ? `unknown prefix "${unknownPrefix}"`
+        : 'expected a public key, a hash or a prefixed identifier'
+    );
+  }
+
+  try {
+    return fromKey(trimmed, Key.newKey(trimmed, checksummed));
+  } catch (err) {
+    throw new IdentifierParseError(
+      trimmed,
+      `invalid ${prefix || 'key'} identifier: ${errorMessage(err)}`
+    );
+  }
+};
@@ -1,7 +1,7 @@
 import { jsonObject, jsonMember } from 'typedjson';
 
 import { PublicKey } from './keypair';
-import { AccountHash } from './key';
+import { AccountHash, Hash, PrefixName } from './key';
 import { CalltableSerialization } from './CalltableSerialization';
 
 /**
@@ -64,6 +64,39 @@ export class InitiatorAddr {
     throw new Error('Unable to serialize InitiatorAddr');
   }
 
+  /**
+   * Deserializes an `InitiatorAddr` instance from its calltable byte representation.
+   *
+   * @param bytes The serialized initiator address.
+   * @returns A new `InitiatorAddr` instance.
+   * @throws Error if the tag is unknown or the address field is missing.
+   */
+  static fromBytes(bytes: Uint8Array): InitiatorAddr {
+    const calltable = CalltableSerialization.fromBytes(bytes);
+
+    const tagBytes = calltable.getField(0);
+    if (!tagBytes || tagBytes.length !== 1) {
+      throw new Error('Invalid or missing tag in serialized InitiatorAddr');
+    }
+
+    const addrBytes = calltable.getField(1);
+    if (!addrBytes) {
+      throw new Error('Missing address field in serialized InitiatorAddr');
+    }
+
+    switch (tagBytes[0]) {
+      case 0:
+        return new InitiatorAddr(PublicKey.fromBytes(addrBytes).result);
+      case 1:
+        return new InitiatorAddr(
+          undefined,
+          new AccountHash(Hash.fromBytes(addrBytes).result, PrefixName.Account)
+        );
+      default:
+        throw new Error(`Unknown InitiatorAddr tag: ${tagBytes[0]}`);
+    }
+  }
+
   /**
    * Creates an `InitiatorAddr` instance from a JSON object.
    * The JSON object can contain either a `publicKey` or an `accountHash` string.
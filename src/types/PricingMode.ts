@@ -1,6 +1,6 @@
 import { jsonObject, jsonMember } from 'typedjson';
 import { Hash } from './key';
-import { CLValue } from './clvalue';
+import { CLValue, CLValueBool, CLValueUInt64, CLValueUInt8 } from './clvalue';
 import { CalltableSerialization } from './CalltableSerialization';
 
 /**
@@ -154,4 +154,62 @@ export class PricingMode {
 
     throw new Error('Unable to serialize PricingMode');
   }
+
+  /**
+   * Deserializes a `PricingMode` from its calltable byte representation.
+   *
+   * @param bytes - The serialized pricing mode.
+   * @returns A `PricingMode` instance with the mode matching the serialized tag.
+   * @throws Error if the tag is unknown or a field required by the mode is missing.
+   */
+  static fromBytes(bytes: Uint8Array): PricingMode {
+    const calltable = CalltableSerialization.fromBytes(bytes);
+    const pricingMode = new PricingMode();
+
+    const getField = (index: number): Uint8Array => {
+      const field = calltable.getField(index);
+      if (!field) {
+        throw new Error(`Missing field ${index} in serialized PricingMode`);
+      }
+      return field;
+    };
+
+    const tag = CLValueUInt8.fromBytes(getField(0)).result.toNumber();
+
+    switch (tag) {
+      case 0: {
+        const paymentLimited = new PaymentLimitedMode();
+        paymentLimited.paymentAmount = CLValueUInt64.fromBytes(
+          getField(1)
+        ).result.toNumber();
+        paymentLimited.gasPriceTolerance = CLValueUInt8.fromBytes(
+          getField(2)
+        ).result.toNumber();
+        paymentLimited.standardPayment = CLValueBool.fromBytes(
+          getField(3)
+        ).result.getValue();
+        pricingMode.paymentLimited = paymentLimited;
+        return pricingMode;
+      }
+      case 1: {
+        const fixed = new FixedMode();
+        fixed.gasPriceTolerance = CLValueUInt8.fromBytes(
+          getField(1)
+        ).result.toNumber();
+        fixed.additionalComputationFactor = CLValueUInt8.fromBytes(
+          getField(2)
+        ).result.toNumber();
+        pricingMode.fixed = fixed;
+        return pricingMode;
+      }
+      case 2: {
+        const prepaid = new PrepaidMode();
+        prepaid.receipt = Hash.fromBytes(getField(1)).result;
+        pricingMode.prepaid = prepaid;
+        return pricingMode;
+      }
+      default:
+        throw new Error(`Unknown PricingMode tag: ${tag}`);
+    }
+  }
 }
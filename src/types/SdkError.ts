@@ -0,0 +1,10 @@
+/**
+ * Base class of the errors thrown by the SDK.
+ * Keeps `instanceof` working for its subclasses when compiled to ES5.
+ */
+export class SdkError extends Error {
+  constructor(message?: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
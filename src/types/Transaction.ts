@@ -1,14 +1,14 @@
 import { jsonObject, jsonMember, jsonArrayMember, TypedJSON } from 'typedjson';
 
 import { Hash } from './key';
-import { Deploy, serializeApprovals } from './Deploy';
+import { Deploy, deserializeApprovals, serializeApprovals } from './Deploy';
 import { Duration, Timestamp } from './Time';
 import { InitiatorAddr } from './InitiatorAddr';
 import { PricingMode } from './PricingMode';
 import { TransactionTarget } from './TransactionTarget';
 import { TransactionEntryPoint } from './TransactionEntryPoint';
 import { TransactionScheduling } from './TransactionScheduling';
-import { PublicKey, PrivateKey } from './keypair';
+import { PublicKey, PrivateKey, RAW_SIGNATURE_LENGTH, Signer } from './keypair';
 import { HexBytes } from './HexBytes';
 import { Args } from './Args';
 import { deserializeArgs, serializeArgs } from './SerializationUtils';
@@ -99,6 +99,31 @@ export class Approval {
     this.signer = signer;
     this.signature = signature;
   }
+
+  /**
+   * Creates an approval by having a `Signer` sign a deploy or transaction hash.
+   * Raw signatures are prefixed with the algorithm byte of the signer's public key.
+   * @param signer The signer approving the hash.
+   * @param hash The deploy or transaction hash.
+   * @returns A promise resolving to the verified approval.
+   * @throws {TransactionError} If the signature does not match the hash and public key of the signer.
+   */
+  static async fromSigner(signer: Signer, hash: Hash): Promise<Approval> {
+    const publicKey = await signer.getPublicKey();
+    let signature = await signer.signHash(hash.toBytes());
+
+    if (signature.length === RAW_SIGNATURE_LENGTH) {
+      signature = concat([Uint8Array.of(publicKey.cryptoAlg), signature]);
+    }
+
+    try {
+      publicKey.verifySignature(hash.toBytes(), signature);
+    } catch {
+      throw ErrInvalidApprovalSignature;
+    }
+
+    return new Approval(publicKey, new HexBytes(signature));
+  }
 }
 
 /**
@@ -182,6 +207,21 @@ export class TransactionV1 {
     this.approvals.push(new Approval(keys.publicKey, signature));
   }
 
+  /**
+   * Signs the transaction using the provided signer, e.g. a browser wallet or a remote signing service.
+   * @param signer The signer approving the transaction.
+   * @throws {TransactionError} If the signature returned by the signer is invalid.
+   */
+  async signWith(signer: Signer): Promise<void> {
+    const approval = await Approval.fromSigner(signer, this.hash);
+
+    if (!this.approvals) {
+      this.approvals = [];
+    }
+
+    this.approvals.push(approval);
+  }
+
   private static readonly  HASH_FIELD_INDEX = 0;
   private static readonly  PAYLOAD_FIELD_INDEX = 1;
   private static readonly  APPROVALS_FIELD_INDEX = 2;
@@ -198,6 +238,43 @@ export class TransactionV1 {
       .toBytes();
   }
 
+  /**
+   * Converts a byte array produced by `toBytes` back to a `TransactionV1` object.
+   * The transaction is not validated, call `validate` to check its hash and approval signatures.
+   * @param bytes The serialized `TransactionV1`.
+   * @returns A new `TransactionV1` instance.
+   * @throws {TransactionError} If any of the calltable fields is missing or has trailing bytes.
+   */
+  public static fromBytes(bytes: Uint8Array): TransactionV1 {
+    const calltable = CalltableSerialization.fromBytes(bytes);
+
+    const hashBytes = calltable.getField(TransactionV1.HASH_FIELD_INDEX);
+    const payloadBytes = calltable.getField(TransactionV1.PAYLOAD_FIELD_INDEX);
+    const approvalsBytes = calltable.getField(
+      TransactionV1.APPROVALS_FIELD_INDEX
+    );
+
+    if (!hashBytes || !payloadBytes || !approvalsBytes) {
+      throw new TransactionError(
+        'Failed to deserialize TransactionV1: missing calltable fields'
+      );
+    }
+
+    const approvals = deserializeApprovals(approvalsBytes);
+
+    if (approvals.bytes.length !== 0) {
+      throw new TransactionError(
+        'Failed to deserialize TransactionV1: unexpected trailing bytes in approvals'
+      );
+    }
+
+    return new TransactionV1(
+      Hash.fromBytes(hashBytes).result,
+      TransactionV1Payload.fromBytes(payloadBytes),
+      approvals.result
+    );
+  }
+
   /**
    * Sets an already generated signature to the transaction.
    * @param transaction The `TransactionV1` instance.
@@ -514,6 +591,16 @@ export class Transaction {
     this.setSignature(signatureBytes, key.publicKey);
   }
 
+  /**
+   * Signs the transaction using the provided signer, e.g. a browser wallet or a remote signing service.
+   * @param signer The signer approving the transaction.
+   * @throws {TransactionError} If the signature returned by the signer is invalid.
+   */
+  async signWith(signer: Signer): Promise<void> {
+    const approval = await Approval.fromSigner(signer, this.hash);
+    this.setSignature(approval.signature.bytes, approval.signer);
+  }
+
   /**
    * Sets an already generated signature to the transaction.
    * @param signature The Ed25519 or Secp256K1 signature.
@@ -552,6 +639,34 @@ export class Transaction {
     }
   }
 
+  /**
+   * Converts a byte array produced by `toBytes` back to a `Transaction` object.
+   * The first byte tells whether the transaction wraps a `Deploy` (0x00) or a `TransactionV1` (0x01).
+   * @param bytes The serialized `Transaction`.
+   * @returns A new `Transaction` instance.
+   * @throws {TransactionError} If the byte array is empty or the version tag is unknown.
+   */
+  static fromBytes(bytes: Uint8Array): Transaction {
+    if (bytes.length === 0) {
+      throw new TransactionError(
+        'Failed to deserialize Transaction: empty byte array'
+      );
+    }
+
+    switch (bytes[0]) {
+      case 0x00:
+        return Transaction.fromDeploy(Deploy.fromBytes(bytes.subarray(1)));
+      case 0x01:
+        return Transaction.fromTransactionV1(
+          TransactionV1.fromBytes(bytes.subarray(1))
+        );
+      default:
+        throw new TransactionError(
+          `Failed to deserialize Transaction: unknown version tag ${bytes[0]}`
+        );
+    }
+  }
+
   /**
    * Converts a `TransactionV1` to a `Transaction` object.
    * @param v1 The `TransactionV1` to convert.
@@ -17,7 +17,7 @@ import {
 } from './TransactionEntryPoint';
 import { TransactionScheduling } from './TransactionScheduling';
 import { Args } from './Args';
-import { PublicKey } from './keypair';
+import { PublicKey, Signer } from './keypair';
 import { AccountHash, ContractHash, Hash } from './key';
 import { Transaction, TransactionV1 } from './Transaction';
 import { TransactionV1Payload } from './TransactionV1Payload';
@@ -152,6 +152,19 @@ abstract class TransactionBuilder<T extends TransactionBuilder<T>> {
     const transactionV1 = TransactionV1.makeTransactionV1(transactionPayload);
     return Transaction.fromTransactionV1(transactionV1);
   }
+
+  /**
+   * Builds the Transaction instance and signs it with each of the given signers, in order.
+   */
+  public async buildAndSign(...signers: Signer[]): Promise<Transaction> {
+    const transaction = this.build();
+
+    for (const signer of signers) {
+      await transaction.signWith(signer);
+    }
+
+    return transaction;
+  }
 }
 
 /**
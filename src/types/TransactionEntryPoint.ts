@@ -264,22 +264,8 @@ export class TransactionEntryPoint {
         throw new Error('Missing custom entry point bytes for Custom type');
       }
 
-      const customSerialization = CalltableSerialization.fromBytes(customBytes);
-
-      const customFlag = customSerialization.getField(0);
-
-      if (!customFlag || customFlag[0] !== 1) {
-        throw new Error('Invalid flag for Custom type');
-      }
-
-      const customEntryPointBytes = customSerialization.getField(1);
-
-      if (!customEntryPointBytes) {
-        throw new Error('Invalid custom entry point bytes');
-      }
-
       const customEntryPoint = CLValueString.fromBytes(
-        customEntryPointBytes
+        customBytes
       ).result.toString();
 
       return new TransactionEntryPoint(type, customEntryPoint);
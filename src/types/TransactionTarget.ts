@@ -13,6 +13,7 @@ import {
 } from './clvalue';
 import { ExecutableDeployItem } from './ExecutableDeployItem';
 import { CalltableSerialization } from './CalltableSerialization';
+import { parseU32 } from './ByteConverters';
 import {
   byteArrayJsonDeserializer,
   byteArrayJsonSerializer
@@ -111,6 +112,33 @@ export class TransactionRuntime {
       .addField(TransactionRuntime.TAG_FIELD_INDEX, Uint8Array.of(this._tag))
       .toBytes();
   }
+
+  /**
+   * Deserializes a `TransactionRuntime` from its byte representation.
+   *
+   * @param bytes - The serialized transaction runtime.
+   * @returns A `TransactionRuntime` instance matching the serialized tag.
+   * @throws Will throw an error if the tag is missing or does not match known VM versions.
+   */
+  public static fromBytes(bytes: Uint8Array): TransactionRuntime {
+    const calltable = CalltableSerialization.fromBytes(bytes);
+    const tagBytes = calltable.getField(TransactionRuntime.TAG_FIELD_INDEX);
+
+    if (!tagBytes || tagBytes.length !== 1) {
+      throw new Error(
+        'Invalid or missing tag in serialized TransactionRuntime'
+      );
+    }
+
+    switch (tagBytes[0]) {
+      case TransactionRuntime.VM_CASPER_V1_TAG:
+        return TransactionRuntime.vmCasperV1();
+      case TransactionRuntime.VM_CASPER_V2_TAG:
+        return TransactionRuntime.vmCasperV2();
+      default:
+        throw new Error(`Unknown TransactionRuntime tag: ${tagBytes[0]}`);
+    }
+  }
 }
 
 /**
@@ -329,10 +357,12 @@ export class TransactionInvocationTarget {
         const version = CLValueOption.fromBytes(
           versionBytes,
           new CLTypeOption(CLTypeUInt32)
-        ).result.toString();
+        ).result;
         const byPackageHash = new ByPackageHashInvocationTarget();
         byPackageHash.addr = packageHash.result;
-        byPackageHash.version = BigNumber.from(version).toNumber();
+        byPackageHash.version = version.isEmpty()
+          ? undefined
+          : BigNumber.from(version.toString()).toNumber();
         invocationTarget.byPackageHash = byPackageHash;
         return invocationTarget;
       }
@@ -349,9 +379,11 @@ export class TransactionInvocationTarget {
         const version = CLValueOption.fromBytes(
           versionBytes,
           new CLTypeOption(CLTypeUInt32)
-        ).result.toString();
+        ).result;
         const byPackageName = new ByPackageNameInvocationTarget();
-        byPackageName.version = BigNumber.from(version).toNumber();
+        byPackageName.version = version.isEmpty()
+          ? undefined
+          : BigNumber.from(version.toString()).toNumber();
         byPackageName.name = name;
         invocationTarget.byPackageName = byPackageName;
         return invocationTarget;
@@ -516,6 +548,71 @@ export class TransactionTarget {
     );
   }
 
+  /**
+   * Deserializes a `TransactionTarget` from its byte representation.
+   *
+   * @param bytes - The serialized transaction target.
+   * @returns A `TransactionTarget` instance.
+   * @throws Error - If the byte array is invalid, missing required fields, or contains an unrecognized tag.
+   *
+   * ### Tags and Their Associated Targets:
+   * - `0`: Native target.
+   * - `1`: Stored target, with an invocation target and a runtime.
+   * - `2`: Session target, with an install/upgrade flag, a runtime and module bytes.
+   */
+  static fromBytes(bytes: Uint8Array): TransactionTarget {
+    const calltable = CalltableSerialization.fromBytes(bytes);
+
+    const tagBytes = calltable.getField(0);
+    if (!tagBytes || tagBytes.length !== 1) {
+      throw new Error('Invalid or missing tag in serialized TransactionTarget');
+    }
+    const tag = tagBytes[0];
+    const target = new TransactionTarget();
+
+    switch (tag) {
+      case 0:
+        target.native = {};
+        return target;
+
+      case 1: {
+        const idBytes = calltable.getField(1);
+        const runtimeBytes = calltable.getField(2);
+
+        if (!idBytes || !runtimeBytes) {
+          throw new Error('Missing fields for Stored target');
+        }
+
+        const stored = new StoredTarget();
+        stored.id = TransactionInvocationTarget.fromBytes(idBytes);
+        stored.runtime = TransactionRuntime.fromBytes(runtimeBytes);
+        target.stored = stored;
+        return target;
+      }
+
+      case 2: {
+        const isInstallUpgradeBytes = calltable.getField(1);
+        const runtimeBytes = calltable.getField(2);
+        const moduleBytes = calltable.getField(3);
+
+        if (!isInstallUpgradeBytes || !runtimeBytes || !moduleBytes) {
+          throw new Error('Missing fields for Session target');
+        }
+
+        const moduleBytesLength = parseU32(moduleBytes);
+        const session = new SessionTarget();
+        session.isInstallUpgrade = isInstallUpgradeBytes[0] === 1;
+        session.runtime = TransactionRuntime.fromBytes(runtimeBytes);
+        session.moduleBytes = moduleBytes.slice(4, 4 + moduleBytesLength);
+        target.session = session;
+        return target;
+      }
+
+      default:
+        throw new Error(`Unknown TransactionTarget tag: ${tag}`);
+    }
+  }
+
   /**
    * Deserializes a `TransactionTarget` from a JSON object.
    *
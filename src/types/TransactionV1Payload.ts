@@ -9,9 +9,11 @@ import { TransactionEntryPoint } from './TransactionEntryPoint';
 import { TransactionScheduling } from './TransactionScheduling';
 import { CalltableSerialization } from './CalltableSerialization';
 import { deserializeArgs, serializeArgs } from './SerializationUtils';
-import { CLValue } from './clvalue';
+import { CLValue, CLValueString, CLValueUInt64 } from './clvalue';
 import {
   expandBuffer,
+  parseU16,
+  parseU32,
   writeBytes,
   writeInteger,
   writeUShort
@@ -214,6 +216,63 @@ export class PayloadFields {
 
     return new Uint8Array(fieldsBytes, 0, offset);
   }
+
+  /**
+   * Deserializes the fields produced by `TransactionV1Payload.toBytes` back into a `PayloadFields` instance.
+   *
+   * The byte layout is the number of fields, followed by each field identifier (16-bit unsigned integer)
+   * and its length-prefixed value. The args, target, entry point and scheduling fields are required.
+   *
+   * @param bytes - The serialized payload fields.
+   * @returns A new `PayloadFields` instance.
+   * @throws Error if the byte array is truncated or any of the required fields are missing.
+   */
+  public static fromBytes(bytes: Uint8Array): PayloadFields {
+    const fieldsCount = parseU32(bytes);
+    let remainder = bytes.subarray(4);
+
+    const values = new Map<number, Uint8Array>();
+
+    for (let i = 0; i < fieldsCount; i++) {
+      const field = parseU16(remainder);
+      const valueLength = parseU32(remainder.subarray(2));
+      const valueEnd = 6 + valueLength;
+
+      if (remainder.length < valueEnd) {
+        throw new Error(
+          `Failed to deserialize PayloadFields: field ${field} is truncated.`
+        );
+      }
+
+      values.set(field, remainder.slice(6, valueEnd));
+      remainder = remainder.subarray(valueEnd);
+    }
+
+    const argsBytes = values.get(0);
+    const targetBytes = values.get(1);
+    const entryPointBytes = values.get(2);
+    const schedulingBytes = values.get(3);
+
+    if (!argsBytes || !targetBytes || !entryPointBytes || !schedulingBytes) {
+      throw new Error(
+        'Failed to deserialize PayloadFields: missing required fields.'
+      );
+    }
+
+    // Runtime args are prefixed with a tag, 0x00 stands for named args
+    if (argsBytes[0] !== 0x00) {
+      throw new Error(
+        `Failed to deserialize PayloadFields: unsupported args tag ${argsBytes[0]}.`
+      );
+    }
+
+    return PayloadFields.build(
+      Args.fromBytes(argsBytes.slice(1)),
+      TransactionTarget.fromBytes(targetBytes),
+      TransactionEntryPoint.fromBytes(entryPointBytes),
+      TransactionScheduling.fromBytes(schedulingBytes)
+    );
+  }
 }
 
 /**
@@ -364,6 +423,44 @@ export class TransactionV1Payload {
       .toBytes();
   }
 
+  /**
+   * Deserializes a `TransactionV1Payload` from its calltable byte representation.
+   *
+   * This is the inverse of `toBytes`, so the resulting payload serializes back to the exact same bytes
+   * and produces the same transaction hash.
+   *
+   * @param bytes - The serialized transaction payload.
+   * @returns A new `TransactionV1Payload` instance.
+   * @throws Error if any of the payload fields are missing or invalid.
+   */
+  public static fromBytes(bytes: Uint8Array): TransactionV1Payload {
+    const calltable = CalltableSerialization.fromBytes(bytes);
+
+    const getField = (index: number): Uint8Array => {
+      const field = calltable.getField(index);
+      if (!field) {
+        throw new Error(
+          `Failed to deserialize TransactionV1Payload: missing field ${index}.`
+        );
+      }
+      return field;
+    };
+
+    const payload = new TransactionV1Payload();
+    payload.initiatorAddr = InitiatorAddr.fromBytes(getField(0));
+    payload.timestamp = new Timestamp(
+      new Date(CLValueUInt64.fromBytes(getField(1)).result.toNumber())
+    );
+    payload.ttl = new Duration(
+      CLValueUInt64.fromBytes(getField(2)).result.toNumber()
+    );
+    payload.chainName = CLValueString.fromBytes(getField(3)).result.toString();
+    payload.pricingMode = PricingMode.fromBytes(getField(4));
+    payload.fields = PayloadFields.fromBytes(getField(5));
+
+    return payload;
+  }
+
   /**
    * Constructs a `TransactionV1Payload` instance with specified parameters.
    *
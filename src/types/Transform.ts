@@ -32,6 +32,7 @@ import {
 } from './TransformRaw';
 import { Contract } from './Contract';
 import { ContractPackage } from './ContractPackage';
+import { decodeTransform, TypedTransform } from './TypedTransform';
 
 /**
  * Represents different types of transformation that can be applied.
@@ -81,6 +82,26 @@ export class TransformKind {
     return this.data;
   }
 
+  /**
+   * Decodes the transformation into a `TypedTransform`, a discriminated union over
+   * every 1.x and 2.x transform, which can be narrowed by its `type`.
+   *
+   * @example
+   * ```ts
+   * const transform = transformKind.decode();
+   *
+   * if (transform.type === TransformType.WriteTransfer) {
+   *   console.log(transform.transfer.amount.toString());
+   * }
+   * ```
+   *
+   * @returns The decoded transform.
+   * @throws Error if the transformation is unknown or its payload is malformed.
+   */
+  public decode(): TypedTransform {
+    return decodeTransform(this.data);
+  }
+
   /**
    * Checks if the transformation is a WriteTransfer.
    *
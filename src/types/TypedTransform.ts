@@ -0,0 +1,500 @@
+import { TypedJSON } from 'typedjson';
+import { BigNumber } from '@ethersproject/bignumber';
+
+import { Account } from './Account';
+import { AddressableEntity } from './AddressableEntity';
+import { Bid } from './Bid';
+import { BidKind } from './BidKind';
+import { SystemByteCode } from './ByteCode';
+import { Contract } from './Contract';
+import { ContractPackage } from './ContractPackage';
+import { ContractWasm } from './ContractWasm';
+import { DeployInfo } from './DeployInfo';
+import { EntryPointValue } from './EntryPoint';
+import { EraInfo } from './EraInfo';
+import { MessageChecksum, MessageTopicSummary } from './MessageTopic';
+import { NamedKey, NamedKeyValue } from './NamedKey';
+import { Package } from './Package';
+import { PrepaymentKind } from './Prepayment';
+import { Transfer } from './Transfer';
+import { UnbondingPurse } from './UnbondingPurse';
+import { AccountHash, Key } from './key';
+import { CLValue, CLValueParser } from './clvalue';
+
+/**
+ * The discriminant of a `TypedTransform`, one per transform of the 1.x and 2.x execution effects.
+ * Writes are split by the variant of the written `StoredValue`.
+ */
+export enum TransformType {
+  Identity = 'Identity',
+  WriteCLValue = 'WriteCLValue',
+  WriteAccount = 'WriteAccount',
+  WriteContractWasm = 'WriteContractWasm',
+  WriteContract = 'WriteContract',
+  WriteContractPackage = 'WriteContractPackage',
+  WriteTransfer = 'WriteTransfer',
+  WriteDeployInfo = 'WriteDeployInfo',
+  WriteEraInfo = 'WriteEraInfo',
+  WriteBid = 'WriteBid',
+  WriteWithdraw = 'WriteWithdraw',
+  WriteUnbonding = 'WriteUnbonding',
+  WriteAddressableEntity = 'WriteAddressableEntity',
+  WriteBidKind = 'WriteBidKind',
+  WritePackage = 'WritePackage',
+  WriteByteCode = 'WriteByteCode',
+  WriteMessageTopic = 'WriteMessageTopic',
+  WriteMessage = 'WriteMessage',
+  WriteNamedKey = 'WriteNamedKey',
+  WritePrepayment = 'WritePrepayment',
+  WriteEntryPoint = 'WriteEntryPoint',
+  WriteRawBytes = 'WriteRawBytes',
+  AddInt32 = 'AddInt32',
+  AddUInt64 = 'AddUInt64',
+  AddUInt128 = 'AddUInt128',
+  AddUInt256 = 'AddUInt256',
+  AddUInt512 = 'AddUInt512',
+  AddKeys = 'AddKeys',
+  Prune = 'Prune',
+  Failure = 'Failure'
+}
+
+/**
+ * A transform leaving the value under the key unchanged, e.g. a read.
+ */
+export interface IdentityTransform {
+  type: TransformType.Identity;
+}
+
+export interface WriteCLValueTransform {
+  type: TransformType.WriteCLValue;
+  clValue: CLValue;
+}
+
+/**
+ * A written account. 1.x nodes only report the hash of the account.
+ */
+export interface WriteAccountTransform {
+  type: TransformType.WriteAccount;
+  accountHash: AccountHash;
+  account?: Account;
+}
+
+/**
+ * Written contract WASM. 1.x nodes do not report the written value.
+ */
+export interface WriteContractWasmTransform {
+  type: TransformType.WriteContractWasm;
+  contractWasm?: ContractWasm;
+}
+
+/**
+ * A written contract. 1.x nodes do not report the written value.
+ */
+export interface WriteContractTransform {
+  type: TransformType.WriteContract;
+  contract?: Contract;
+}
+
+/**
+ * A written contract package. 1.x nodes do not report the written value.
+ */
+export interface WriteContractPackageTransform {
+  type: TransformType.WriteContractPackage;
+  contractPackage?: ContractPackage;
+}
+
+export interface WriteTransferTransform {
+  type: TransformType.WriteTransfer;
+  transfer: Transfer;
+}
+
+export interface WriteDeployInfoTransform {
+  type: TransformType.WriteDeployInfo;
+  deployInfo: DeployInfo;
+}
+
+export interface WriteEraInfoTransform {
+  type: TransformType.WriteEraInfo;
+  eraInfo: EraInfo;
+}
+
+export interface WriteBidTransform {
+  type: TransformType.WriteBid;
+  bid: Bid;
+}
+
+export interface WriteWithdrawTransform {
+  type: TransformType.WriteWithdraw;
+  withdraws: UnbondingPurse[];
+}
+
+export interface WriteUnbondingTransform {
+  type: TransformType.WriteUnbonding;
+  unbondings: UnbondingPurse[];
+}
+
+export interface WriteAddressableEntityTransform {
+  type: TransformType.WriteAddressableEntity;
+  addressableEntity: AddressableEntity;
+}
+
+export interface WriteBidKindTransform {
+  type: TransformType.WriteBidKind;
+  bidKind: BidKind;
+}
+
+export interface WritePackageTransform {
+  type: TransformType.WritePackage;
+  package: Package;
+}
+
+export interface WriteByteCodeTransform {
+  type: TransformType.WriteByteCode;
+  byteCode: SystemByteCode;
+}
+
+export interface WriteMessageTopicTransform {
+  type: TransformType.WriteMessageTopic;
+  messageTopic: MessageTopicSummary;
+}
+
+export interface WriteMessageTransform {
+  type: TransformType.WriteMessage;
+  messageChecksum: MessageChecksum;
+}
+
+export interface WriteNamedKeyTransform {
+  type: TransformType.WriteNamedKey;
+  namedKey: NamedKeyValue;
+}
+
+export interface WritePrepaymentTransform {
+  type: TransformType.WritePrepayment;
+  prepayment: PrepaymentKind;
+}
+
+export interface WriteEntryPointTransform {
+  type: TransformType.WriteEntryPoint;
+  entryPoint: EntryPointValue;
+}
+
+export interface WriteRawBytesTransform {
+  type: TransformType.WriteRawBytes;
+  rawBytes: string;
+}
+
+export interface AddInt32Transform {
+  type: TransformType.AddInt32;
+  value: number;
+}
+
+/**
+ * The addition of an unsigned integer to the value under the key.
+ */
+export interface AddUIntTransform<
+  T extends
+    | TransformType.AddUInt64
+    | TransformType.AddUInt128
+    | TransformType.AddUInt256
+    | TransformType.AddUInt512
+> {
+  type: T;
+  value: BigNumber;
+}
+
+/**
+ * The named keys added to an account or contract.
+ */
+export interface AddKeysTransform {
+  type: TransformType.AddKeys;
+  namedKeys: NamedKey[];
+}
+
+/**
+ * The removal of the value under the given key.
+ */
+export interface PruneTransform {
+  type: TransformType.Prune;
+  key: Key;
+}
+
+/**
+ * A transform which failed to apply, with the error reported by the node.
+ * Structured 2.x errors are serialized to JSON.
+ */
+export interface FailureTransform {
+  type: TransformType.Failure;
+  error: string;
+}
+
+/**
+ * A transform kind decoded into its type and strongly typed payload, see `TransformKind.decode()`.
+ *
+ * @example
+ * ```ts
+ * const transform = effect.kind.decode();
+ *
+ * switch (transform.type) {
+ *   case TransformType.WriteTransfer:
+ *     console.log(transform.transfer.amount.toString());
+ *     break;
+ *   case TransformType.AddUInt512:
+ *     console.log(transform.value.toString());
+ *     break;
+ * }
+ * ```
+ */
+export type TypedTransform =
+  | IdentityTransform
+  | WriteCLValueTransform
+  | WriteAccountTransform
+  | WriteContractWasmTransform
+  | WriteContractTransform
+  | WriteContractPackageTransform
+  | WriteTransferTransform
+  | WriteDeployInfoTransform
+  | WriteEraInfoTransform
+  | WriteBidTransform
+  | WriteWithdrawTransform
+  | WriteUnbondingTransform
+  | WriteAddressableEntityTransform
+  | WriteBidKindTransform
+  | WritePackageTransform
+  | WriteByteCodeTransform
+  | WriteMessageTopicTransform
+  | WriteMessageTransform
+  | WriteNamedKeyTransform
+  | WritePrepaymentTransform
+  | WriteEntryPointTransform
+  | WriteRawBytesTransform
+  | AddInt32Transform
+  | AddUIntTransform<TransformType.AddUInt64>
+  | AddUIntTransform<TransformType.AddUInt128>
+  | AddUIntTransform<TransformType.AddUInt256>
+  | AddUIntTransform<TransformType.AddUInt512>
+  | AddKeysTransform
+  | PruneTransform
+  | FailureTransform;
+
+const parseAs = <T>(
+  json: any,
+  type: new (...args: any[]) => T,
+  name: string
+): T => {
+  const parsed = new TypedJSON(type).parse(json);
+
+  if (!parsed) {
+    throw new Error(`Error parsing transform as ${name}`);
+  }
+
+  return parsed;
+};
+
+const parseArrayAs = <T>(
+  json: any,
+  type: new (...args: any[]) => T,
+  name: string
+): T[] => {
+  if (!Array.isArray(json)) {
+    throw new Error(`Error parsing transform as ${name}`);
+  }
+
+  return new TypedJSON(type).parseAsArray(json);
+};
+
+/**
+ * Decoders of the values written by 2.x `Write` transforms, by `StoredValue` variant.
+ */
+const storedValueDecoders: Record<string, (json: any) => TypedTransform> = {
+  CLValue: json => ({
+    type: TransformType.WriteCLValue,
+    clValue: CLValueParser.fromJSON(json)
+  }),
+  Account: json => {
+    const account = parseAs(json, Account, 'Account');
+    return {
+      type: TransformType.WriteAccount,
+      accountHash: account.accountHash,
+      account
+    };
+  },
+  ContractWasm: json => ({
+    type: TransformType.WriteContractWasm,
+    contractWasm: parseAs(json, ContractWasm, 'ContractWasm')
+  }),
+  Contract: json => ({
+    type: TransformType.WriteContract,
+    contract: parseAs(json, Contract, 'Contract')
+  }),
+  ContractPackage: json => ({
+    type: TransformType.WriteContractPackage,
+    contractPackage: parseAs(json, ContractPackage, 'ContractPackage')
+  }),
+  Transfer: json => ({
+    type: TransformType.WriteTransfer,
+    transfer: Transfer.fromJSON(json)
+  }),
+  DeployInfo: json => ({
+    type: TransformType.WriteDeployInfo,
+    deployInfo: parseAs(json, DeployInfo, 'DeployInfo')
+  }),
+  EraInfo: json => ({
+    type: TransformType.WriteEraInfo,
+    eraInfo: parseAs(json, EraInfo, 'EraInfo')
+  }),
+  Bid: json => ({
+    type: TransformType.WriteBid,
+    bid: parseAs(json, Bid, 'Bid')
+  }),
+  Withdraw: json => ({
+    type: TransformType.WriteWithdraw,
+    withdraws: parseArrayAs(json, UnbondingPurse, 'Withdraw')
+  }),
+  Unbonding: json => ({
+    type: TransformType.WriteUnbonding,
+    unbondings: Array.isArray(json)
+      ? parseArrayAs(json, UnbondingPurse, 'Unbonding')
+      : [parseAs(json, UnbondingPurse, 'Unbonding')]
+  }),
+  AddressableEntity: json => ({
+    type: TransformType.WriteAddressableEntity,
+    addressableEntity: parseAs(json, AddressableEntity, 'AddressableEntity')
+  }),
+  BidKind: json => ({
+    type: TransformType.WriteBidKind,
+    bidKind: parseAs(json, BidKind, 'BidKind')
+  }),
+  Package: json => ({
+    type: TransformType.WritePackage,
+    package: parseAs(json, Package, 'Package')
+  }),
+  ByteCode: json => ({
+    type: TransformType.WriteByteCode,
+    byteCode: parseAs(json, SystemByteCode, 'ByteCode')
+  }),
+  MessageTopic: json => ({
+    type: TransformType.WriteMessageTopic,
+    messageTopic: parseAs(json, MessageTopicSummary, 'MessageTopic')
+  }),
+  Message: json => ({
+    type: TransformType.WriteMessage,
+    messageChecksum: json
+  }),
+  NamedKey: json => ({
+    type: TransformType.WriteNamedKey,
+    namedKey: parseAs(json, NamedKeyValue, 'NamedKey')
+  }),
+  Prepayment: json => ({
+    type: TransformType.WritePrepayment,
+    prepayment: parseAs(json, PrepaymentKind, 'Prepayment')
+  }),
+  EntryPoint: json => ({
+    type: TransformType.WriteEntryPoint,
+    entryPoint: parseAs(json, EntryPointValue, 'EntryPoint')
+  }),
+  RawBytes: json => ({
+    type: TransformType.WriteRawBytes,
+    rawBytes: json
+  })
+};
+
+// The names the node uses in the JSON of some `StoredValue` variants
+storedValueDecoders.LegacyTransfer = storedValueDecoders.Transfer;
+storedValueDecoders.SmartContract = storedValueDecoders.Package;
+
+/**
+ * Decoders of the transforms carrying a payload, by their name in the JSON of 1.x and 2.x effects.
+ */
+const transformDecoders: Record<string, (json: any) => TypedTransform> = {
+  Write: json => {
+    const [variant] = Object.keys(json ?? {});
+    const decode = variant ? storedValueDecoders[variant] : undefined;
+
+    if (!decode) {
+      throw new Error(`Unknown stored value in Write transform: ${variant}`);
+    }
+
+    return decode(json[variant]);
+  },
+  WriteCLValue: storedValueDecoders.CLValue,
+  WriteAccount: json => ({
+    type: TransformType.WriteAccount,
+    accountHash: AccountHash.fromJSON(json)
+  }),
+  WriteTransfer: storedValueDecoders.Transfer,
+  WriteDeployInfo: storedValueDecoders.DeployInfo,
+  WriteEraInfo: storedValueDecoders.EraInfo,
+  WriteBid: storedValueDecoders.Bid,
+  WriteWithdraw: storedValueDecoders.Withdraw,
+  WriteUnbonding: storedValueDecoders.Unbonding,
+  AddInt32: json => ({
+    type: TransformType.AddInt32,
+    value: Number(json)
+  }),
+  AddUInt64: json => ({
+    type: TransformType.AddUInt64,
+    value: BigNumber.from(json)
+  }),
+  AddUInt128: json => ({
+    type: TransformType.AddUInt128,
+    value: BigNumber.from(json)
+  }),
+  AddUInt256: json => ({
+    type: TransformType.AddUInt256,
+    value: BigNumber.from(json)
+  }),
+  AddUInt512: json => ({
+    type: TransformType.AddUInt512,
+    value: BigNumber.from(json)
+  }),
+  AddKeys: json => ({
+    type: TransformType.AddKeys,
+    namedKeys: parseArrayAs(json, NamedKey, 'AddKeys')
+  }),
+  Prune: json => ({
+    type: TransformType.Prune,
+    key: Key.newKey(json)
+  }),
+  Failure: json => ({
+    type: TransformType.Failure,
+    error: typeof json === 'string' ? json : JSON.stringify(json)
+  })
+};
+
+/**
+ * The transforms without a payload, serialized as a bare string.
+ */
+const unitTransforms: Record<string, TypedTransform> = {
+  Identity: { type: TransformType.Identity },
+  WriteContractWasm: { type: TransformType.WriteContractWasm },
+  WriteContract: { type: TransformType.WriteContract },
+  WriteContractPackage: { type: TransformType.WriteContractPackage }
+};
+
+/**
+ * Decodes the JSON of a 1.x or 2.x transform kind into a `TypedTransform`.
+ *
+ * @param data - The JSON of the transform kind, e.g. `"Identity"` or `{ "AddUInt512": "100" }`.
+ * @returns The decoded transform.
+ * @throws Error if the transform kind is unknown or its payload is malformed.
+ */
+export const decodeTransform = (data: any): TypedTransform => {
+  if (typeof data === 'string') {
+    const transform = unitTransforms[data];
+
+    if (!transform) {
+      throw new Error(`Unknown transform kind: ${data}`);
+    }
+
+    return { ...transform };
+  }
+
+  const [name] = Object.keys(data ?? {});
+  const decode = name ? transformDecoders[name] : undefined;
+
+  if (!decode) {
+    throw new Error(`Unknown transform kind: ${name}`);
+  }
+
+  return decode(data[name]);
+};
@@ -6,6 +6,7 @@ import {
   CLTypeBool,
   CLTypeByteArray,
   CLTypeDynamic,
+  CLTypeEnum,
   CLTypeInt32,
   CLTypeInt64,
   CLTypeKey,
@@ -15,6 +16,7 @@ import {
   CLTypePublicKey,
   CLTypeResult,
   CLTypeString,
+  CLTypeStruct,
   CLTypeTuple1,
   CLTypeTuple2,
   CLTypeTuple3,
@@ -52,6 +54,8 @@ import { CLValueTuple1 } from './Tuple1';
 import { CLValueTuple2 } from './Tuple2';
 import { CLValueTuple3 } from './Tuple3';
 import { CLValueAny } from './Any';
+import { CLValueEnum, CLValueStruct } from './Custom';
+import { CLNativeValue, CLValueCodec } from './Codec';
 
 /**
  * Interface representing a value that can be converted to bytes and a string.
@@ -97,6 +101,8 @@ export class CLValue {
   public tuple3?: CLValueTuple3;
   public any?: CLValueAny;
   public publicKey?: PublicKey;
+  public struct?: CLValueStruct;
+  public enumVal?: CLValueEnum;
 
   /**
    * Initializes a new CLValue instance.
@@ -126,6 +132,16 @@ export class CLValue {
     return this.getValueByType().toJSON();
   }
 
+  /**
+   * Converts the CLValue to native JavaScript values, recursively.
+   * Integers wider than 32 bits become `bigint`s, byte arrays `Uint8Array`s, maps `Map`s and tuples arrays,
+   * while `Key`, `URef` and `PublicKey` values are kept. See `CLNativeValue` for every type.
+   * @returns The native value.
+   */
+  public toNative(): CLNativeValue {
+    return CLValueCodec.decode(this);
+  }
+
   /**
    * Converts the CLValue to its byte representation.
    * @returns A Uint8Array representing the bytes of the value.
@@ -187,6 +203,8 @@ export class CLValue {
         return this.any!;
       case TypeID.PublicKey:
         return this.publicKey!;
+      case TypeID.Custom:
+        return this.struct ?? this.enumVal!;
       default:
         throw new Error(
           'Type in getValueByType method of CLValue is not implemented'
@@ -208,6 +226,26 @@ export class CLValue {
     return this.key;
   }
 
+  /**
+   * Creates a CLValue of the given type from native JavaScript values, the inverse of `toNative`.
+   * @param value - The native value, in any of the forms accepted by `CLValueCodec.encode`.
+   * @param clType - The CLType of the value.
+   * @returns A new CLValue instance.
+   * @throws {CLValueCodecError} If the value or one of its nested values doesn't match its type.
+   *
+   * @example
+   * ```typescript
+   * const value = CLValue.fromNative(
+   *   new Map([['alice', 2500000000n]]),
+   *   new CLTypeMap(CLTypeString, CLTypeUInt512)
+   * );
+   * value.toNative(); // Map { 'alice' => 2500000000n }
+   * ```
+   */
+  public static fromNative(value: unknown, clType: CLType): CLValue {
+    return CLValueCodec.encode(value, clType);
+  }
+
   /**
    * Creates a new CLValue instance containing a Key value.
    * @param data - The Key to be stored in the CLValue.
@@ -252,6 +290,40 @@ export class CLValue {
     return res;
   }
 
+  /**
+   * Creates a new CLValue instance containing a user-defined struct value.
+   * @param clType - The struct type.
+   * @param fields - The values of the fields, by name.
+   * @returns A new CLValue instance encapsulating the struct value.
+   * @throws Error if a field is missing, unknown or of another type.
+   */
+  public static newCLStruct(
+    clType: CLTypeStruct,
+    fields: Record<string, CLValue>
+  ): CLValue {
+    const res = new CLValue(clType);
+    res.struct = new CLValueStruct(clType, fields);
+    return res;
+  }
+
+  /**
+   * Creates a new CLValue instance containing a user-defined enum value.
+   * @param clType - The enum type.
+   * @param variant - The name of the variant.
+   * @param fields - (Optional) The values of the fields of the variant, by name.
+   * @returns A new CLValue instance encapsulating the enum value.
+   * @throws Error if the variant is unknown, or a field is missing, unknown or of another type.
+   */
+  public static newCLEnum(
+    clType: CLTypeEnum,
+    variant: string,
+    fields: Record<string, CLValue> = {}
+  ): CLValue {
+    const res = new CLValue(clType);
+    res.enumVal = new CLValueEnum(clType, variant, fields);
+    return res;
+  }
+
   /**
    * Creates a new CLValue instance containing a boolean value.
    * @param val - The boolean value to be stored in the CLValue.
@@ -0,0 +1,673 @@
+import { BigNumber } from '@ethersproject/bignumber';
+
+import { CLValue } from './CLValue';
+import {
+  CLType,
+  CLTypeByteArray,
+  CLTypeDynamic,
+  CLTypeEnum,
+  CLTypeField,
+  CLTypeList,
+  CLTypeMap,
+  CLTypeOption,
+  CLTypeResult,
+  CLTypeStruct,
+  CLTypeTuple1,
+  CLTypeTuple2,
+  CLTypeTuple3,
+  TypeID
+} from './cltype';
+import {
+  CLValueInt32,
+  CLValueInt64,
+  CLValueUInt128,
+  CLValueUInt256,
+  CLValueUInt32,
+  CLValueUInt512,
+  CLValueUInt64,
+  CLValueUInt8
+} from './Numeric';
+import { CLValueAny } from './Any';
+import { CLValueBool } from './Bool';
+import { CLValueByteArray } from './ByteArray';
+import { CLValueList } from './List';
+import { CLValueMap } from './Map';
+import { CLValueOption } from './Option';
+import { CLValueResult } from './Result';
+import { CLValueString } from './String';
+import { CLValueTuple1 } from './Tuple1';
+import { CLValueTuple2 } from './Tuple2';
+import { CLValueTuple3 } from './Tuple3';
+import { CLValueUnit } from './Unit';
+import { CLValueEnum, CLValueStruct } from './Custom';
+import { Key, URef } from '../key';
+import { PublicKey } from '../keypair';
+import { Conversions } from '../Conversions';
+import { SdkError } from '../SdkError';
+
+/**
+ * The native JavaScript form of a `CLValue`, as returned by `CLValueCodec.decode`.
+ *
+ * - `Bool` is a `boolean`, `String` a `string` and `Unit` is `null`.
+ * - `I32`, `U8` and `U32` are `number`s, wider integers are `bigint`s.
+ * - `Key`, `URef` and `PublicKey` are kept as SDK objects.
+ * - `ByteArray` and `Any` are `Uint8Array`s.
+ * - `Option` is its inner value or `null` for `None`.
+ * - `List` and tuples are arrays, `Map` is a `Map` and `Result` is `{ ok }` or `{ err }`.
+ * - User-defined structs are objects of their fields, and enums `{ Variant: { ...fields } }`.
+ */
+export type CLNativeValue =
+  | boolean
+  | number
+  | bigint
+  | string
+  | null
+  | Uint8Array
+  | Key
+  | URef
+  | PublicKey
+  | CLNativeValue[]
+  | Map<CLNativeValue, CLNativeValue>
+  | { ok: CLNativeValue }
+  | { err: CLNativeValue }
+  | { [name: string]: CLNativeValue };
+
+/**
+ * Error thrown when a value doesn't match its `CLType`, with the path of the value,
+ * e.g. `args.recipients[3][1]: expected U512, got string "ten"`.
+ */
+export class CLValueCodecError extends SdkError {
+  /**
+   * @param path - The path of the invalid value.
+   * @param reason - Why the value is invalid.
+   */
+  constructor(public path: string, public reason: string) {
+    super(`${path}: ${reason}`);
+    this.name = 'CLValueCodecError';
+  }
+}
+
+const unsignedMax = (bits: number) =>
+  BigNumber.from(2)
+    .pow(bits)
+    .sub(1);
+
+const signedRange = (bits: number): [BigNumber, BigNumber] => [
+  BigNumber.from(2)
+    .pow(bits - 1)
+    .mul(-1),
+  BigNumber.from(2)
+    .pow(bits - 1)
+    .sub(1)
+];
+
+/**
+ * The ranges of the numeric types, and how their values are set on a `CLValue`.
+ */
+const numericTypes: Partial<Record<
+  TypeID,
+  {
+    range: [BigNumber, BigNumber];
+    assign: (clValue: CLValue, value: BigNumber) => void;
+  }
+>> = {
+  [TypeID.I32]: {
+    range: signedRange(32),
+    assign: (clValue, value) => {
+      clValue.i32 = new CLValueInt32(value);
+    }
+  },
+  [TypeID.I64]: {
+    range: signedRange(64),
+    assign: (clValue, value) => {
+      clValue.i64 = new CLValueInt64(value);
+    }
+  },
+  [TypeID.U8]: {
+    range: [BigNumber.from(0), unsignedMax(8)],
+    assign: (clValue, value) => {
+      clValue.ui8 = new CLValueUInt8(value);
+    }
+  },
+  [TypeID.U32]: {
+    range: [BigNumber.from(0), unsignedMax(32)],
+    assign: (clValue, value) => {
+      clValue.ui32 = new CLValueUInt32(value);
+    }
+  },
+  [TypeID.U64]: {
+    range: [BigNumber.from(0), unsignedMax(64)],
+    assign: (clValue, value) => {
+      clValue.ui64 = new CLValueUInt64(value);
+    }
+  },
+  [TypeID.U128]: {
+    range: [BigNumber.from(0), unsignedMax(128)],
+    assign: (clValue, value) => {
+      clValue.ui128 = new CLValueUInt128(value);
+    }
+  },
+  [TypeID.U256]: {
+    range: [BigNumber.from(0), unsignedMax(256)],
+    assign: (clValue, value) => {
+      clValue.ui256 = new CLValueUInt256(value);
+    }
+  },
+  [TypeID.U512]: {
+    range: [BigNumber.from(0), unsignedMax(512)],
+    assign: (clValue, value) => {
+      clValue.ui512 = new CLValueUInt512(value);
+    }
+  }
+};
+
+const describe = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return `an array of ${value.length} items`;
+  }
+  if (value instanceof Uint8Array) {
+    return `${value.length} bytes`;
+  }
+  if (value instanceof Map) {
+    return 'a Map';
+  }
+  if (typeof value === 'string') {
+    return `string ${JSON.stringify(value)}`;
+  }
+  if (typeof value === 'object') {
+    return 'an object';
+  }
+  return `${typeof value} ${String(value)}`;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+const toBigNumber = (value: unknown): BigNumber | undefined => {
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) ? BigNumber.from(value) : undefined;
+  }
+  if (typeof value === 'bigint') {
+    return BigNumber.from(value.toString());
+  }
+  if (typeof value === 'string') {
+    return /^-?\d+$/.test(value) || /^0x[0-9a-fA-F]+$/.test(value)
+      ? BigNumber.from(value)
+      : undefined;
+  }
+  return BigNumber.isBigNumber(value) ? value : undefined;
+};
+
+const toBytes = (value: unknown): Uint8Array | undefined => {
+  if (value instanceof Uint8Array) {
+    return value;
+  }
+  if (typeof value === 'string' && /^([0-9a-fA-F]{2})*$/.test(value)) {
+    return Conversions.decodeBase16(value);
+  }
+  return undefined;
+};
+
+/**
+ * Returns the elements of a tuple given as an array or as an object indexed from `0`.
+ */
+const tupleElements = (value: unknown, size: number): unknown[] | undefined => {
+  if (Array.isArray(value)) {
+    return value.length === size ? value : undefined;
+  }
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value);
+    const indexes = Array.from({ length: size }, (_, i) => String(i));
+
+    return keys.length === size && indexes.every(i => i in value)
+      ? indexes.map(i => value[i])
+      : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Returns the entries of a map given as a `Map` or, for string-convertible keys, a plain object.
+ */
+const mapEntries = (value: unknown): [unknown, unknown][] | undefined => {
+  if (value instanceof Map) {
+    return Array.from(value.entries());
+  }
+  if (isPlainObject(value)) {
+    return Object.keys(value).map(key => [key, value[key]]);
+  }
+  return undefined;
+};
+
+const mapKeyPath = (path: string, key: unknown) =>
+  `${path}[${typeof key === 'string' ? JSON.stringify(key) : String(key)}]`;
+
+/**
+ * Encodes the fields of a struct or enum variant given as a plain object, each at `path.field`.
+ */
+const encodeFields = (
+  value: Record<string, unknown>,
+  fields: CLTypeField[],
+  path: string
+): Record<string, CLValue> => {
+  Object.keys(value).forEach(name => {
+    if (!fields.some(field => field.name === name)) {
+      throw new CLValueCodecError(`${path}.${name}`, 'unknown field');
+    }
+  });
+
+  const values: Record<string, CLValue> = {};
+  fields.forEach(({ name, type }) => {
+    values[name] = CLValueCodec.encode(value[name], type, `${path}.${name}`);
+  });
+  return values;
+};
+
+const decodeFields = (fields: Map<string, CLValue>) => {
+  const native: { [name: string]: CLNativeValue } = {};
+  fields.forEach((value, name) => {
+    native[name] = CLValueCodec.decode(value);
+  });
+  return native;
+};
+
+const parseWith = <T>(
+  path: string,
+  type: CLType,
+  value: string,
+  parse: (source: string) => T
+): T => {
+  try {
+    return parse(value);
+  } catch (err) {
+    throw new CLValueCodecError(
+      path,
+      `expected ${type.toString()}, got ${describe(value)} (${err.message})`
+    );
+  }
+};
+
+/**
+ * Converts native JavaScript values to `CLValue`s of a given `CLType` and back,
+ * validating every nested value against its type.
+ *
+ * Values are accepted in these forms:
+ * - Numeric types: safe integer `number`s, `bigint`s, decimal or `0x` hex strings and `BigNumber`s, within the range of the type.
+ * - `Key`, `URef` and `PublicKey`: SDK objects or their string forms.
+ * - `ByteArray` and `Any`: `Uint8Array`s or hex strings; `List<U8>` also accepts a `Uint8Array`.
+ * - `Option`: `null` or `undefined` for `None`, otherwise the inner value.
+ * - `Map`: a `Map`, or a plain object when the keys can be parsed from strings.
+ * - Tuples: arrays, or objects indexed from `0`.
+ * - `Result`: `{ ok: value }` or `{ err: value }`.
+ * - `Unit`: `null` or `undefined`.
+ * - User-defined structs: plain objects of their fields.
+ * - User-defined enums: `{ Variant: { ...fields } }`, or the name of the variant when it has no fields.
+ *
+ * Invalid values throw a `CLValueCodecError` with the path of the value.
+ *
+ * @example
+ * ```ts
+ * const type = new CLTypeList(new CLTypeTuple2(CLTypeKey, CLTypeUInt512));
+ * const recipients = CLValueCodec.encode(
+ *   [[`account-hash-${hash}`, 2_500_000_000n]],
+ *   type,
+ *   'recipients'
+ * );
+ *
+ * CLValueCodec.decode(recipients); // [[Key, 2500000000n]]
+ * ```
+ */
+export class CLValueCodec {
+  /**
+   * Converts a native value to a `CLValue` of the given type.
+   * @param value - The native value.
+   * @param type - The `CLType` of the value.
+   * @param path - (Optional) The path of the value, used in error messages. Defaults to `value`.
+   * @returns The `CLValue`, holding the given type.
+   * @throws {CLValueCodecError} If the value or one of its nested values doesn't match its type.
+   */
+  static encode(value: unknown, type: CLType, path = 'value'): CLValue {
+    if (type instanceof CLTypeDynamic) {
+      return CLValueCodec.encode(value, type.inner, path);
+    }
+
+    const typeID = type.getTypeID();
+    const mismatch = (detail?: string) =>
+      new CLValueCodecError(
+        path,
+        `expected ${type.toString()}, got ${describe(value)}${
+          detail ? ` (${detail})` : ''
+        }`
+      );
+    const result = new CLValue(type);
+
+    const numeric = numericTypes[typeID];
+    if (numeric) {
+      const number = toBigNumber(value);
+      if (!number) {
+        throw mismatch();
+      }
+
+      const [min, max] = numeric.range;
+      if (number.lt(min) || number.gt(max)) {
+        throw mismatch('out of range');
+      }
+
+      numeric.assign(result, number);
+      return result;
+    }
+
+    switch (typeID) {
+      case TypeID.Bool:
+        if (typeof value !== 'boolean') {
+          throw mismatch();
+        }
+        result.bool = new CLValueBool(value);
+        return result;
+      case TypeID.String:
+        if (typeof value !== 'string') {
+          throw mismatch();
+        }
+        result.stringVal = new CLValueString(value);
+        return result;
+      case TypeID.Unit:
+        if (value !== null && value !== undefined) {
+          throw mismatch();
+        }
+        result.unit = new CLValueUnit();
+        return result;
+      case TypeID.Key:
+        if (value instanceof Key) {
+          result.key = value;
+        } else if (typeof value === 'string') {
+          result.key = parseWith(path, type, value, source =>
+            Key.newKey(source)
+          );
+        } else {
+          throw mismatch();
+        }
+        return result;
+      case TypeID.URef:
+        if (value instanceof URef) {
+          result.uref = value;
+        } else if (typeof value === 'string') {
+          result.uref = parseWith(path, type, value, source =>
+            URef.fromString(source)
+          );
+        } else {
+          throw mismatch();
+        }
+        return result;
+      case TypeID.PublicKey:
+        if (value instanceof PublicKey) {
+          result.publicKey = value;
+        } else if (typeof value === 'string') {
+          result.publicKey = parseWith(path, type, value, source =>
+            PublicKey.fromHex(source)
+          );
+        } else {
+          throw mismatch();
+        }
+        return result;
+      case TypeID.ByteArray: {
+        const bytes = toBytes(value);
+        const size = (type as CLTypeByteArray).size;
+        if (!bytes) {
+          throw mismatch();
+        }
+        if (bytes.length !== size) {
+          throw mismatch(`expected ${size} bytes`);
+        }
+        result.byteArray = new CLValueByteArray(bytes);
+        return result;
+      }
+      case TypeID.Any: {
+        const bytes = toBytes(value);
+        if (!bytes) {
+          throw mismatch();
+        }
+        result.any = new CLValueAny(bytes);
+        return result;
+      }
+      case TypeID.Option: {
+        const optionType = type as CLTypeOption;
+        const inner =
+          value === null || value === undefined
+            ? null
+            : CLValueCodec.encode(value, optionType.inner, path);
+        result.option = new CLValueOption(inner, optionType);
+        return result;
+      }
+      case TypeID.List: {
+        const listType = type as CLTypeList;
+        const elements =
+          value instanceof Uint8Array &&
+          listType.elementsType.getTypeID() === TypeID.U8
+            ? Array.from(value)
+            : value;
+        if (!Array.isArray(elements)) {
+          throw mismatch();
+        }
+        result.list = new CLValueList(
+          listType,
+          elements.map((element, i) =>
+            CLValueCodec.encode(element, listType.elementsType, `${path}[${i}]`)
+          )
+        );
+        return result;
+      }
+      case TypeID.Map: {
+        const mapType = type as CLTypeMap;
+        const entries = mapEntries(value);
+        if (!entries) {
+          throw mismatch();
+        }
+        result.map = new CLValueMap(mapType);
+        entries.forEach(([key, val]) => {
+          const entryPath = mapKeyPath(path, key);
+          const error = result.map!.append(
+            CLValueCodec.encode(key, mapType.key, entryPath),
+            CLValueCodec.encode(val, mapType.val, entryPath)
+          );
+          if (error) {
+            throw new CLValueCodecError(entryPath, error.message);
+          }
+        });
+        return result;
+      }
+      case TypeID.Result: {
+        const resultType = type as CLTypeResult;
+        if (!isPlainObject(value) || Object.keys(value).length !== 1) {
+          throw mismatch('expected { ok } or { err }');
+        }
+        if ('ok' in value) {
+          result.result = new CLValueResult(
+            resultType,
+            true,
+            CLValueCodec.encode(value.ok, resultType.innerOk, `${path}.ok`)
+          );
+        } else if ('err' in value) {
+          result.result = new CLValueResult(
+            resultType,
+            false,
+            CLValueCodec.encode(value.err, resultType.innerErr, `${path}.err`)
+          );
+        } else {
+          throw mismatch('expected { ok } or { err }');
+        }
+        return result;
+      }
+      case TypeID.Tuple1: {
+        const tupleType = type as CLTypeTuple1;
+        const elements = tupleElements(value, 1);
+        if (!elements) {
+          throw mismatch();
+        }
+        result.tuple1 = new CLValueTuple1(
+          tupleType,
+          CLValueCodec.encode(elements[0], tupleType.inner, `${path}[0]`)
+        );
+        return result;
+      }
+      case TypeID.Tuple2: {
+        const tupleType = type as CLTypeTuple2;
+        const elements = tupleElements(value, 2);
+        if (!elements) {
+          throw mismatch();
+        }
+        result.tuple2 = new CLValueTuple2(
+          tupleType,
+          CLValueCodec.encode(elements[0], tupleType.inner1, `${path}[0]`),
+          CLValueCodec.encode(elements[1], tupleType.inner2, `${path}[1]`)
+        );
+        return result;
+      }
+      case TypeID.Tuple3: {
+        const tupleType = type as CLTypeTuple3;
+        const elements = tupleElements(value, 3);
+        if (!elements) {
+          throw mismatch();
+        }
+        result.tuple3 = new CLValueTuple3(
+          tupleType,
+          CLValueCodec.encode(elements[0], tupleType.inner1, `${path}[0]`),
+          CLValueCodec.encode(elements[1], tupleType.inner2, `${path}[1]`),
+          CLValueCodec.encode(elements[2], tupleType.inner3, `${path}[2]`)
+        );
+        return result;
+      }
+      case TypeID.Custom: {
+        if (type instanceof CLTypeStruct) {
+          if (!isPlainObject(value)) {
+            throw mismatch();
+          }
+          result.struct = new CLValueStruct(
+            type,
+            encodeFields(value, type.fields, path)
+          );
+          return result;
+        }
+
+        const enumType = type as CLTypeEnum;
+        const variant = typeof value === 'string' ? value : undefined;
+        const tagged =
+          isPlainObject(value) && Object.keys(value).length === 1
+            ? Object.keys(value)[0]
+            : variant;
+        const found = tagged ? enumType.getVariant(tagged) : undefined;
+        if (!found) {
+          throw mismatch('expected { Variant: fields } or a variant name');
+        }
+
+        const fields = variant
+          ? {}
+          : (value as Record<string, unknown>)[tagged!];
+        if (!isPlainObject(fields)) {
+          throw new CLValueCodecError(
+            `${path}.${found.name}`,
+            `expected the fields of ${enumType.name}::${
+              found.name
+            }, got ${describe(fields)}`
+          );
+        }
+        result.enumVal = new CLValueEnum(
+          enumType,
+          found.name,
+          encodeFields(fields, found.fields, `${path}.${found.name}`)
+        );
+        return result;
+      }
+      default:
+        throw new CLValueCodecError(
+          path,
+          `unsupported type ${type.toString()}`
+        );
+    }
+  }
+
+  /**
+   * Converts a `CLValue` to its native JavaScript form, see `CLNativeValue`.
+   * @param value - The `CLValue` to convert.
+   * @returns The native value.
+   * @throws Error if the type of the value isn't supported.
+   */
+  static decode(value: CLValue): CLNativeValue {
+    const type = value.getType();
+
+    switch (type.getTypeID()) {
+      case TypeID.Bool:
+        return value.bool!.getValue();
+      case TypeID.I32:
+        return value.i32!.toNumber();
+      case TypeID.U8:
+        return value.ui8!.toNumber();
+      case TypeID.U32:
+        return value.ui32!.toNumber();
+      case TypeID.I64:
+        return BigInt(value.i64!.toString());
+      case TypeID.U64:
+        return BigInt(value.ui64!.toString());
+      case TypeID.U128:
+        return BigInt(value.ui128!.toString());
+      case TypeID.U256:
+        return BigInt(value.ui256!.toString());
+      case TypeID.U512:
+        return BigInt(value.ui512!.toString());
+      case TypeID.String:
+        return value.stringVal!.toString();
+      case TypeID.Unit:
+        return null;
+      case TypeID.Key:
+        return value.key!;
+      case TypeID.URef:
+        return value.uref!;
+      case TypeID.PublicKey:
+        return value.publicKey!;
+      case TypeID.ByteArray:
+        return value.byteArray!.bytes();
+      case TypeID.Any:
+        return value.any!.bytes();
+      case TypeID.Option: {
+        const inner = value.option!.value();
+        return inner ? CLValueCodec.decode(inner) : null;
+      }
+      case TypeID.List:
+        return value.list!.elements.map(element =>
+          CLValueCodec.decode(element)
+        );
+      case TypeID.Map:
+        return new Map(
+          value.map!.getData().map(entry => {
+            const [key, val] = entry.value();
+            return [CLValueCodec.decode(key), CLValueCodec.decode(val)] as [
+              CLNativeValue,
+              CLNativeValue
+            ];
+          })
+        );
+      case TypeID.Result: {
+        const inner = CLValueCodec.decode(value.result!.value());
+        return value.result!.isSuccess ? { ok: inner } : { err: inner };
+      }
+      case TypeID.Tuple1:
+        return [CLValueCodec.decode(value.tuple1!.value())];
+      case TypeID.Tuple2:
+        return value.tuple2!.value().map(inner => CLValueCodec.decode(inner));
+      case TypeID.Tuple3:
+        return value.tuple3!.value().map(inner => CLValueCodec.decode(inner));
+      case TypeID.Custom:
+        return value.struct
+          ? decodeFields(value.struct.fields)
+          : {
+              [value.enumVal!.variant.name]: decodeFields(value.enumVal!.fields)
+            };
+      default:
+        throw new Error(`Unsupported CLType: ${type.toString()}`);
+    }
+  }
+}
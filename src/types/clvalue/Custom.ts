@@ -0,0 +1,219 @@
+import { concat } from '@ethersproject/bytes';
+
+import { CLTypeEnum, CLTypeField, CLTypeStruct, CLTypeVariant } from './cltype';
+import { CLValue, IResultWithBytes } from './CLValue';
+import { CLValueParser } from './Parser';
+
+const fieldsBytes = (fields: Map<string, CLValue>) =>
+  concat(Array.from(fields.values()).map(value => value.bytes()));
+
+const fieldsString = (fields: Map<string, CLValue>) =>
+  Array.from(fields.entries())
+    .map(([name, value]) => `${name}: ${value.toString()}`)
+    .join(', ');
+
+const fieldsJSON = (fields: Map<string, CLValue>) => {
+  const json: Record<string, any> = {};
+  fields.forEach((value, name) => {
+    json[name] = value.toJSON();
+  });
+  return json;
+};
+
+/**
+ * Parses fields in order, each from the bytes left by the previous one.
+ */
+const fieldsFromBytes = (
+  source: Uint8Array,
+  fields: CLTypeField[]
+): IResultWithBytes<Record<string, CLValue>> => {
+  const values: Record<string, CLValue> = {};
+  let remainder = source;
+
+  fields.forEach(({ name, type }) => {
+    const field = CLValueParser.fromBytesByType(remainder, type);
+    values[name] = field.result;
+    remainder = field.bytes;
+  });
+
+  return { result: values, bytes: remainder };
+};
+
+/**
+ * Checks that values are given for exactly the fields of a struct or variant, and orders them like the fields.
+ */
+const orderFields = (
+  owner: string,
+  fields: CLTypeField[],
+  values: Record<string, CLValue>
+): Map<string, CLValue> => {
+  Object.keys(values).forEach(name => {
+    if (!fields.some(field => field.name === name)) {
+      throw new Error(`Unknown field "${name}" of ${owner}`);
+    }
+  });
+
+  return new Map(
+    fields.map(({ name, type }): [string, CLValue] => {
+      const value = values[name];
+      if (!value) {
+        throw new Error(`Missing field "${name}" of ${owner}`);
+      }
+      if (value.getType().toString() !== type.toString()) {
+        throw new Error(
+          `Invalid field "${name}" of ${owner}, expected ${type.toString()}, got ${value
+            .getType()
+            .toString()}`
+        );
+      }
+      return [name, value];
+    })
+  );
+};
+
+/**
+ * Represents a value of a user-defined struct, see `CLTypeStruct`.
+ */
+export class CLValueStruct {
+  public readonly fields: Map<string, CLValue>;
+
+  /**
+   * Initializes a new instance of the CLValueStruct class.
+   * @param type - The struct type.
+   * @param fields - The values of the fields, by name.
+   * @throws Error if a field is missing, unknown or of another type.
+   */
+  constructor(
+    public readonly type: CLTypeStruct,
+    fields: Record<string, CLValue>
+  ) {
+    this.fields = orderFields(type.name, type.fields, fields);
+  }
+
+  /**
+   * Converts the struct to its byte representation, its fields in order.
+   * @returns A Uint8Array representing the struct.
+   */
+  public bytes(): Uint8Array {
+    return fieldsBytes(this.fields);
+  }
+
+  /**
+   * Provides a string representation of the struct.
+   * @returns A string in the format "Name { field: value, ... }".
+   */
+  public toString(): string {
+    return `${this.type.name} { ${fieldsString(this.fields)} }`;
+  }
+
+  /**
+   * Converts the struct to a JSON object of its fields.
+   * @returns The JSON representations of the fields, by name.
+   */
+  public toJSON(): Record<string, any> {
+    return fieldsJSON(this.fields);
+  }
+
+  /**
+   * Creates a CLValueStruct instance from a Uint8Array.
+   * @param source - The Uint8Array containing the fields of the struct.
+   * @param clType - The struct type.
+   * @returns An object containing the new CLValueStruct instance and any remaining bytes.
+   */
+  public static fromBytes(
+    source: Uint8Array,
+    clType: CLTypeStruct
+  ): IResultWithBytes<CLValueStruct> {
+    const fields = fieldsFromBytes(source, clType.fields);
+
+    return {
+      result: new CLValueStruct(clType, fields.result),
+      bytes: fields.bytes
+    };
+  }
+}
+
+/**
+ * Represents a value of a user-defined tagged enum, see `CLTypeEnum`.
+ */
+export class CLValueEnum {
+  public readonly variant: CLTypeVariant;
+  public readonly fields: Map<string, CLValue>;
+
+  /**
+   * Initializes a new instance of the CLValueEnum class.
+   * @param type - The enum type.
+   * @param variant - The name of the variant.
+   * @param fields - The values of the fields of the variant, by name.
+   * @throws Error if the variant is unknown, or a field is missing, unknown or of another type.
+   */
+  constructor(
+    public readonly type: CLTypeEnum,
+    variant: string,
+    fields: Record<string, CLValue> = {}
+  ) {
+    const found = type.getVariant(variant);
+    if (!found) {
+      throw new Error(`Unknown variant "${variant}" of ${type.name}`);
+    }
+
+    this.variant = found;
+    this.fields = orderFields(`${type.name}::${variant}`, found.fields, fields);
+  }
+
+  /**
+   * Converts the enum to its byte representation, the tag of its variant followed by its fields.
+   * @returns A Uint8Array representing the enum.
+   */
+  public bytes(): Uint8Array {
+    return concat([
+      Uint8Array.from([this.variant.tag]),
+      fieldsBytes(this.fields)
+    ]);
+  }
+
+  /**
+   * Provides a string representation of the enum.
+   * @returns A string in the format "Name::Variant { field: value, ... }".
+   */
+  public toString(): string {
+    const name = `${this.type.name}::${this.variant.name}`;
+    return this.fields.size ? `${name} { ${fieldsString(this.fields)} }` : name;
+  }
+
+  /**
+   * Converts the enum to JSON, as an object with the variant name as its only key.
+   * @returns The JSON representations of the fields by name, under the variant name.
+   */
+  public toJSON(): Record<string, any> {
+    return { [this.variant.name]: fieldsJSON(this.fields) };
+  }
+
+  /**
+   * Creates a CLValueEnum instance from a Uint8Array.
+   * @param source - The Uint8Array containing the tag and the fields of the variant.
+   * @param clType - The enum type.
+   * @returns An object containing the new CLValueEnum instance and any remaining bytes.
+   * @throws Error if the tag doesn't match a variant.
+   */
+  public static fromBytes(
+    source: Uint8Array,
+    clType: CLTypeEnum
+  ): IResultWithBytes<CLValueEnum> {
+    if (!source.length) {
+      throw new Error(`Missing tag of ${clType.name}`);
+    }
+
+    const variant = clType.getVariantByTag(source[0]);
+    if (!variant) {
+      throw new Error(`Unknown tag ${source[0]} of ${clType.name}`);
+    }
+
+    const fields = fieldsFromBytes(source.subarray(1), variant.fields);
+
+    return {
+      result: new CLValueEnum(clType, variant.name, fields.result),
+      bytes: fields.bytes
+    };
+  }
+}
@@ -0,0 +1,432 @@
+import { CLValue } from './CLValue';
+import { TypeID } from './cltype';
+import { Conversions } from '../Conversions';
+
+/**
+ * Options of `CLValueInspector.format`.
+ */
+export interface CLValueFormatOptions {
+  /**
+   * (Optional) The number of spaces nested values are indented with, `0` renders the value on a single line.
+   * Defaults to `2`.
+   */
+  indent?: number;
+  /** (Optional) Whether `U512` amounts are shown in CSPR rather than motes. Defaults to `false`. */
+  motesAsCSPR?: boolean;
+}
+
+/**
+ * The kind of a `CLValueChange`.
+ */
+export enum CLValueChangeKind {
+  Added = 'added',
+  Removed = 'removed',
+  Changed = 'changed'
+}
+
+/**
+ * A difference between two `CLValue`s, at the path of the value,
+ * e.g. `args.recipients[3][1]` or `value["alice"]`.
+ */
+export interface CLValueChange {
+  kind: CLValueChangeKind;
+  path: string;
+  /** The value before the change, unless it was added. */
+  before?: CLValue;
+  /** The value after the change, unless it was removed. */
+  after?: CLValue;
+}
+
+const changeSymbols: Record<CLValueChangeKind, string> = {
+  [CLValueChangeKind.Added]: '+',
+  [CLValueChangeKind.Removed]: '-',
+  [CLValueChangeKind.Changed]: '~'
+};
+
+/**
+ * Returns the text of a value without nested values, or `undefined` for other values.
+ */
+const scalarText = (
+  value: CLValue,
+  { motesAsCSPR = false }: CLValueFormatOptions
+): string | undefined => {
+  switch (value.getType().getTypeID()) {
+    case TypeID.Bool:
+    case TypeID.I32:
+    case TypeID.I64:
+    case TypeID.U8:
+    case TypeID.U32:
+    case TypeID.U64:
+    case TypeID.U128:
+    case TypeID.U256:
+      return value.toString();
+    case TypeID.U512:
+      return motesAsCSPR
+        ? `${Conversions.motesToCSPR(value.ui512!.toString())} CSPR`
+        : value.ui512!.toString();
+    case TypeID.String:
+      return JSON.stringify(value.stringVal!.toString());
+    case TypeID.Unit:
+      return '()';
+    case TypeID.Key:
+      return value.key!.toPrefixedString();
+    case TypeID.URef:
+      return value.uref!.toPrefixedString();
+    case TypeID.PublicKey:
+      return value.publicKey!.toHex();
+    case TypeID.ByteArray:
+      return Conversions.encodeBase16(value.byteArray!.bytes());
+    case TypeID.Any:
+      return Conversions.encodeBase16(value.any!.bytes());
+    default:
+      return undefined;
+  }
+};
+
+interface CLValueChild {
+  suffix: string;
+  key?: CLValue;
+  value: CLValue;
+}
+
+const fieldChildren = (fields: Map<string, CLValue>): CLValueChild[] =>
+  Array.from(fields.entries()).map(([name, value]) => ({
+    suffix: `.${name}`,
+    value
+  }));
+
+/**
+ * Returns the nested values of a list, tuple, map or user-defined type, with their path suffix and, for maps, their key.
+ */
+const children = (value: CLValue): CLValueChild[] | undefined => {
+  switch (value.getType().getTypeID()) {
+    case TypeID.List:
+      return value.list!.elements.map((element, i) => ({
+        suffix: `[${i}]`,
+        value: element
+      }));
+    case TypeID.Tuple1:
+      return [{ suffix: '[0]', value: value.tuple1!.value() }];
+    case TypeID.Tuple2:
+      return value.tuple2!.value().map((element, i) => ({
+        suffix: `[${i}]`,
+        value: element
+      }));
+    case TypeID.Tuple3:
+      return value.tuple3!.value().map((element, i) => ({
+        suffix: `[${i}]`,
+        value: element
+      }));
+    case TypeID.Map:
+      return value.map!.getData().map(entry => {
+        const [key, val] = entry.value();
+        const keyText =
+          scalarText(key, {}) ?? Conversions.encodeBase16(key.bytes());
+        return { suffix: `[${keyText}]`, key, value: val };
+      });
+    case TypeID.Custom:
+      return fieldChildren((value.struct ?? value.enumVal!).fields);
+    default:
+      return undefined;
+  }
+};
+
+const sameBytes = (a: CLValue, b: CLValue) =>
+  Conversions.encodeBase16(a.bytes()) === Conversions.encodeBase16(b.bytes());
+
+// Map entries are matched by key, list and tuple elements by index
+const sameChild = (a: CLValueChild, b: CLValueChild) =>
+  a.key ? sameBytes(a.key, b.key!) : a.suffix === b.suffix;
+
+/**
+ * Renders `CLValue`s for humans and compares them structurally, to debug failed deploys
+ * from tests and logs.
+ *
+ * @example
+ * ```ts
+ * console.log(CLValueInspector.format(value, { motesAsCSPR: true }));
+ * // (List of Tuple2 (Key, U512)) [
+ * //   Tuple2 (Key, U512) (
+ * //     Key account-hash-e70d...,
+ * //     U512 2.5 CSPR
+ * //   )
+ * // ]
+ *
+ * const changes = CLValueInspector.diff(expected, actual);
+ * console.log(CLValueInspector.formatChanges(changes));
+ * // ~ value[0][1]: U512 2500000000 -> U512 3000000000
+ * ```
+ */
+export class CLValueInspector {
+  /**
+   * Renders a value with its type, and its nested values indented on their own lines.
+   * @param value - The value to render.
+   * @param options - (Optional) The indentation and how `U512` amounts are shown.
+   * @returns The rendered value.
+   */
+  static format(value: CLValue, options: CLValueFormatOptions = {}): string {
+    return CLValueInspector.render(value, options, 0);
+  }
+
+  /**
+   * Renders named values, such as deploy arguments, one per line.
+   * @param entries - The names and values.
+   * @param options - (Optional) The indentation and how `U512` amounts are shown.
+   * @returns The rendered values, `name: value` on each line.
+   */
+  static formatEntries(
+    entries: Map<string, CLValue>,
+    options: CLValueFormatOptions = {}
+  ): string {
+    return Array.from(entries.entries())
+      .map(
+        ([name, value]) =>
+          `${name}: ${CLValueInspector.render(value, options, 0)}`
+      )
+      .join('\n');
+  }
+
+  /**
+   * Compares two values and returns their differences, from the outer to the inner values.
+   * Lists, tuples, maps and user-defined types are compared element by element, map entries being matched by key,
+   * while values of different types, or enums of different variants, are reported as changed.
+   * @param before - The first value.
+   * @param after - The second value.
+   * @param path - (Optional) The path of the values. Defaults to `value`.
+   * @returns The changes, empty when the values are equal.
+   */
+  static diff(
+    before: CLValue,
+    after: CLValue,
+    path = 'value'
+  ): CLValueChange[] {
+    const changed = [{ kind: CLValueChangeKind.Changed, path, before, after }];
+
+    if (before.getType().toString() !== after.getType().toString()) {
+      return changed;
+    }
+
+    switch (before.getType().getTypeID()) {
+      case TypeID.Option: {
+        const beforeInner = before.option!.value();
+        const afterInner = after.option!.value();
+        if (beforeInner && afterInner) {
+          return CLValueInspector.diff(beforeInner, afterInner, path);
+        }
+        return beforeInner || afterInner ? changed : [];
+      }
+      case TypeID.Result: {
+        if (before.result!.isSuccess !== after.result!.isSuccess) {
+          return changed;
+        }
+        return CLValueInspector.diff(
+          before.result!.value(),
+          after.result!.value(),
+          `${path}.${before.result!.isSuccess ? 'ok' : 'err'}`
+        );
+      }
+      case TypeID.Custom:
+        if (
+          before.enumVal &&
+          before.enumVal.variant.name !== after.enumVal!.variant.name
+        ) {
+          return changed;
+        }
+    }
+
+    const beforeChildren = children(before);
+    const afterChildren = children(after);
+
+    if (!beforeChildren || !afterChildren) {
+      return sameBytes(before, after) ? [] : changed;
+    }
+
+    const changes: CLValueChange[] = [];
+
+    beforeChildren.forEach(child => {
+      const match = afterChildren.find(other => sameChild(child, other));
+      const childPath = `${path}${child.suffix}`;
+
+      if (match) {
+        changes.push(
+          ...CLValueInspector.diff(child.value, match.value, childPath)
+        );
+      } else {
+        changes.push({
+          kind: CLValueChangeKind.Removed,
+          path: childPath,
+          before: child.value
+        });
+      }
+    });
+
+    afterChildren.forEach(child => {
+      const exists = beforeChildren.some(other => sameChild(child, other));
+
+      if (!exists) {
+        changes.push({
+          kind: CLValueChangeKind.Added,
+          path: `${path}${child.suffix}`,
+          after: child.value
+        });
+      }
+    });
+
+    return changes;
+  }
+
+  /**
+   * Compares named values, such as deploy arguments, and returns their differences.
+   * @param before - The first named values.
+   * @param after - The second named values.
+   * @param path - (Optional) The path of the named values, prepended to their names. Defaults to `args`.
+   * @returns The changes, empty when the values are equal.
+   */
+  static diffEntries(
+    before: Map<string, CLValue>,
+    after: Map<string, CLValue>,
+    path = 'args'
+  ): CLValueChange[] {
+    const changes: CLValueChange[] = [];
+
+    before.forEach((value, name) => {
+      const other = after.get(name);
+      changes.push(
+        ...(other
+          ? CLValueInspector.diff(value, other, `${path}.${name}`)
+          : [
+              {
+                kind: CLValueChangeKind.Removed,
+                path: `${path}.${name}`,
+                before: value
+              }
+            ])
+      );
+    });
+
+    after.forEach((value, name) => {
+      if (!before.has(name)) {
+        changes.push({
+          kind: CLValueChangeKind.Added,
+          path: `${path}.${name}`,
+          after: value
+        });
+      }
+    });
+
+    return changes;
+  }
+
+  /**
+   * Renders changes one per line, as `+ path: value` for added values, `- path: value` for removed ones
+   * and `~ path: before -> after` for changed ones, with the values on a single line.
+   * @param changes - The changes to render.
+   * @param options - (Optional) How `U512` amounts are shown.
+   * @returns The rendered changes.
+   */
+  static formatChanges(
+    changes: CLValueChange[],
+    options: CLValueFormatOptions = {}
+  ): string {
+    const inline = { ...options, indent: 0 };
+
+    return changes
+      .map(({ kind, path, before, after }) => {
+        const values = [before, after]
+          .filter((value): value is CLValue => !!value)
+          .map(value => CLValueInspector.format(value, inline))
+          .join(' -> ');
+        return `${changeSymbols[kind]} ${path}: ${values}`;
+      })
+      .join('\n');
+  }
+
+  private static render(
+    value: CLValue,
+    options: CLValueFormatOptions,
+    depth: number
+  ): string {
+    const type = value.getType();
+    const indent = options.indent ?? 2;
+    const render = (inner: CLValue) =>
+      CLValueInspector.render(inner, options, depth + 1);
+    const block = (
+      open: string,
+      lines: string[],
+      close: string,
+      label = type.toString()
+    ) => {
+      if (!lines.length) {
+        return `${label} ${open}${close}`;
+      }
+      if (!indent) {
+        return `${label} ${open}${lines.join(', ')}${close}`;
+      }
+
+      const padding = ' '.repeat(indent * (depth + 1));
+      return [
+        `${label} ${open}`,
+        lines.map(line => `${padding}${line}`).join(',\n'),
+        `${' '.repeat(indent * depth)}${close}`
+      ].join('\n');
+    };
+
+    const scalar = scalarText(value, options);
+    if (scalar !== undefined) {
+      return type.getTypeID() === TypeID.Unit
+        ? type.toString()
+        : `${type.toString()} ${scalar}`;
+    }
+
+    switch (type.getTypeID()) {
+      case TypeID.Option: {
+        const inner = value.option!.value();
+        return inner
+          ? `${type.toString()} Some(${CLValueInspector.render(
+              inner,
+              options,
+              depth
+            )})`
+          : `${type.toString()} None`;
+      }
+      case TypeID.Result: {
+        const inner = CLValueInspector.render(
+          value.result!.value(),
+          options,
+          depth
+        );
+        return `${type.toString()} ${
+          value.result!.isSuccess ? 'Ok' : 'Err'
+        }(${inner})`;
+      }
+      case TypeID.List:
+        return block('[', value.list!.elements.map(render), ']');
+      case TypeID.Map:
+        return block(
+          '{',
+          value.map!.getData().map(entry => {
+            const [key, val] = entry.value();
+            return `${render(key)}: ${render(val)}`;
+          }),
+          '}'
+        );
+      case TypeID.Custom: {
+        const fields = children(value)!.map(
+          child => `${child.suffix.slice(1)}: ${render(child.value)}`
+        );
+        if (value.struct) {
+          return block('{', fields, '}');
+        }
+
+        const label = `${type.toString()}::${value.enumVal!.variant.name}`;
+        return fields.length ? block('{', fields, '}', label) : label;
+      }
+      default:
+        return block(
+          '(',
+          children(value)!.map(child => render(child.value)),
+          ')'
+        );
+    }
+  }
+}
@@ -5,14 +5,19 @@ import { Key, URef } from '../key';
 import { PublicKey } from '../keypair';
 import {
   CLType,
+  CLTypeAny,
   CLTypeByteArray,
+  CLTypeCustom,
   CLTypeDynamic,
+  CLTypeEnum,
   CLTypeList,
   CLTypeMap,
   CLTypeOption,
   CLTypeParser,
   CLTypeResult,
+  CLTypeStruct,
   CLTypeTuple1,
+  CLTypeUInt8,
   CLTypeTuple2,
   CLTypeTuple3,
   TypeID
@@ -39,6 +44,7 @@ import { CLValueMap } from './Map';
 import { CLValueTuple1 } from './Tuple1';
 import { CLValueTuple2 } from './Tuple2';
 import { CLValueTuple3 } from './Tuple3';
+import { CLValueEnum, CLValueStruct } from './Custom';
 import { Conversions } from '../Conversions';
 import { toBytesArrayU8 } from '../ByteConverters';
 
@@ -228,11 +234,107 @@ export class CLValueParser {
         );
         result.tuple3 = tuple3?.result;
         return { result, bytes: tuple3?.bytes };
+      case TypeID.Custom:
+        if (sourceType instanceof CLTypeStruct) {
+          const struct = CLValueStruct.fromBytes(bytes, sourceType);
+          result.struct = struct.result;
+          return { result, bytes: struct.bytes };
+        }
+        const enumValue = CLValueEnum.fromBytes(
+          bytes,
+          sourceType as CLTypeEnum
+        );
+        result.enumVal = enumValue.result;
+        return { result, bytes: enumValue.bytes };
       default:
         throw ErrUnsupportedCLType;
     }
   }
 
+  /**
+   * Decodes the payload of an `Any`, `ByteArray` or `List<U8>` value into a user-defined type,
+   * see `CLTypeRegistry`.
+   * @param value - The value holding the serialized custom value.
+   * @param customType - The struct or enum type of the payload.
+   * @returns A CLValue of the custom type.
+   * @throws Error if the value isn't a byte payload, or the payload doesn't match the type.
+   */
+  public static fromCustomPayload(
+    value: CLValue,
+    customType: CLTypeCustom
+  ): CLValue {
+    const type = value.getType();
+    let payload: Uint8Array;
+
+    if (type.getTypeID() === TypeID.Any) {
+      payload = value.any!.bytes();
+    } else if (type.getTypeID() === TypeID.ByteArray) {
+      payload = value.byteArray!.bytes();
+    } else if (
+      type.getTypeID() === TypeID.List &&
+      (type as CLTypeList).elementsType.getTypeID() === TypeID.U8
+    ) {
+      payload = Uint8Array.from(
+        value.list!.elements.map(element => element.ui8!.toNumber())
+      );
+    } else {
+      throw new Error(
+        `Expected an Any, ByteArray or List of U8 payload, got ${type.toString()}`
+      );
+    }
+
+    const parsed = CLValueParser.fromBytesByType(payload, customType);
+    if (parsed.bytes.length) {
+      throw new Error(
+        `Unexpected ${
+          parsed.bytes.length
+        } trailing bytes after ${customType.toString()}`
+      );
+    }
+
+    return parsed.result;
+  }
+
+  /**
+   * Encodes a value of a user-defined type back to the payload it is stored as on chain.
+   * Values of custom types are already serialized as `Any`, and can be used as such in arguments.
+   * @param value - The value of a custom type.
+   * @param payloadType - (Optional) `CLTypeAny`, a `CLTypeByteArray` or a `CLTypeList` of `U8`. Defaults to `CLTypeAny`.
+   * @returns A CLValue of the payload type holding the serialized value.
+   * @throws Error if the payload type isn't supported, or its size doesn't match.
+   */
+  public static toCustomPayload(
+    value: CLValue,
+    payloadType: CLType = CLTypeAny
+  ): CLValue {
+    const payload = value.bytes();
+
+    if (payloadType.getTypeID() === TypeID.Any) {
+      return CLValue.newCLAny(payload);
+    }
+
+    if (
+      payloadType.getTypeID() === TypeID.ByteArray &&
+      (payloadType as CLTypeByteArray).size === payload.length
+    ) {
+      return CLValue.newCLByteArray(payload);
+    }
+
+    if (
+      payloadType.getTypeID() === TypeID.List &&
+      (payloadType as CLTypeList).elementsType.getTypeID() === TypeID.U8
+    ) {
+      return CLValue.newCLList(
+        CLTypeUInt8,
+        Array.from(payload).map(byte => CLValue.newCLUint8(byte))
+      );
+    }
+
+    throw new Error(
+      `Can't store ${value.getType().toString()} as ${payloadType.toString()}`
+    );
+  }
+
   /**
    * Parses a `Uint8Array` to extract a `CLValue` with its corresponding type.
    *
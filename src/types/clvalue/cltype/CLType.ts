@@ -35,7 +35,11 @@ export enum TypeID {
   Tuple2,
   Tuple3,
   Any,
-  PublicKey
+  PublicKey,
+  /**
+   * User-defined types, see `CLTypeRegistry`. They don't exist on chain, where they are stored as `Any`.
+   */
+  Custom
 }
 
 /**
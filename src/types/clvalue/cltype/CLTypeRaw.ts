@@ -34,6 +34,16 @@ export class CLTypeRaw {
     }
   }
 
+  /**
+   * Returns the `CLType` of a type which is either wrapped in a `CLTypeRaw`, as in entry points
+   * built in code, or already parsed, as in entry points deserialized from JSON.
+   * @param type - The raw or parsed type.
+   * @returns The `CLType` instance.
+   */
+  static resolve(type: CLTypeRaw | CLType): CLType {
+    return type instanceof CLTypeRaw ? type.rawMessage : type;
+  }
+
   /**
    * Parses the raw message into a `CLType` object.
    * @returns A `CLType` instance if parsing is successful.
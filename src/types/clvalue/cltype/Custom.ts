@@ -0,0 +1,231 @@
+import { CLType, TypeID, TypeName } from './CLType';
+
+/**
+ * A named field of a struct or of an enum variant.
+ */
+export interface CLTypeField {
+  name: string;
+  type: CLType;
+}
+
+/**
+ * A variant of an enum, serialized as its `U8` tag followed by its fields.
+ */
+export interface CLTypeVariant {
+  name: string;
+  tag: number;
+  fields: CLTypeField[];
+}
+
+/**
+ * Base class of the user-defined types, registered with `CLTypeRegistry`.
+ *
+ * Custom types don't exist on chain: their values are stored as `Any` (or as `List<U8>` or a byte array),
+ * so they serialize their type as `Any`, and their values as their raw payload.
+ */
+export abstract class CLTypeCustom implements CLType {
+  /**
+   * @param name - The name of the type, e.g. `Point`.
+   */
+  constructor(public readonly name: string) {}
+
+  /**
+   * Converts the type to bytes, as the `Any` type it is stored as on chain.
+   * @returns A Uint8Array containing the `Any` type ID.
+   */
+  public toBytes(): Uint8Array {
+    return Uint8Array.from([TypeID.Any]);
+  }
+
+  /**
+   * Provides the name of the type.
+   * @returns The name of the custom type.
+   */
+  public toString(): string {
+    return this.name;
+  }
+
+  /**
+   * Retrieves the type ID shared by the custom types.
+   * @returns `TypeID.Custom`.
+   */
+  public getTypeID(): TypeID {
+    return TypeID.Custom;
+  }
+
+  /**
+   * Retrieves the name of the type.
+   * @returns The name of the custom type.
+   */
+  public getName(): TypeName {
+    return this.name;
+  }
+
+  /**
+   * Converts the type to JSON, as the `Any` type it is stored as on chain.
+   * @returns The `Any` type name.
+   */
+  public toJSON(): string {
+    return TypeName.Any;
+  }
+}
+
+const checkFields = (owner: string, fields: CLTypeField[]) => {
+  fields.forEach(({ name }, i) => {
+    if (fields.findIndex(field => field.name === name) !== i) {
+      throw new Error(`Duplicate field "${name}" in ${owner}`);
+    }
+  });
+};
+
+/**
+ * A user-defined struct, serialized as its fields in order.
+ */
+export class CLTypeStruct extends CLTypeCustom {
+  /**
+   * @param name - The name of the struct.
+   * @param fields - The fields of the struct, in serialization order.
+   * @throws Error if two fields have the same name.
+   */
+  constructor(name: string, public readonly fields: CLTypeField[]) {
+    super(name);
+    checkFields(name, fields);
+  }
+}
+
+/**
+ * A user-defined tagged enum, serialized as the `U8` tag of the variant followed by its fields.
+ */
+export class CLTypeEnum extends CLTypeCustom {
+  /**
+   * @param name - The name of the enum.
+   * @param variants - The variants of the enum.
+   * @throws Error if two variants have the same name or tag, or a tag isn't a `U8`.
+   */
+  constructor(name: string, public readonly variants: CLTypeVariant[]) {
+    super(name);
+    variants.forEach((variant, i) => {
+      if (
+        !Number.isInteger(variant.tag) ||
+        variant.tag < 0 ||
+        variant.tag > 255
+      ) {
+        throw new Error(
+          `Invalid tag of ${name}::${variant.name}, expected a U8`
+        );
+      }
+      if (
+        variants.findIndex(
+          other => other.name === variant.name || other.tag === variant.tag
+        ) !== i
+      ) {
+        throw new Error(
+          `Duplicate variant name or tag in ${name}: ${variant.name}`
+        );
+      }
+      checkFields(`${name}::${variant.name}`, variant.fields);
+    });
+  }
+
+  /**
+   * Returns a variant by name.
+   * @param name - The name of the variant.
+   */
+  public getVariant(name: string): CLTypeVariant | undefined {
+    return this.variants.find(variant => variant.name === name);
+  }
+
+  /**
+   * Returns a variant by tag.
+   * @param tag - The tag of the variant.
+   */
+  public getVariantByTag(tag: number): CLTypeVariant | undefined {
+    return this.variants.find(variant => variant.tag === tag);
+  }
+}
+
+/**
+ * Keeps the user-defined types by name, so they can be used in JSON types parsed by `CLTypeParser`,
+ * e.g. `{ "List": "Point" }`, like the built-in types.
+ *
+ * @example
+ * ```ts
+ * const point = CLTypeRegistry.registerStruct('Point', [
+ *   { name: 'x', type: CLTypeInt32 },
+ *   { name: 'y', type: CLTypeInt32 }
+ * ]);
+ * const shape = CLTypeRegistry.registerEnum('Shape', [
+ *   { name: 'Empty' },
+ *   { name: 'Circle', fields: [{ name: 'center', type: point }, { name: 'radius', type: CLTypeUInt32 }] }
+ * ]);
+ *
+ * const value = CLValueParser.fromCustomPayload(storedValue.clValue!, shape);
+ * value.toNative(); // { Circle: { center: { x: 1, y: 2 }, radius: 3 } }
+ * ```
+ */
+export class CLTypeRegistry {
+  private static readonly types = new Map<string, CLTypeCustom>();
+
+  /**
+   * Registers a struct.
+   * @param name - The unique name of the struct.
+   * @param fields - The fields of the struct, in serialization order.
+   * @returns The registered type.
+   * @throws Error if the name is already used or two fields have the same name.
+   */
+  static registerStruct(name: string, fields: CLTypeField[]): CLTypeStruct {
+    return CLTypeRegistry.register(new CLTypeStruct(name, fields));
+  }
+
+  /**
+   * Registers a tagged enum.
+   * @param name - The unique name of the enum.
+   * @param variants - The variants of the enum. Tags default to the index of the variant, and fields to none.
+   * @returns The registered type.
+   * @throws Error if the name is already used, or variants have the same name or tag.
+   */
+  static registerEnum(
+    name: string,
+    variants: { name: string; tag?: number; fields?: CLTypeField[] }[]
+  ): CLTypeEnum {
+    return CLTypeRegistry.register(
+      new CLTypeEnum(
+        name,
+        variants.map((variant, i) => ({
+          name: variant.name,
+          tag: variant.tag ?? i,
+          fields: variant.fields ?? []
+        }))
+      )
+    );
+  }
+
+  /**
+   * Returns a registered type by name.
+   * @param name - The name of the type.
+   */
+  static get(name: string): CLTypeCustom | undefined {
+    return CLTypeRegistry.types.get(name);
+  }
+
+  /**
+   * Removes a registered type.
+   * @param name - The name of the type.
+   * @returns Whether the type was registered.
+   */
+  static unregister(name: string): boolean {
+    return CLTypeRegistry.types.delete(name);
+  }
+
+  private static register<T extends CLTypeCustom>(type: T): T {
+    if (
+      CLTypeRegistry.types.has(type.name) ||
+      (TypeName as Record<string, TypeName>)[type.name]
+    ) {
+      throw new Error(`CLType name already used: ${type.name}`);
+    }
+
+    CLTypeRegistry.types.set(type.name, type);
+    return type;
+  }
+}
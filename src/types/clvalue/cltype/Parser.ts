@@ -26,6 +26,7 @@ import { CLTypeMap } from './Map';
 import { CLTypeTuple1 } from './Tuple1';
 import { CLTypeTuple2 } from './Tuple2';
 import { CLTypeTuple3 } from './Tuple3';
+import { CLTypeRegistry } from './Custom';
 import { IResultWithBytes } from '../CLValue';
 import { CLValueUInt32 } from '../Numeric';
 
@@ -105,13 +106,14 @@ export class CLTypeParser {
   };
 
   /**
-   * Retrieves a simple CLType by its TypeName.
+   * Retrieves a simple CLType, or a type registered with `CLTypeRegistry`, by its TypeName.
    * @param typeName - The TypeName of the CLType to retrieve.
    * @returns The corresponding CLType.
    * @throws Error if the type name is not registered.
    */
   static getSimpleTypeByName(typeName: TypeName): CLType {
-    const result = CLTypeParser.simpleTypeByName[typeName];
+    const result =
+      CLTypeParser.simpleTypeByName[typeName] ?? CLTypeRegistry.get(typeName);
     if (!result) {
       throw new Error(`type name is not registered, source: ${typeName}`);
     }
@@ -1,5 +1,6 @@
 export * from './ByteArray';
 export * from './CLType';
+export * from './Custom';
 export * from './Map';
 export * from './Dynamic';
 export * from './List';
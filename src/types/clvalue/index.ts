@@ -15,3 +15,6 @@ export * from './Tuple3';
 export * from './UintBig';
 export * from './Unit';
 export * from './cltype';
+export * from './Codec';
+export * from './Inspect';
+export * from './Custom';
@@ -1,4 +1,6 @@
 export * from './Account';
+export * from './AddressBook';
+export * from './ApprovalCollector';
 export * from './AddressableEntity';
 export * from './Args';
 export * from './AuctionState';
@@ -7,6 +9,8 @@ export * from './BidKind';
 export * from './Block';
 export * from './BlockProposer';
 export * from './Contract';
+export * from './ContractClient';
+export * from './ContractClientGenerator';
 export * from './ContractPackage';
 export * from './Deploy';
 export * from './DeployInfo';
@@ -17,6 +21,7 @@ export * from './EraSummary';
 export * from './ExecutableDeployItem';
 export * from './ExecutionResult';
 export * from './HexBytes';
+export * from './Identifier';
 export * from './InitiatorAddr';
 export * from './MessageTopic';
 export * from './MinimalBlockInfo';
@@ -24,6 +29,7 @@ export * from './NamedKey';
 export * from './Package';
 export * from './PricingMode';
 export * from './Prepayment';
+export * from './SdkError';
 export * from './StoredValue';
 export * from './Time';
 export * from './Transaction';
@@ -33,6 +39,7 @@ export * from './TransactionScheduling';
 export * from './TransactionTarget';
 export * from './Transfer';
 export * from './Transform';
+export * from './TypedTransform';
 export * from './UnbondingPurse';
 export * from './ValidatorWeight';
 export * from './Conversions';
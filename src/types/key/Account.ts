@@ -28,9 +28,11 @@ export class AccountHash extends Hash {
    * Parses a string representation of an account hash and creates an AccountHash instance.
    * Recognizes and preserves any prefix, either `"00"` or `"account-hash-"`.
    * @param source - The string representation of the account hash.
+   * @param checksummed - (Optional) Whether the hash must be CEP-57 checksummed. Defaults to `false`.
    * @returns A new AccountHash instance containing the parsed hash and prefix.
+   * @throws Error if the hash is invalid or its checksum doesn't match.
    */
-  public static fromString(source: string): AccountHash {
+  public static fromString(source: string, checksummed = false): AccountHash {
     let originPrefix = '';
     if (source.length === 66 && source.startsWith('00')) {
       originPrefix = '00';
@@ -39,17 +41,18 @@ export class AccountHash extends Hash {
     }
 
     const hexString = source.slice(originPrefix.length);
-    const hash = Hash.fromHex(hexString);
+    const hash = Hash.fromHex(hexString, checksummed);
     return new AccountHash(hash, originPrefix);
   }
 
   /**
    * Returns the account hash as a string, prefixed with `"account-hash-"`.
    * This is useful for displaying the hash in a format recognized by the Casper network.
+   * @param checksummed - (Optional) Whether to checksum the hash. Defaults to `false`.
    * @returns The account hash as a prefixed string.
    */
-  public toPrefixedString(): string {
-    return PrefixName.Account + this.toHex();
+  public toPrefixedString(checksummed = false): string {
+    return PrefixName.Account + this.toHex(checksummed);
   }
 
   /**
@@ -0,0 +1,47 @@
+import { Hash } from './Hash';
+import { Key, PrefixName } from './Key';
+
+/**
+ * Prefixes of the hash identifiers which are not `Key` variants, longest first.
+ */
+export const hashIdentifierPrefixes = [
+  PrefixName.AddressableEntity,
+  PrefixName.ContractPackageWasm,
+  PrefixName.ContractPackage,
+  PrefixName.ContractWasm,
+  PrefixName.Contract
+];
+
+/**
+ * Checks whether a string is a valid Casper address: any `Key` accepted by `Key.newKey`,
+ * or a contract, contract package or addressable entity hash, covering every `PrefixName`.
+ * Mixed-case hashes are validated against their CEP-57 checksum, so a mistyped address is rejected.
+ * @param source - The address to check, e.g. `account-hash-...`, `hash-...` or `uref-...-007`.
+ * @param checksummed - (Optional) Whether hashes must be checksummed. Defaults to `false`.
+ * @returns `true` if the address is valid, otherwise `false`.
+ *
+ * @example
+ * ```ts
+ * if (!isValidAddress(input)) {
+ *   throw new Error('Please check the address you pasted');
+ * }
+ * ```
+ */
+export const isValidAddress = (
+  source: string,
+  checksummed = false
+): boolean => {
+  try {
+    const prefix = hashIdentifierPrefixes.find(it => source.startsWith(it));
+
+    if (prefix) {
+      Hash.fromHex(source.slice(prefix.length), checksummed);
+    } else {
+      Key.newKey(source, checksummed);
+    }
+
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -93,17 +93,20 @@ export class BidAddr {
   /**
    * Creates a BidAddr from a hexadecimal string.
    * @param source - The hexadecimal string representation of the BidAddr.
+   * @param checksummed - (Optional) Whether the hashes must be checksummed. Defaults to `false`.
    * @returns A new BidAddr instance.
    * @throws {ErrInvalidBidAddrFormat} If the format is invalid.
    * @throws {ErrUnexpectedBidAddrTagInBidAddr} If an unexpected tag is encountered.
    */
-  static fromHex(source: string): BidAddr {
+  static fromHex(source: string, checksummed = false): BidAddr {
     const hexBytes = Buffer.from(source, 'hex');
 
     if (hexBytes.length === 0) {
       throw new Error('Wrong key length.');
     }
 
+    const hashAt = (offset: number) =>
+      Hash.fromHex(source.slice(offset * 2, (offset + 32) * 2), checksummed);
     const bidAddrTag = BidAddr.bidAddrTag(hexBytes[0]);
     const bidAddr = new BidAddr();
     bidAddr.tag = bidAddrTag;
@@ -118,7 +121,7 @@ export class BidAddr {
         }
         const key =
           bidAddrTag === BidAddrTag.UnifiedTag ? 'unified' : 'validator';
-        bidAddr[key] = Hash.fromBytes(hexBytes.slice(1, 33))?.result;
+        bidAddr[key] = hashAt(1);
         break;
 
       case BidAddrTag.DelegatedAccountTag:
@@ -129,8 +132,8 @@ export class BidAddr {
             `Wrong key length for ${BidAddrTag[bidAddrTag]} BidAddr. Expected 65 bytes.`
           );
         }
-        bidAddr.validator = Hash.fromBytes(hexBytes.slice(1, 33))?.result;
-        bidAddr.delegatorAccount = Hash.fromBytes(hexBytes.slice(33))?.result;
+        bidAddr.validator = hashAt(1);
+        bidAddr.delegatorAccount = hashAt(33);
         break;
 
       case BidAddrTag.DelegatedPurseTag:
@@ -142,10 +145,8 @@ export class BidAddr {
           );
         }
 
-        bidAddr.validator = Hash.fromBytes(hexBytes.slice(1, 33))?.result;
-        bidAddr.delegatorPurseAddress = new HexBytes(
-          hexBytes.slice(33)
-        ).toHex();
+        bidAddr.validator = hashAt(1);
+        bidAddr.delegatorPurseAddress = hashAt(33).toHex();
         break;
 
       case BidAddrTag.CreditTag:
@@ -154,7 +155,7 @@ export class BidAddr {
             'Wrong key length for Credit BidAddr. Expected 41 bytes.'
           );
         }
-        bidAddr.validator = Hash.fromBytes(hexBytes.slice(1, 33))?.result;
+        bidAddr.validator = hashAt(1);
         bidAddr.eraId = hexBytes.readUInt32LE(33);
         break;
 
@@ -257,19 +258,25 @@ export class BidAddr {
 
   /**
    * Returns a prefixed string representation of the BidAddr.
+   * @param checksummed - (Optional) Whether to checksum the hashes following CEP-57. Defaults to `false`.
    * @returns The prefixed string representation.
    */
-  toPrefixedString(): string {
-    return `bid-addr-${this.toHex()}`;
+  toPrefixedString(checksummed = false): string {
+    return `bid-addr-${this.toHex(checksummed)}`;
   }
 
   /**
    * Converts the BidAddr to its hexadecimal string representation, ensuring proper formatting.
+   * @param checksummed - (Optional) Whether to checksum the hashes following CEP-57. Defaults to `false`.
    * @returns The hexadecimal string representation of the BidAddr.
    * @throws {Error} If the BidAddr type is unexpected or required fields are missing.
    */
-  toHex(): string {
+  toHex(checksummed = false): string {
     const tagHex = this.tag.toString(16).padStart(2, '0');
+    const purseHex = () =>
+      checksummed
+        ? Hash.fromHex(this.delegatorPurseAddress!).toHex(true)
+        : this.delegatorPurseAddress;
 
     switch (this.tag) {
       case BidAddrTag.UnifiedTag:
@@ -278,30 +285,30 @@ export class BidAddr {
             `Missing 'unified' field for tag ${BidAddrTag.UnifiedTag}`
           );
         }
-        return `${tagHex}${this.unified.toHex()}`;
+        return `${tagHex}${this.unified.toHex(checksummed)}`;
       case BidAddrTag.ValidatorTag:
         if (!this.validator) {
           throw new Error(
             `Missing 'validator' field for tag ${BidAddrTag.ValidatorTag}`
           );
         }
-        return `${tagHex}${this.validator.toHex()}`;
+        return `${tagHex}${this.validator.toHex(checksummed)}`;
       case BidAddrTag.DelegatedAccountTag:
         if (!this.validator || !this.delegatorAccount) {
           throw new Error(
             `Missing 'validator' or 'delegatorAccount' field for tag ${BidAddrTag.DelegatedAccountTag}`
           );
         }
-        return `${tagHex}${this.validator.toHex()}${this.delegatorAccount.toHex()}`;
+        return `${tagHex}${this.validator.toHex(
+          checksummed
+        )}${this.delegatorAccount.toHex(checksummed)}`;
       case BidAddrTag.DelegatedPurseTag:
         if (!this.validator || !this.delegatorPurseAddress) {
           throw new Error(
             `Missing 'validator' or 'delegatorPurseAddress' field for tag ${BidAddrTag.DelegatedPurseTag}`
           );
         }
-        return `${tagHex}${this.validator.toHex()}${
-          this.delegatorPurseAddress
-        }`;
+        return `${tagHex}${this.validator.toHex(checksummed)}${purseHex()}`;
       case BidAddrTag.CreditTag:
         if (!this.validator || this.eraId === undefined) {
           throw new Error(
@@ -310,39 +317,41 @@ export class BidAddr {
         }
         const eraIdHex = Buffer.alloc(8);
         eraIdHex.writeUInt32LE(this.eraId, 0);
-        return `${tagHex}${this.validator.toHex()}${eraIdHex.toString('hex')}`;
+        return `${tagHex}${this.validator.toHex(
+          checksummed
+        )}${eraIdHex.toString('hex')}`;
       case BidAddrTag.ReservedDelegationAccountTag:
         if (!this.validator || !this.delegatorAccount) {
           throw new Error(
             `Missing 'validator' or 'delegatorAccount' field for tag ${BidAddrTag.ReservedDelegationAccountTag}`
           );
         }
-        return `${tagHex}${this.validator.toHex()}${this.delegatorAccount.toHex()}`;
+        return `${tagHex}${this.validator.toHex(
+          checksummed
+        )}${this.delegatorAccount.toHex(checksummed)}`;
       case BidAddrTag.ReservedDelegationPurseTag:
         if (!this.validator || !this.delegatorPurseAddress) {
           throw new Error(
             `Missing 'validator' or 'delegatorPurseAddress' field for tag ${BidAddrTag.ReservedDelegationPurseTag}`
           );
         }
-        return `${tagHex}${this.validator.toHex()}${
-          this.delegatorPurseAddress
-        }`;
+        return `${tagHex}${this.validator.toHex(checksummed)}${purseHex()}`;
       case BidAddrTag.UnbondAccountTag:
         if (!this.validator || !this.delegatorAccount) {
           throw new Error(
             `Missing 'validator' or 'delegatorAccount' field for tag ${BidAddrTag.UnbondAccountTag}`
           );
         }
-        return `${tagHex}${this.validator.toHex()}${this.delegatorAccount.toHex()}`;
+        return `${tagHex}${this.validator.toHex(
+          checksummed
+        )}${this.delegatorAccount.toHex(checksummed)}`;
       case BidAddrTag.UnbondPurseTag:
         if (!this.validator || !this.delegatorPurseAddress) {
           throw new Error(
             `Missing 'validator' or 'delegatorPurseAddress' field for tag ${BidAddrTag.UnbondPurseTag}`
           );
         }
-        return `${tagHex}${this.validator.toHex()}${
-          this.delegatorPurseAddress
-        }`;
+        return `${tagHex}${this.validator.toHex(checksummed)}${purseHex()}`;
       default:
         throw new Error(`Unexpected BidAddr type: ${this.tag}`);
     }
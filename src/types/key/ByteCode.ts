@@ -53,12 +53,15 @@ export class ByteCode {
   /**
    * Creates a ByteCode from a JSON string representation.
    * @param data - The JSON string representation of the ByteCode.
+   * @param checksummed - (Optional) Whether the hash must be checksummed. Defaults to `false`.
    * @returns A new ByteCode instance.
    * @throws ByteCodeError.ErrInvalidByteCodeFormat if the format is invalid.
    */
-  static fromJSON(data: string): ByteCode {
+  static fromJSON(data: string, checksummed = false): ByteCode {
     if (data.startsWith(V1WasmPrefix)) {
-      return new ByteCode(Hash.fromHex(data.replace(V1WasmPrefix, '')));
+      return new ByteCode(
+        Hash.fromHex(data.replace(V1WasmPrefix, ''), checksummed)
+      );
     } else if (data.startsWith(EmptyPrefix)) {
       return new ByteCode(undefined, true);
     } else {
@@ -84,12 +87,17 @@ export class ByteCode {
 
   /**
    * Returns a prefixed string representation of the ByteCode.
+   * @param checksummed - (Optional) Whether to checksum the hash following CEP-57. Defaults to `false`.
    * @returns A prefixed string based on the byte code type.
    * @throws Error if the ByteCode type is unexpected.
    */
-  toPrefixedString(): string {
+  toPrefixedString(checksummed = false): string {
     if (this.V1CasperWasm) {
-      return PrefixName.ByteCode + V1WasmPrefix + this.V1CasperWasm.toHex();
+      return (
+        PrefixName.ByteCode +
+        V1WasmPrefix +
+        this.V1CasperWasm.toHex(checksummed)
+      );
     } else if (this.isEmpty) {
       const emptyHash = Hash.fromBytes(new Uint8Array(Hash.ByteHashLen).fill(0))
         ?.result;
@@ -54,15 +54,18 @@ export class EntityAddr {
 
   /**
    * Returns a prefixed string representation of the EntityAddr, with different prefixes for each entity type.
+   * @param checksummed - (Optional) Whether to checksum the hash following CEP-57. Defaults to `false`.
    * @returns The prefixed string representation, with "entity-system-", "entity-account-", or "entity-contract-" based on entity type.
    */
-  toPrefixedString(): string {
+  toPrefixedString(checksummed = false): string {
     if (this.system) {
-      return `${PrefixName.Entity}system-${this.system.toHex()}`;
+      return `${PrefixName.Entity}system-${this.system.toHex(checksummed)}`;
     } else if (this.account) {
-      return `${PrefixName.Entity}account-${this.account.toHex()}`;
+      return `${PrefixName.Entity}account-${this.account.toHex(checksummed)}`;
     } else if (this.smartContract) {
-      return `${PrefixName.Entity}contract-${this.smartContract.toHex()}`;
+      return `${PrefixName.Entity}contract-${this.smartContract.toHex(
+        checksummed
+      )}`;
     }
     return '';
   }
@@ -70,20 +73,21 @@ export class EntityAddr {
   /**
    * Creates an EntityAddr from a prefixed string representation.
    * @param source - The prefixed string representation of the EntityAddr.
+   * @param checksummed - (Optional) Whether the hash must be checksummed. Defaults to `false`.
    * @returns A new EntityAddr instance.
    * @throws {ErrInvalidEntityAddrFormat} If the format is invalid.
    */
-  static fromPrefixedString(source: string): EntityAddr {
+  static fromPrefixedString(source: string, checksummed = false): EntityAddr {
     source = source.replace(PrefixName.Entity, '');
 
     if (source.startsWith('system-')) {
-      const hash = Hash.fromHex(source.replace('system-', ''));
+      const hash = Hash.fromHex(source.replace('system-', ''), checksummed);
       return new EntityAddr(hash, undefined, undefined);
     } else if (source.startsWith('account-')) {
-      const hash = Hash.fromHex(source.replace('account-', ''));
+      const hash = Hash.fromHex(source.replace('account-', ''), checksummed);
       return new EntityAddr(undefined, hash, undefined);
     } else if (source.startsWith('contract-')) {
-      const hash = Hash.fromHex(source.replace('contract-', ''));
+      const hash = Hash.fromHex(source.replace('contract-', ''), checksummed);
       return new EntityAddr(undefined, undefined, hash);
     }
     throw ErrInvalidEntityAddrFormat;
@@ -1,5 +1,6 @@
 import { jsonObject } from 'typedjson';
 import { IResultWithBytes } from '../clvalue';
+import { Conversions } from '../Conversions';
 
 /**
  * Represents a cryptographic hash.
@@ -31,25 +32,52 @@ export class Hash {
 
   /**
    * Creates a Hash instance from a hexadecimal string.
+   * Mixed-case strings are validated against their CEP-57 checksum, so a mistyped hash is rejected,
+   * while all-lowercase and all-uppercase strings are accepted unless `checksummed` is set.
    * @param source - The hexadecimal string representation of the hash.
+   * @param checksummed - (Optional) Whether the string must be checksummed. Defaults to `false`.
    * @returns A new Hash instance.
-   * @throws Error if the string length does not match the expected hash length.
+   * @throws Error if the string length does not match the expected hash length,
+   * if it is not hexadecimal, or if its checksum is invalid.
    */
-  static fromHex(source: string): Hash {
+  static fromHex(source: string, checksummed = false): Hash {
     if (source.length !== Hash.StringHashLen) {
       throw new Error(
         `Invalid string length, expected ${Hash.StringHashLen} characters.`
       );
     }
+
+    if (!/^[0-9a-fA-F]*$/.test(source)) {
+      throw new Error('Invalid hash, expected a hexadecimal string.');
+    }
+
+    const isMixedCase = /[a-f]/.test(source) && /[A-F]/.test(source);
+
+    if (
+      (checksummed || isMixedCase) &&
+      !Conversions.isChecksummedBase16(source)
+    ) {
+      throw new Error(
+        isMixedCase
+          ? 'Invalid hash checksum.'
+          : 'Provided hash is not checksummed.'
+      );
+    }
+
     const bytes = Uint8Array.from(Buffer.from(source, 'hex'));
     return new Hash(bytes);
   }
 
   /**
    * Converts the Hash instance to a hexadecimal string.
+   * @param checksummed - (Optional) Whether to return the CEP-57 checksummed, mixed-case string. Defaults to `false`.
    * @returns The hexadecimal string representation of the hash.
    */
-  toHex(): string {
+  toHex(checksummed = false): string {
+    if (checksummed) {
+      return Conversions.encodeChecksummedBase16(this.hashBytes);
+    }
+
     return Buffer.from(this.hashBytes).toString('hex');
   }
 
@@ -399,56 +399,57 @@ export class Key {
 
   /**
    * Converts the key to a prefixed string representation.
+   * @param checksummed - (Optional) Whether to checksum the hash of hash-based keys following CEP-57. Defaults to `false`.
    * @returns The prefixed string of the key.
    */
-  toPrefixedString(): string {
+  toPrefixedString(checksummed = false): string {
     switch (this.type) {
       case KeyTypeID.Account:
-        return this.account!.toPrefixedString();
+        return this.account!.toPrefixedString(checksummed);
       case KeyTypeID.Hash:
-        return `${PrefixName.Hash}${this.hash?.toHex()}`;
+        return `${PrefixName.Hash}${this.hash?.toHex(checksummed)}`;
       case KeyTypeID.EraId:
         return `${PrefixName.EraId}${this.era?.toJSON()}`;
       case KeyTypeID.URef:
-        return this.uRef!.toPrefixedString();
+        return this.uRef!.toPrefixedString(checksummed);
       case KeyTypeID.Transfer:
         return this.transfer!.toPrefixedString();
       case KeyTypeID.DeployInfo:
-        return `${PrefixName.DeployInfo}${this.deploy!.toHex()}`;
+        return `${PrefixName.DeployInfo}${this.deploy!.toHex(checksummed)}`;
       case KeyTypeID.Dictionary:
-        return `${PrefixName.Dictionary}${this.dictionary!.toHex()}`;
+        return `${PrefixName.Dictionary}${this.dictionary!.toHex(checksummed)}`;
       case KeyTypeID.Balance:
-        return `${PrefixName.Balance}${this.balance!.toHex()}`;
+        return `${PrefixName.Balance}${this.balance!.toHex(checksummed)}`;
       case KeyTypeID.Bid:
-        return `${PrefixName.Bid}${this.bid!.toHex()}`;
+        return `${PrefixName.Bid}${this.bid!.toHex(checksummed)}`;
       case KeyTypeID.Withdraw:
-        return `${PrefixName.Withdraw}${this.withdraw!.toHex()}`;
+        return `${PrefixName.Withdraw}${this.withdraw!.toHex(checksummed)}`;
       case KeyTypeID.SystemContractRegistry:
         return `${
           PrefixName.SystemContractRegistry
-        }${this.systemContactRegistry!.toHex()}`;
+        }${this.systemContactRegistry!.toHex(checksummed)}`;
       case KeyTypeID.EraSummary:
-        return `${PrefixName.EraSummary}${this.eraSummary!.toHex()}`;
+        return `${PrefixName.EraSummary}${this.eraSummary!.toHex(checksummed)}`;
       case KeyTypeID.Unbond:
-        return `${PrefixName.Unbond}${this.unbond!.toHex()}`;
+        return `${PrefixName.Unbond}${this.unbond!.toHex(checksummed)}`;
       case KeyTypeID.ChainspecRegistry:
-        return `${
-          PrefixName.ChainspecRegistry
-        }${this.chainspecRegistry!.toHex()}`;
+        return `${PrefixName.ChainspecRegistry}${this.chainspecRegistry!.toHex(
+          checksummed
+        )}`;
       case KeyTypeID.ChecksumRegistry:
-        return `${
-          PrefixName.ChecksumRegistry
-        }${this.checksumRegistry!.toHex()}`;
+        return `${PrefixName.ChecksumRegistry}${this.checksumRegistry!.toHex(
+          checksummed
+        )}`;
       case KeyTypeID.BidAddr:
-        return this.bidAddr!.toPrefixedString();
+        return this.bidAddr!.toPrefixedString(checksummed);
       case KeyTypeID.Package:
-        return `${PrefixName.Package}${this.package!.toHex()}`;
+        return `${PrefixName.Package}${this.package!.toHex(checksummed)}`;
       case KeyTypeID.AddressableEntity:
-        return this.addressableEntity!.toPrefixedString();
+        return this.addressableEntity!.toPrefixedString(checksummed);
       case KeyTypeID.ByteCode:
-        return this.byteCode!.toPrefixedString();
+        return this.byteCode!.toPrefixedString(checksummed);
       case KeyTypeID.Message:
-        return this.message!.toPrefixedString();
+        return this.message!.toPrefixedString(checksummed);
       case KeyTypeID.NamedKey:
         return this.namedKey!.toPrefixedString();
       case KeyTypeID.BlockGlobal:
@@ -691,10 +692,15 @@ export class Key {
    * Creates a Key instance based on the type ID and source string.
    * @param source - The string containing the key data.
    * @param typeID - The TypeID of the key.
+   * @param checksummed - (Optional) Whether the hash of hash-based keys must be checksummed. Defaults to `false`.
    * @returns A new Key instance.
    * @throws Error if the type is not found or invalid.
    */
-  static createByType(source: string, typeID: KeyTypeID): Key {
+  static createByType(
+    source: string,
+    typeID: KeyTypeID,
+    checksummed = false
+  ): Key {
     const result = new Key();
     result.type = typeID;
 
@@ -704,81 +710,106 @@ export class Key {
 
         break;
       case KeyTypeID.Hash:
-        result.hash = Hash.fromHex(source.replace(PrefixName.Hash, ''));
+        result.hash = Hash.fromHex(
+          source.replace(PrefixName.Hash, ''),
+          checksummed
+        );
         break;
       case KeyTypeID.URef:
-        result.uRef = URef.fromString(source);
+        result.uRef = URef.fromString(source, checksummed);
         break;
       case KeyTypeID.Account:
-        result.account = AccountHash.fromString(source);
+        result.account = AccountHash.fromString(source, checksummed);
         break;
       case KeyTypeID.Transfer:
         result.transfer = TransferHash.fromJSON(source);
         break;
       case KeyTypeID.DeployInfo:
-        result.deploy = Hash.fromHex(source.replace(PrefixName.DeployInfo, ''));
+        result.deploy = Hash.fromHex(
+          source.replace(PrefixName.DeployInfo, ''),
+          checksummed
+        );
         break;
       case KeyTypeID.Balance:
-        result.balance = Hash.fromHex(source.replace(PrefixName.Balance, ''));
+        result.balance = Hash.fromHex(
+          source.replace(PrefixName.Balance, ''),
+          checksummed
+        );
         break;
       case KeyTypeID.Bid:
-        result.bid = AccountHash.fromString(source.replace(PrefixName.Bid, ''));
+        result.bid = AccountHash.fromString(
+          source.replace(PrefixName.Bid, ''),
+          checksummed
+        );
         break;
       case KeyTypeID.Withdraw:
         result.withdraw = AccountHash.fromString(
-          source.replace(PrefixName.Withdraw, '')
+          source.replace(PrefixName.Withdraw, ''),
+          checksummed
         );
         break;
       case KeyTypeID.Dictionary:
         result.dictionary = Hash.fromHex(
-          source.replace(PrefixName.Dictionary, '')
+          source.replace(PrefixName.Dictionary, ''),
+          checksummed
         );
         break;
       case KeyTypeID.SystemContractRegistry:
         result.systemContactRegistry = Hash.fromHex(
-          source.replace(PrefixName.SystemContractRegistry, '')
+          source.replace(PrefixName.SystemContractRegistry, ''),
+          checksummed
         );
         break;
       case KeyTypeID.EraSummary:
         result.eraSummary = Hash.fromHex(
-          source.replace(PrefixName.EraSummary, '')
+          source.replace(PrefixName.EraSummary, ''),
+          checksummed
         );
         break;
       case KeyTypeID.Unbond:
         result.unbond = AccountHash.fromString(
-          source.replace(PrefixName.Unbond, '')
+          source.replace(PrefixName.Unbond, ''),
+          checksummed
         );
         break;
       case KeyTypeID.ChainspecRegistry:
         result.chainspecRegistry = Hash.fromHex(
-          source.replace(PrefixName.ChainspecRegistry, '')
+          source.replace(PrefixName.ChainspecRegistry, ''),
+          checksummed
         );
         break;
       case KeyTypeID.ChecksumRegistry:
         result.checksumRegistry = Hash.fromHex(
-          source.replace(PrefixName.ChecksumRegistry, '')
+          source.replace(PrefixName.ChecksumRegistry, ''),
+          checksummed
         );
         break;
       case KeyTypeID.BidAddr:
         result.bidAddr = BidAddr.fromHex(
-          source.replace(PrefixName.BidAddr, '')
+          source.replace(PrefixName.BidAddr, ''),
+          checksummed
         );
         break;
       case KeyTypeID.Package:
-        result.package = Hash.fromHex(source.replace(PrefixName.Package, ''));
+        result.package = Hash.fromHex(
+          source.replace(PrefixName.Package, ''),
+          checksummed
+        );
         break;
       case KeyTypeID.AddressableEntity:
         result.addressableEntity = EntityAddr.fromPrefixedString(
-          source.replace(PrefixName.AddressableEntity, '')
+          source.replace(PrefixName.AddressableEntity, ''),
+          checksummed
         );
         break;
       case KeyTypeID.ByteCode:
         result.byteCode = ByteCode.fromJSON(
-          source.replace(PrefixName.ByteCode, '')
+          source.replace(PrefixName.ByteCode, ''),
+          checksummed
         );
         break;
       case KeyTypeID.Message:
-        result.message = MessageAddr.fromString(source);
+        result.message = MessageAddr.fromString(source, checksummed);
         break;
       case KeyTypeID.NamedKey:
         result.namedKey = NamedKeyAddr.fromString(
@@ -831,13 +862,16 @@ export class Key {
 
   /**
    * Creates a new Key instance from a source string.
+   * The hash of hash-based keys is validated against its CEP-57 checksum when it is mixed-case,
+   * so a mistyped key is rejected.
    * @param source - The string containing the key data.
+   * @param checksummed - (Optional) Whether the hash of hash-based keys must be checksummed. Defaults to `false`.
    * @returns A new Key instance.
    * @throws Error if the prefix is not found or the source is invalid.
    */
-  static newKey(source: string): Key {
+  static newKey(source: string, checksummed = false): Key {
     if (source.length === Hash.StringHashLen) {
-      const defaultHash = Hash.fromHex(source);
+      const defaultHash = Hash.fromHex(source, checksummed);
       const result = new Key();
       result.type = KeyTypeID.Hash;
       result.hash = defaultHash;
@@ -849,7 +883,7 @@ export class Key {
     }
 
     if (source.startsWith('00') && source.length === Hash.StringHashLen + 2) {
-      return Key.createByType(source.slice(2), KeyTypeID.Account);
+      return Key.createByType(source.slice(2), KeyTypeID.Account, checksummed);
     }
 
     const prefix = Key.findPrefixByMap(source, keyIDbyPrefix);
@@ -857,7 +891,7 @@ export class Key {
       throw new Error(`prefix is not found, source: ${source}`);
     }
 
-    return Key.createByType(source, keyIDbyPrefix.get(prefix)!);
+    return Key.createByType(source, keyIDbyPrefix.get(prefix)!, checksummed);
   }
 }
 
@@ -58,10 +58,11 @@ export class MessageAddr {
    * Instantiates a `MessageAddr` from its string representation.
    * The string should follow the prefixed format used in the system.
    * @param source - The string representation of the MessageAddr.
+   * @param checksummed - (Optional) Whether the entity and topic name hashes must be checksummed. Defaults to `false`.
    * @returns A new MessageAddr instance.
    * @throws Error if the provided string does not match the expected format.
    */
-  static fromString(source: string): MessageAddr {
+  static fromString(source: string, checksummed = false): MessageAddr {
     if (!source.startsWith(PrefixNameMessage)) {
       throw new Error(
         `Key not valid. It should start with '${PrefixNameMessage}'.`
@@ -106,8 +107,8 @@ export class MessageAddr {
     }
 
     return new MessageAddr(
-      EntityAddr.fromPrefixedString(hashAddr),
-      Hash.fromHex(topicHash),
+      EntityAddr.fromPrefixedString(hashAddr, checksummed),
+      Hash.fromHex(topicHash, checksummed),
       index
     );
   }
@@ -115,15 +116,16 @@ export class MessageAddr {
   /**
    * Converts the `MessageAddr` into a standardized prefixed string format.
    * Useful for displaying or storing the address in text format.
+   * @param checksummed - (Optional) Whether to checksum the entity and topic name hashes following CEP-57. Defaults to `false`.
    * @returns A prefixed string representation of the `MessageAddr`.
    */
-  toPrefixedString(): string {
+  toPrefixedString(checksummed = false): string {
     let result = PrefixNameMessage;
     if (!this.messageIndex) {
       result += TopicPrefix;
     }
-    result += this.entityAddr.toPrefixedString();
-    result += '-' + this.topicNameHash.toHex();
+    result += this.entityAddr.toPrefixedString(checksummed);
+    result += '-' + this.topicNameHash.toHex(checksummed);
 
     if (this.messageIndex !== undefined) {
       result += `-${this.messageIndex}`;
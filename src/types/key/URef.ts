@@ -2,6 +2,7 @@ import { jsonObject, jsonMember } from 'typedjson';
 import { IResultWithBytes } from '../clvalue';
 import { Conversions } from '../Conversions';
 import { concat } from '@ethersproject/bytes';
+import { Hash } from './Hash';
 
 /**
  * Enum representing the access permissions of a URef.
@@ -72,19 +73,25 @@ export class URef {
 
   /**
    * Converts the URef to a prefixed string representation, following the standard format for URef strings.
+   * @param checksummed - (Optional) Whether to checksum the data hex following CEP-57. Defaults to `false`.
    * @returns A string with the URef prefix, data in hex format, and access permissions in hex format.
    */
-  toPrefixedString(): string {
-    return [PrefixNameURef.replace('-', ''), this.toString()].join('-');
+  toPrefixedString(checksummed = false): string {
+    return [PrefixNameURef.replace('-', ''), this.toString(checksummed)].join(
+      '-'
+    );
   }
 
   /**
    * Converts the URef to a string, displaying its data as a hexadecimal string along with the access permissions.
+   * @param checksummed - (Optional) Whether to checksum the data hex following CEP-57. Defaults to `false`.
    * @returns A string representation of the URef.
    */
-  toString(): string {
+  toString(checksummed = false): string {
     return [
-      Conversions.encodeBase16(this.data),
+      checksummed
+        ? Conversions.encodeChecksummedBase16(this.data)
+        : Conversions.encodeBase16(this.data),
       new Array(3).join('0').slice((3 || 2) * -1) + this.access.toString(8)
     ].join('-');
   }
@@ -116,21 +123,24 @@ export class URef {
 
   /**
    * Parses a URef from a prefixed string format, which includes its data and access permissions.
+   * Mixed-case data is validated against its CEP-57 checksum, so a mistyped URef is rejected.
    * @param source - The string containing the URef data, starting with the URef prefix.
+   * @param checksummed - (Optional) Whether the data must be checksummed. Defaults to `false`.
    * @returns A new URef instance.
    * @throws ErrIncorrectUrefFormat if the string format does not match the expected URef format.
+   * @throws Error if the data is not a valid hash or its checksum doesn't match.
    */
-  static fromString(source: string): URef {
+  static fromString(source: string, checksummed = false): URef {
     if (!source.startsWith(`${PrefixNameURef}`)) {
       throw new Error("Prefix is not 'uref-'");
     }
 
     const parts = source.substring(`${PrefixNameURef}`.length).split('-', 2);
 
-    if (parts.length !== 2) {
+    if (parts.length !== 2 || !/^[0-7]{1,3}$/.test(parts[1])) {
       throw ErrIncorrectUrefFormat;
     }
-    const data = Conversions.decodeBase16(parts[0]);
+    const data = Hash.fromHex(parts[0], checksummed).toBytes();
     const access = parseInt(parts[1], 8);
     return new URef(data, access as UrefAccess);
   }
@@ -15,3 +15,4 @@ export * from './URef';
 export * from './ByteCode';
 export * from './Contract';
 export * from './ContractPackage';
+export * from './Address';
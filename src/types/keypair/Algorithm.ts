@@ -19,6 +19,11 @@ export const KeySettings: Record<KeyAlgorithm, { name: string }> = {
   [KeyAlgorithm.SECP256K1]: { name: 'SECP256K1' }
 };
 
+/**
+ * Length of the Ed25519 and Secp256K1 signatures without the algorithm byte.
+ */
+export const RAW_SIGNATURE_LENGTH = 64;
+
 /**
  * Utility class for working with key algorithms, allowing conversion to string and byte formats.
  * Provides convenient methods to retrieve the algorithm name and numeric representation.
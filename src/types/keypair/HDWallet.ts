@@ -0,0 +1,222 @@
+import { HDKey } from '@scure/bip32';
+import * as bip39 from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { hmac } from '@noble/hashes/hmac';
+import { sha512 } from '@noble/hashes/sha512';
+import { concat } from '@ethersproject/bytes';
+
+import { KeyAlgorithm } from './Algorithm';
+import { PrivateKey } from './PrivateKey';
+
+/**
+ * The SLIP-44 coin type registered for Casper.
+ */
+export const CASPER_COIN_TYPE = 506;
+
+/**
+ * The number of words of a BIP-39 mnemonic.
+ */
+export type MnemonicWordCount = 12 | 15 | 18 | 21 | 24;
+
+const HARDENED_OFFSET = 0x80000000;
+const ED25519_SEED_KEY = new TextEncoder().encode('ed25519 seed');
+
+/**
+ * Parses a derivation path such as `m/44'/506'/0'/0/0` into its child indexes,
+ * hardened ones being offset by `2^31`.
+ */
+const parsePath = (path: string): number[] => {
+  const [root, ...segments] = path.split('/');
+
+  if (root !== 'm') {
+    throw new Error(`Invalid derivation path: ${path}`);
+  }
+
+  return segments.map(segment => {
+    const match = /^(\d+)('|h)?$/.exec(segment);
+    const index = match ? parseInt(match[1], 10) : NaN;
+
+    if (!match || index >= HARDENED_OFFSET) {
+      throw new Error(`Invalid derivation path segment: ${segment}`);
+    }
+
+    return match[2] ? index + HARDENED_OFFSET : index;
+  });
+};
+
+/**
+ * Derives an ed25519 private key from a seed with SLIP-10, which only supports hardened derivation.
+ */
+const deriveEd25519 = (seed: Uint8Array, path: string): Uint8Array => {
+  let digest = hmac(sha512, ED25519_SEED_KEY, seed);
+
+  for (const index of parsePath(path)) {
+    if (index < HARDENED_OFFSET) {
+      throw new Error(
+        `ed25519 only supports hardened derivation, got non-hardened index in ${path}`
+      );
+    }
+
+    const indexBytes = new Uint8Array(4);
+    new DataView(indexBytes.buffer).setUint32(0, index);
+
+    digest = hmac(
+      sha512,
+      digest.slice(32),
+      concat([Uint8Array.of(0), digest.slice(0, 32), indexBytes])
+    );
+  }
+
+  return digest.slice(0, 32);
+};
+
+/**
+ * Derives a secp256k1 private key from a seed with BIP-32.
+ */
+const deriveSecp256k1 = (seed: Uint8Array, path: string): Uint8Array => {
+  const { privateKey } = parsePath(path).reduce(
+    (key, index) => key.deriveChild(index),
+    HDKey.fromMasterSeed(seed)
+  );
+
+  if (!privateKey) {
+    throw new Error(`Failed to derive a private key at ${path}`);
+  }
+
+  return privateKey;
+};
+
+/**
+ * A hierarchical deterministic wallet deriving Casper keys from a BIP-39 mnemonic or seed,
+ * with BIP-32 for secp256k1 keys and SLIP-10 for ed25519 keys.
+ *
+ * @example
+ * ```ts
+ * const mnemonic = HDWallet.generateMnemonic();
+ * const wallet = HDWallet.fromMnemonic(mnemonic);
+ *
+ * // m/44'/506'/0'/0/0
+ * const secp256k1Key = wallet.deriveAccount(KeyAlgorithm.SECP256K1, 0);
+ * // m/44'/506'/0'/0'/0'
+ * const ed25519Key = wallet.deriveAccount(KeyAlgorithm.ED25519, 0);
+ * ```
+ */
+export class HDWallet {
+  /** The BIP-39 seed of the wallet. */
+  private seed: Uint8Array;
+
+  /**
+   * Creates an instance of HDWallet.
+   * @param seed - The seed to derive keys from, between 16 and 64 bytes.
+   * @throws Error if the seed length is out of range.
+   */
+  constructor(seed: Uint8Array) {
+    if (seed.length < 16 || seed.length > 64) {
+      throw new Error(
+        `Invalid seed length: expected 16 to 64 bytes, got ${seed.length}`
+      );
+    }
+    this.seed = seed;
+  }
+
+  /**
+   * Generates a random English BIP-39 mnemonic.
+   * @param wordCount - The number of words of the mnemonic, `24` by default.
+   * @returns The mnemonic, its words separated by spaces.
+   */
+  public static generateMnemonic(wordCount: MnemonicWordCount = 24): string {
+    return bip39.generateMnemonic(wordlist, (wordCount / 3) * 32);
+  }
+
+  /**
+   * Checks whether a mnemonic is a valid English BIP-39 mnemonic, including its checksum.
+   * @param mnemonic - The mnemonic to check.
+   * @returns `true` if the mnemonic is valid, otherwise `false`.
+   */
+  public static validateMnemonic(mnemonic: string): boolean {
+    return bip39.validateMnemonic(mnemonic, wordlist);
+  }
+
+  /**
+   * Computes the BIP-39 seed of a mnemonic.
+   * @param mnemonic - The English BIP-39 mnemonic.
+   * @param passphrase - (Optional) The passphrase protecting the seed.
+   * @returns The 64 bytes of the seed.
+   * @throws Error if the mnemonic is invalid.
+   */
+  public static mnemonicToSeed(mnemonic: string, passphrase = ''): Uint8Array {
+    if (!HDWallet.validateMnemonic(mnemonic)) {
+      throw new Error('Invalid mnemonic');
+    }
+    return bip39.mnemonicToSeedSync(mnemonic, passphrase);
+  }
+
+  /**
+   * Creates a wallet from a BIP-39 mnemonic.
+   * @param mnemonic - The English BIP-39 mnemonic.
+   * @param passphrase - (Optional) The passphrase protecting the seed.
+   * @returns A new HDWallet instance.
+   * @throws Error if the mnemonic is invalid.
+   */
+  public static fromMnemonic(mnemonic: string, passphrase = ''): HDWallet {
+    return new HDWallet(HDWallet.mnemonicToSeed(mnemonic, passphrase));
+  }
+
+  /**
+   * Creates a wallet from a seed.
+   * @param seed - The seed to derive keys from, between 16 and 64 bytes.
+   * @returns A new HDWallet instance.
+   */
+  public static fromSeed(seed: Uint8Array): HDWallet {
+    return new HDWallet(seed);
+  }
+
+  /**
+   * Returns the derivation path of an account along the Casper coin type.
+   * Every level is hardened for ed25519 keys, as SLIP-10 requires.
+   * @param algorithm - The algorithm of the derived key.
+   * @param index - The index of the account.
+   * @returns `m/44'/506'/0'/0/{index}` for secp256k1, `m/44'/506'/0'/0'/{index}'` for ed25519.
+   */
+  public static derivationPath(algorithm: KeyAlgorithm, index = 0): string {
+    switch (algorithm) {
+      case KeyAlgorithm.ED25519:
+        return `m/44'/${CASPER_COIN_TYPE}'/0'/0'/${index}'`;
+      case KeyAlgorithm.SECP256K1:
+        return `m/44'/${CASPER_COIN_TYPE}'/0'/0/${index}`;
+      default:
+        throw new Error(`Unsupported key algorithm: ${algorithm}`);
+    }
+  }
+
+  /**
+   * Derives the private key at a path.
+   * @param algorithm - The algorithm of the derived key.
+   * @param path - The derivation path, e.g. `m/44'/506'/0'/0/0`.
+   * @returns The derived PrivateKey.
+   * @throws Error if the path is invalid, or not fully hardened for ed25519 keys.
+   */
+  public derive(algorithm: KeyAlgorithm, path: string): PrivateKey {
+    switch (algorithm) {
+      case KeyAlgorithm.ED25519:
+        return PrivateKey.fromBytes(deriveEd25519(this.seed, path), algorithm);
+      case KeyAlgorithm.SECP256K1:
+        return PrivateKey.fromBytes(
+          deriveSecp256k1(this.seed, path),
+          algorithm
+        );
+      default:
+        throw new Error(`Unsupported key algorithm: ${algorithm}`);
+    }
+  }
+
+  /**
+   * Derives the private key of an account along the Casper coin type path, see `derivationPath`.
+   * @param algorithm - The algorithm of the derived key.
+   * @param index - The index of the account.
+   * @returns The derived PrivateKey.
+   */
+  public deriveAccount(algorithm: KeyAlgorithm, index = 0): PrivateKey {
+    return this.derive(algorithm, HDWallet.derivationPath(algorithm, index));
+  }
+}
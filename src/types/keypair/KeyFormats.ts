@@ -0,0 +1,447 @@
+import { concat } from '@ethersproject/bytes';
+import * as ed25519 from '@noble/ed25519';
+import * as secp256k1 from '@noble/secp256k1';
+
+import { Conversions } from '../Conversions';
+import { SdkError } from '../SdkError';
+import { KeyAlgorithm, KeySettings } from './Algorithm';
+
+/**
+ * A JSON Web Key (RFC 7517) holding an Ed25519 (`OKP`, RFC 8037) or secp256k1 (`EC`, RFC 8812) key.
+ * Private keys carry the `d` member, public keys only the coordinates.
+ */
+export interface Jwk {
+  kty: 'OKP' | 'EC';
+  crv: 'Ed25519' | 'secp256k1';
+  /** The base64url public key, or its x coordinate for `EC` keys. */
+  x: string;
+  /** The base64url y coordinate of `EC` keys. */
+  y?: string;
+  /** The base64url private key. */
+  d?: string;
+}
+
+/**
+ * Error thrown when a key can't be imported from an external format,
+ * e.g. when it is malformed or holds a key of another algorithm than the requested one.
+ */
+export class KeyFormatError extends SdkError {
+  constructor(message: string) {
+    super(`Invalid key: ${message}`);
+    this.name = 'KeyFormatError';
+  }
+}
+
+/**
+ * Error thrown when a key holds a key of another algorithm than the requested one.
+ */
+export class KeyAlgorithmMismatchError extends KeyFormatError {
+  constructor(expected: KeyAlgorithm, actual: KeyAlgorithm) {
+    super(
+      `expected a ${KeySettings[expected].name} key, got a ${KeySettings[actual].name} key`
+    );
+    this.name = 'KeyAlgorithmMismatchError';
+  }
+}
+
+const KEY_SIZE = 32;
+
+const TAG_INTEGER = 0x02;
+const TAG_BIT_STRING = 0x03;
+const TAG_OCTET_STRING = 0x04;
+const TAG_SEQUENCE = 0x30;
+const TAG_EC_PARAMETERS = 0xa0;
+const TAG_EC_PUBLIC_KEY = 0xa1;
+
+// DER encodings of the object identifiers, including tag and length
+const OID_ED25519 = '06032b6570'; // 1.3.101.112
+const OID_EC_PUBLIC_KEY = '06072a8648ce3d0201'; // 1.2.840.10045.2.1
+const OID_SECP256K1 = '06052b8104000a'; // 1.3.132.0.10
+
+interface Asn1Node {
+  tag: number;
+  /** The whole encoding of the node, including tag and length. */
+  der: Uint8Array;
+  content: Uint8Array;
+}
+
+const encodeNode = (tag: number, ...content: Uint8Array[]): Uint8Array => {
+  const body = concat(content);
+  const length =
+    body.length < 0x80
+      ? [body.length]
+      : body.length < 0x100
+      ? [0x81, body.length]
+      : [0x82, body.length >> 8, body.length & 0xff];
+
+  return concat([Uint8Array.of(tag, ...length), body]);
+};
+
+const readNodes = (bytes: Uint8Array): Asn1Node[] => {
+  const nodes: Asn1Node[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    if (offset + 2 > bytes.length) {
+      throw new KeyFormatError('truncated DER structure');
+    }
+
+    const tag = bytes[offset];
+    let length = bytes[offset + 1];
+    let headerSize = 2;
+
+    if (length & 0x80) {
+      const lengthSize = length & 0x7f;
+
+      if (lengthSize < 1 || lengthSize > 2) {
+        throw new KeyFormatError('unsupported DER length');
+      }
+
+      length = 0;
+      for (let i = 0; i < lengthSize; i++) {
+        length = (length << 8) | bytes[offset + 2 + i];
+      }
+      headerSize += lengthSize;
+    }
+
+    const end = offset + headerSize + length;
+
+    if (end > bytes.length) {
+      throw new KeyFormatError('truncated DER structure');
+    }
+
+    nodes.push({
+      tag,
+      der: bytes.subarray(offset, end),
+      content: bytes.subarray(offset + headerSize, end)
+    });
+    offset = end;
+  }
+
+  return nodes;
+};
+
+const readChildren = (
+  node: Asn1Node | undefined,
+  tag = TAG_SEQUENCE
+): Asn1Node[] => {
+  if (!node || node.tag !== tag) {
+    throw new KeyFormatError('unexpected DER structure');
+  }
+
+  return readNodes(node.content);
+};
+
+const readSingle = (bytes: Uint8Array): Asn1Node => {
+  const nodes = readNodes(bytes);
+
+  if (nodes.length !== 1) {
+    throw new KeyFormatError('unexpected DER structure');
+  }
+
+  return nodes[0];
+};
+
+const readKeyBytes = (node: Asn1Node | undefined, tag: number): Uint8Array => {
+  if (!node || node.tag !== tag) {
+    throw new KeyFormatError('unexpected DER structure');
+  }
+
+  return node.content;
+};
+
+const algorithmIdentifier = (algorithm: KeyAlgorithm): Uint8Array =>
+  algorithm === KeyAlgorithm.ED25519
+    ? encodeNode(TAG_SEQUENCE, Conversions.decodeBase16(OID_ED25519))
+    : encodeNode(
+        TAG_SEQUENCE,
+        Conversions.decodeBase16(OID_EC_PUBLIC_KEY),
+        Conversions.decodeBase16(OID_SECP256K1)
+      );
+
+const parseAlgorithmIdentifier = (node: Asn1Node | undefined): KeyAlgorithm => {
+  const oids = readChildren(node).map(it => Conversions.encodeBase16(it.der));
+
+  if (oids[0] === OID_ED25519) {
+    return KeyAlgorithm.ED25519;
+  }
+
+  if (oids[0] === OID_EC_PUBLIC_KEY) {
+    if (oids[1] !== OID_SECP256K1) {
+      throw new KeyFormatError('unsupported elliptic curve');
+    }
+    return KeyAlgorithm.SECP256K1;
+  }
+
+  throw new KeyFormatError('unsupported key algorithm');
+};
+
+const checkAlgorithm = (expected: KeyAlgorithm, actual: KeyAlgorithm) => {
+  if (expected !== actual) {
+    throw new KeyAlgorithmMismatchError(expected, actual);
+  }
+};
+
+const checkKeySize = (key: Uint8Array) => {
+  if (key.length !== KEY_SIZE) {
+    throw new KeyFormatError(
+      `expected a ${KEY_SIZE}-byte private key, got ${key.length} bytes`
+    );
+  }
+};
+
+/**
+ * Parses an `ECPrivateKey` structure (SEC 1, RFC 5915).
+ */
+const parseEcPrivateKey = (node: Asn1Node): Uint8Array => {
+  const [, privateKey, ...rest] = readChildren(node);
+
+  for (const optional of rest) {
+    if (
+      optional.tag === TAG_EC_PARAMETERS &&
+      Conversions.encodeBase16(optional.content) !== OID_SECP256K1
+    ) {
+      throw new KeyFormatError('unsupported elliptic curve');
+    }
+  }
+
+  return readKeyBytes(privateKey, TAG_OCTET_STRING);
+};
+
+const toPublicKey = (algorithm: KeyAlgorithm, publicKey: Uint8Array) => {
+  try {
+    return algorithm === KeyAlgorithm.ED25519
+      ? ed25519.Point.fromHex(publicKey).toRawBytes()
+      : secp256k1.Point.fromHex(publicKey).toRawBytes(true);
+  } catch {
+    throw new KeyFormatError('invalid public key');
+  }
+};
+
+const derivePublicKey = (algorithm: KeyAlgorithm, privateKey: Uint8Array) =>
+  algorithm === KeyAlgorithm.ED25519
+    ? ed25519.sync.getPublicKey(privateKey)
+    : secp256k1.getPublicKey(privateKey, true);
+
+/**
+ * Encodes a private key as a PKCS#8 `PrivateKeyInfo` DER structure, the layout produced by `openssl pkey -outform DER`.
+ * @param privateKey - The 32 bytes of the private key.
+ * @param algorithm - The algorithm of the key.
+ * @returns The DER bytes.
+ */
+export const encodePrivateKeyDer = (
+  privateKey: Uint8Array,
+  algorithm: KeyAlgorithm
+): Uint8Array => {
+  const privateKeyOctets =
+    algorithm === KeyAlgorithm.ED25519
+      ? encodeNode(TAG_OCTET_STRING, privateKey)
+      : encodeNode(
+          TAG_SEQUENCE,
+          encodeNode(TAG_INTEGER, Uint8Array.of(1)),
+          encodeNode(TAG_OCTET_STRING, privateKey),
+          encodeNode(
+            TAG_EC_PUBLIC_KEY,
+            encodeNode(
+              TAG_BIT_STRING,
+              Uint8Array.of(0),
+              secp256k1.getPublicKey(privateKey, false)
+            )
+          )
+        );
+
+  return encodeNode(
+    TAG_SEQUENCE,
+    encodeNode(TAG_INTEGER, Uint8Array.of(0)),
+    algorithmIdentifier(algorithm),
+    encodeNode(TAG_OCTET_STRING, privateKeyOctets)
+  );
+};
+
+/**
+ * Decodes a private key from a PKCS#8 DER structure, or from a SEC 1 `ECPrivateKey` for secp256k1 keys.
+ * @param der - The DER bytes.
+ * @param algorithm - The expected algorithm of the key.
+ * @returns The 32 bytes of the private key.
+ * @throws {KeyAlgorithmMismatchError} If the structure holds a key of another algorithm.
+ * @throws {KeyFormatError} If the structure is malformed.
+ */
+export const decodePrivateKeyDer = (
+  der: Uint8Array,
+  algorithm: KeyAlgorithm
+): Uint8Array => {
+  const root = readSingle(der);
+  const [version, second, third] = readChildren(root);
+
+  if (version?.tag === TAG_INTEGER && second?.tag === TAG_OCTET_STRING) {
+    // SEC 1 `ECPrivateKey`, as produced by `openssl ec -outform DER`
+    checkAlgorithm(algorithm, KeyAlgorithm.SECP256K1);
+    const key = parseEcPrivateKey(root);
+    checkKeySize(key);
+    return key;
+  }
+
+  checkAlgorithm(algorithm, parseAlgorithmIdentifier(second));
+  const privateKeyOctets = readSingle(readKeyBytes(third, TAG_OCTET_STRING));
+  const key =
+    algorithm === KeyAlgorithm.ED25519
+      ? readKeyBytes(privateKeyOctets, TAG_OCTET_STRING)
+      : parseEcPrivateKey(privateKeyOctets);
+
+  checkKeySize(key);
+  return key;
+};
+
+/**
+ * Encodes a public key as an X.509 `SubjectPublicKeyInfo` DER structure, the layout produced by `openssl pkey -pubout -outform DER`.
+ * secp256k1 keys are encoded uncompressed, as OpenSSL does.
+ * @param publicKey - The public key bytes, without the algorithm byte.
+ * @param algorithm - The algorithm of the key.
+ * @returns The DER bytes.
+ */
+export const encodePublicKeyDer = (
+  publicKey: Uint8Array,
+  algorithm: KeyAlgorithm
+): Uint8Array => {
+  const key =
+    algorithm === KeyAlgorithm.ED25519
+      ? publicKey
+      : secp256k1.Point.fromHex(publicKey).toRawBytes(false);
+
+  return encodeNode(
+    TAG_SEQUENCE,
+    algorithmIdentifier(algorithm),
+    encodeNode(TAG_BIT_STRING, Uint8Array.of(0), key)
+  );
+};
+
+/**
+ * Decodes a public key from an X.509 `SubjectPublicKeyInfo` DER structure.
+ * @param der - The DER bytes.
+ * @param algorithm - The expected algorithm of the key.
+ * @returns The public key bytes without the algorithm byte, compressed for secp256k1 keys.
+ * @throws {KeyAlgorithmMismatchError} If the structure holds a key of another algorithm.
+ * @throws {KeyFormatError} If the structure is malformed.
+ */
+export const decodePublicKeyDer = (
+  der: Uint8Array,
+  algorithm: KeyAlgorithm
+): Uint8Array => {
+  const [algorithmId, bitString] = readChildren(readSingle(der));
+
+  checkAlgorithm(algorithm, parseAlgorithmIdentifier(algorithmId));
+  const bits = readKeyBytes(bitString, TAG_BIT_STRING);
+
+  if (bits[0] !== 0) {
+    throw new KeyFormatError('unexpected DER structure');
+  }
+
+  return toPublicKey(algorithm, bits.subarray(1));
+};
+
+const encodeBase64Url = (bytes: Uint8Array): string =>
+  Conversions.encodeBase64(bytes)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const decodeBase64Url = (value: string | undefined, member: string) => {
+  if (typeof value !== 'string' || !/^[A-Za-z0-9_-]*$/.test(value)) {
+    throw new KeyFormatError(`missing or malformed JWK member "${member}"`);
+  }
+
+  return Conversions.decodeBase64(value.replace(/-/g, '+').replace(/_/g, '/'));
+};
+
+/**
+ * Encodes a key as a JSON Web Key.
+ * @param publicKey - The public key bytes, without the algorithm byte.
+ * @param algorithm - The algorithm of the key.
+ * @param privateKey - (Optional) The 32 bytes of the private key, exported as the `d` member.
+ * @returns The JWK.
+ */
+export const encodeJwk = (
+  publicKey: Uint8Array,
+  algorithm: KeyAlgorithm,
+  privateKey?: Uint8Array
+): Jwk => {
+  let jwk: Jwk;
+
+  if (algorithm === KeyAlgorithm.ED25519) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: encodeBase64Url(publicKey) };
+  } else {
+    const uncompressed = secp256k1.Point.fromHex(publicKey).toRawBytes(false);
+    jwk = {
+      kty: 'EC',
+      crv: 'secp256k1',
+      x: encodeBase64Url(uncompressed.subarray(1, 1 + KEY_SIZE)),
+      y: encodeBase64Url(uncompressed.subarray(1 + KEY_SIZE))
+    };
+  }
+
+  if (privateKey) {
+    jwk.d = encodeBase64Url(privateKey);
+  }
+
+  return jwk;
+};
+
+/**
+ * Decodes a key from a JSON Web Key.
+ * @param jwk - The JWK, as an object or a JSON string.
+ * @param algorithm - The expected algorithm of the key.
+ * @returns The public key bytes without the algorithm byte (compressed for secp256k1 keys),
+ * and the private key bytes if the JWK holds a private key.
+ * @throws {KeyAlgorithmMismatchError} If the JWK holds a key of another algorithm.
+ * @throws {KeyFormatError} If the JWK is malformed or if its public key doesn't match its private key.
+ */
+export const decodeJwk = (
+  jwk: Jwk | string,
+  algorithm: KeyAlgorithm
+): { publicKey: Uint8Array; privateKey?: Uint8Array } => {
+  let parsed: Jwk;
+
+  try {
+    parsed = typeof jwk === 'string' ? JSON.parse(jwk) : jwk;
+  } catch (err) {
+    throw new KeyFormatError(`malformed JSON, ${err}`);
+  }
+
+  let actual: KeyAlgorithm;
+
+  if (parsed.kty === 'OKP' && parsed.crv === 'Ed25519') {
+    actual = KeyAlgorithm.ED25519;
+  } else if (parsed.kty === 'EC' && parsed.crv === 'secp256k1') {
+    actual = KeyAlgorithm.SECP256K1;
+  } else {
+    throw new KeyFormatError(
+      `unsupported JWK key type ${parsed.kty} with curve ${parsed.crv}`
+    );
+  }
+
+  checkAlgorithm(algorithm, actual);
+
+  const x = decodeBase64Url(parsed.x, 'x');
+  const publicKey = toPublicKey(
+    algorithm,
+    algorithm === KeyAlgorithm.ED25519
+      ? x
+      : concat([Uint8Array.of(4), x, decodeBase64Url(parsed.y, 'y')])
+  );
+
+  if (parsed.d === undefined) {
+    return { publicKey };
+  }
+
+  const privateKey = decodeBase64Url(parsed.d, 'd');
+  checkKeySize(privateKey);
+
+  const derived = derivePublicKey(algorithm, privateKey);
+  if (
+    Conversions.encodeBase16(derived) !== Conversions.encodeBase16(publicKey)
+  ) {
+    throw new KeyFormatError('JWK public key does not match its private key');
+  }
+
+  return { publicKey, privateKey };
+};
@@ -0,0 +1,272 @@
+import { cpus } from 'os';
+import { Worker } from 'worker_threads';
+
+import { KeyAlgorithm } from './Algorithm';
+import { PrivateKey } from './PrivateKey';
+
+/**
+ * A generated key with the identifiers derived from its public key.
+ */
+export interface GeneratedKey {
+  privateKey: PrivateKey;
+  /** The public key hex, including the algorithm tag. */
+  publicKeyHex: string;
+  /** The checksummed public key hex. */
+  checksummedPublicKeyHex: string;
+  /** The account hash, as an `account-hash-` prefixed string. */
+  accountHash: string;
+}
+
+/**
+ * Options of `generateKeys`.
+ */
+export interface KeyGenerationOptions {
+  /** The number of keys to generate. */
+  count: number;
+  /** The algorithm of the keys, ED25519 by default. */
+  algorithm?: KeyAlgorithm;
+  /**
+   * Only keeps keys whose identifier starts with this hex prefix, compared case-insensitively.
+   * For public keys, the prefix is matched after the algorithm tag, so secp256k1 keys start with `02` or `03`.
+   */
+  vanityPrefix?: string;
+  /** The identifier the vanity prefix is matched against, the public key by default. */
+  vanityTarget?: 'publicKey' | 'accountHash';
+  /**
+   * The maximum number of keys to generate when looking for vanity keys, 1,000,000 by default.
+   * Fewer than `count` keys are returned when it is reached.
+   */
+  maxAttempts?: number;
+}
+
+/**
+ * Options of `generateKeysInWorkers`.
+ */
+export interface WorkerKeyGenerationOptions extends KeyGenerationOptions {
+  /** The number of worker threads, the number of CPUs by default. */
+  workers?: number;
+  /** The Node.js options of the worker threads, inherited from the main thread by default. */
+  execArgv?: string[];
+}
+
+/**
+ * The serializable form of a `GeneratedKey`, exchanged with worker threads.
+ */
+interface SerializedKey {
+  privateKeyHex: string;
+  publicKeyHex: string;
+  checksummedPublicKeyHex: string;
+  accountHash: string;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 1_000_000;
+
+// The number of attempts after which a worker reports the vanity keys it found
+const VANITY_BATCH_SIZE = 1_000;
+
+const ACCOUNT_HASH_PREFIX = 'account-hash-';
+
+// Runs in the worker threads, loading this module from the path it was loaded from
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const { generateKeys } = require(workerData.modulePath);
+const { options, attempts, batchSize } = workerData;
+for (let done = 0; done < attempts; done += batchSize) {
+  const keys = generateKeys({
+    ...options,
+    maxAttempts: Math.min(batchSize, attempts - done)
+  });
+  parentPort.postMessage(
+    keys.map(key => ({
+      privateKeyHex: Buffer.from(key.privateKey.toBytes()).toString('hex'),
+      publicKeyHex: key.publicKeyHex,
+      checksummedPublicKeyHex: key.checksummedPublicKeyHex,
+      accountHash: key.accountHash
+    }))
+  );
+}
+`;
+
+const toGeneratedKey = (privateKey: PrivateKey): GeneratedKey => ({
+  privateKey,
+  publicKeyHex: privateKey.publicKey.toHex(),
+  checksummedPublicKeyHex: privateKey.publicKey.toHex(true),
+  accountHash: privateKey.publicKey.accountHash().toPrefixedString()
+});
+
+const matchesVanityPrefix = (
+  key: GeneratedKey,
+  prefix: string,
+  target: 'publicKey' | 'accountHash'
+): boolean => {
+  const identifier =
+    target === 'accountHash'
+      ? key.accountHash.slice(ACCOUNT_HASH_PREFIX.length)
+      : key.publicKeyHex.slice(2);
+
+  return identifier.startsWith(prefix);
+};
+
+const validateOptions = ({ count, vanityPrefix }: KeyGenerationOptions) => {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid key count: ${count}`);
+  }
+
+  if (vanityPrefix !== undefined && !/^[0-9a-fA-F]+$/.test(vanityPrefix)) {
+    throw new Error(`Invalid vanity prefix, expected hex: ${vanityPrefix}`);
+  }
+};
+
+/**
+ * Generates a batch of keys with their public key hex, checksummed hex and account hash,
+ * optionally keeping only the keys matching a vanity prefix.
+ * @param options - The number and algorithm of the keys, and the vanity prefix to look for.
+ * @returns The generated keys, fewer than `count` if `maxAttempts` is reached before finding enough vanity keys.
+ * @throws Error if the count or the vanity prefix is invalid.
+ *
+ * @example
+ * ```ts
+ * const keys = generateKeys({
+ *   count: 1,
+ *   algorithm: KeyAlgorithm.ED25519,
+ *   vanityPrefix: 'cafe',
+ *   maxAttempts: 500_000
+ * });
+ * ```
+ */
+export const generateKeys = ({
+  count,
+  algorithm = KeyAlgorithm.ED25519,
+  vanityPrefix,
+  vanityTarget = 'publicKey',
+  maxAttempts = DEFAULT_MAX_ATTEMPTS
+}: KeyGenerationOptions): GeneratedKey[] => {
+  validateOptions({ count, vanityPrefix });
+
+  const prefix = vanityPrefix?.toLowerCase();
+  const keys: GeneratedKey[] = [];
+
+  for (
+    let attempts = 0;
+    keys.length < count && (!prefix || attempts < maxAttempts);
+    attempts++
+  ) {
+    const key = toGeneratedKey(PrivateKey.generate(algorithm));
+
+    if (!prefix || matchesVanityPrefix(key, prefix, vanityTarget)) {
+      keys.push(key);
+    }
+  }
+
+  return keys;
+};
+
+/**
+ * Generates a batch of keys like `generateKeys`, spreading the work over a pool of worker threads.
+ * Without a vanity prefix, the keys are split between the workers. With one, every worker looks for
+ * vanity keys, sharing `maxAttempts`, and the pool is terminated once `count` keys are found.
+ * Only supported in Node.js.
+ * @param options - The options of `generateKeys`, the number of workers and their Node.js options.
+ * @returns A promise resolving to the generated keys.
+ * @throws Error if the count or the vanity prefix is invalid, or if worker threads are not available.
+ */
+export const generateKeysInWorkers = async ({
+  workers,
+  execArgv,
+  ...options
+}: WorkerKeyGenerationOptions): Promise<GeneratedKey[]> => {
+  // Undefined in browser bundles, which don't include Node.js modules
+  if (!Worker) {
+    throw new Error('Worker threads are only supported in Node.js');
+  }
+
+  validateOptions(options);
+
+  const { count, vanityPrefix } = options;
+
+  if (count === 0) {
+    return [];
+  }
+
+  const poolSize = Math.max(
+    1,
+    vanityPrefix === undefined
+      ? Math.min(workers ?? cpus().length, count)
+      : workers ?? cpus().length
+  );
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+  const serializedKeys = await new Promise<SerializedKey[]>(
+    (resolve, reject) => {
+      const keys: SerializedKey[] = [];
+      const pool: Worker[] = [];
+      let running = poolSize;
+      let settled = false;
+
+      const settle = (err?: Error) => {
+        if (settled) {
+          return;
+        }
+
+        settled = true;
+        pool.forEach(worker => worker.terminate());
+
+        if (err) {
+          reject(err);
+        } else {
+          resolve(keys.slice(0, count));
+        }
+      };
+
+      for (let i = 0; i < poolSize; i++) {
+        const share = (total: number) =>
+          Math.floor(total / poolSize) + (i < total % poolSize ? 1 : 0);
+
+        const worker = new Worker(WORKER_SOURCE, {
+          eval: true,
+          execArgv,
+          workerData: {
+            modulePath: __filename,
+            ...(vanityPrefix === undefined
+              ? {
+                  options: { ...options, count: share(count) },
+                  attempts: 1,
+                  batchSize: 1
+                }
+              : {
+                  options,
+                  attempts: share(maxAttempts),
+                  batchSize: VANITY_BATCH_SIZE
+                })
+          }
+        });
+
+        worker.on('message', (batch: SerializedKey[]) => {
+          keys.push(...batch);
+
+          if (keys.length >= count) {
+            settle();
+          }
+        });
+        worker.once('error', settle);
+        worker.once('exit', (code: number) => {
+          if (code !== 0) {
+            settle(new Error(`Key generation worker exited with code ${code}`));
+          } else if (--running === 0) {
+            settle();
+          }
+        });
+        pool.push(worker);
+      }
+    }
+  );
+
+  const algorithm = options.algorithm ?? KeyAlgorithm.ED25519;
+
+  return serializedKeys.map(key => ({
+    privateKey: PrivateKey.fromHex(key.privateKeyHex, algorithm),
+    publicKeyHex: key.publicKeyHex,
+    checksummedPublicKeyHex: key.checksummedPublicKeyHex,
+    accountHash: key.accountHash
+  }));
+};
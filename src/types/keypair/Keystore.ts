@@ -0,0 +1,349 @@
+import * as nodeCrypto from 'crypto';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+import {
+  bytesToHex,
+  hexToBytes,
+  randomBytes,
+  utf8ToBytes
+} from '@noble/hashes/utils';
+
+import { KeyAlgorithm, KeySettings } from './Algorithm';
+import { SdkError } from '../SdkError';
+
+/**
+ * The version of the keystore format written by `encryptKeystore`.
+ */
+export const KEYSTORE_VERSION = 1;
+
+/**
+ * The parameters of the scrypt key derivation.
+ */
+export interface ScryptParams {
+  /** The CPU/memory cost, a power of two. */
+  n: number;
+  /** The block size. */
+  r: number;
+  /** The parallelization. */
+  p: number;
+  /** The length of the derived key in bytes. */
+  dklen: number;
+  /** The hex-encoded salt. */
+  salt: string;
+}
+
+/**
+ * The parameters of the PBKDF2 key derivation.
+ */
+export interface Pbkdf2Params {
+  /** The number of iterations. */
+  c: number;
+  /** The pseudo-random function, only `hmac-sha256` is supported. */
+  prf: 'hmac-sha256';
+  /** The length of the derived key in bytes. */
+  dklen: number;
+  /** The hex-encoded salt. */
+  salt: string;
+}
+
+/**
+ * The key derivation function of a keystore, with its parameters.
+ */
+export type KeystoreKdf =
+  | { kdf: 'scrypt'; kdfparams: ScryptParams }
+  | { kdf: 'pbkdf2'; kdfparams: Pbkdf2Params };
+
+/**
+ * A private key encrypted with a password, as produced by `PrivateKey.toEncryptedJson()`.
+ *
+ * The key is encrypted with AES-256-GCM under a key derived from the password,
+ * the public key being authenticated along with the ciphertext.
+ */
+export interface Keystore {
+  version: number;
+  /** The name of the key algorithm, `ED25519` or `SECP256K1`. */
+  algorithm: string;
+  /** The hex-encoded public key, prefixed with the algorithm byte. */
+  publicKey: string;
+  crypto: {
+    cipher: 'aes-256-gcm';
+    /** The hex-encoded ciphertext followed by the authentication tag. */
+    ciphertext: string;
+    cipherparams: { iv: string };
+  } & KeystoreKdf;
+}
+
+/**
+ * Options for encrypting a keystore.
+ */
+export interface KeystoreOptions {
+  /**
+   * The key derivation function. Defaults to `scrypt`.
+   */
+  kdf?: 'scrypt' | 'pbkdf2';
+  /**
+   * The scrypt cost. Defaults to `131072` (2^17).
+   */
+  scryptN?: number;
+  /**
+   * The PBKDF2 iterations. Defaults to `600000`.
+   */
+  pbkdf2Iterations?: number;
+}
+
+/**
+ * Error thrown when a keystore is malformed or uses an unsupported version, cipher or key derivation.
+ */
+export class InvalidKeystoreError extends SdkError {
+  constructor(message: string) {
+    super(`Invalid keystore: ${message}`);
+    this.name = 'InvalidKeystoreError';
+  }
+}
+
+/**
+ * Error thrown when a keystore cannot be decrypted, because of a wrong password or a tampered keystore.
+ */
+export class KeystoreDecryptionError extends SdkError {
+  constructor() {
+    super('Failed to decrypt keystore: wrong password or corrupted keystore');
+    this.name = 'KeystoreDecryptionError';
+  }
+}
+
+const DEFAULT_SCRYPT_N = 1 << 17;
+const DEFAULT_PBKDF2_ITERATIONS = 600000;
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+// Upper bounds of the key derivation costs read from keystores, so crafted files can't exhaust the memory or CPU
+const MAX_SCRYPT_N = 1 << 20;
+const MAX_SCRYPT_R = 16;
+const MAX_SCRYPT_P = 16;
+const MAX_SCRYPT_MEMORY = 1 << 30;
+const MAX_PBKDF2_ITERATIONS = 10000000;
+
+const subtleCrypto = (): SubtleCrypto => {
+  const subtle =
+    globalThis.crypto?.subtle ??
+    // Node.js 16 only exposes the Web Crypto API as a module
+    (nodeCrypto as { webcrypto?: { subtle?: SubtleCrypto } }).webcrypto?.subtle;
+
+  if (!subtle) {
+    throw new InvalidKeystoreError(
+      'Web Crypto API is not available in this environment'
+    );
+  }
+
+  return subtle;
+};
+
+const isIntegerInRange = (value: unknown, min: number, max: number) =>
+  Number.isInteger(value) &&
+  (value as number) >= min &&
+  (value as number) <= max;
+
+/**
+ * Checks the key derivation of a keystore before running it.
+ */
+const checkKdf = ({ kdf, kdfparams }: KeystoreKdf) => {
+  if (kdfparams?.dklen !== KEY_LENGTH) {
+    throw new InvalidKeystoreError(
+      `unsupported derived key length ${kdfparams?.dklen}`
+    );
+  }
+
+  if (kdf === 'scrypt') {
+    const { n, r, p } = kdfparams;
+    if (
+      !isIntegerInRange(n, 2, MAX_SCRYPT_N) ||
+      (n & (n - 1)) !== 0 ||
+      !isIntegerInRange(r, 1, MAX_SCRYPT_R) ||
+      !isIntegerInRange(p, 1, MAX_SCRYPT_P) ||
+      128 * n * r > MAX_SCRYPT_MEMORY
+    ) {
+      throw new InvalidKeystoreError(
+        `unsupported scrypt parameters n=${n}, r=${r}, p=${p}`
+      );
+    }
+    return;
+  }
+
+  if (kdf === 'pbkdf2') {
+    if (!isIntegerInRange(kdfparams.c, 1, MAX_PBKDF2_ITERATIONS)) {
+      throw new InvalidKeystoreError(
+        `unsupported PBKDF2 iterations ${kdfparams.c}`
+      );
+    }
+    return;
+  }
+
+  throw new InvalidKeystoreError(`unsupported key derivation ${kdf}`);
+};
+
+const deriveKey = (
+  password: string,
+  salt: Uint8Array,
+  { kdf, kdfparams }: KeystoreKdf
+): Promise<Uint8Array> => {
+  if (kdf === 'scrypt') {
+    return scryptAsync(password, salt, {
+      N: kdfparams.n,
+      r: kdfparams.r,
+      p: kdfparams.p,
+      dkLen: kdfparams.dklen
+    });
+  }
+
+  if (kdf === 'pbkdf2' && kdfparams.prf === 'hmac-sha256') {
+    return pbkdf2Async(sha256, password, salt, {
+      c: kdfparams.c,
+      dkLen: kdfparams.dklen
+    });
+  }
+
+  throw new InvalidKeystoreError(`unsupported key derivation ${kdf}`);
+};
+
+const importAesKey = (key: Uint8Array, usage: KeyUsage) =>
+  subtleCrypto().importKey('raw', key, { name: 'AES-GCM' }, false, [usage]);
+
+/**
+ * Encrypts the bytes of a private key into a keystore.
+ *
+ * @param key - The bytes of the private key.
+ * @param algorithm - The algorithm of the key.
+ * @param publicKey - The hex-encoded public key, prefixed with the algorithm byte.
+ * @param password - The password to encrypt the key with.
+ * @param options - (Optional) The key derivation and its cost.
+ * @returns The keystore.
+ * @throws {InvalidKeystoreError} If the Web Crypto API is not available.
+ */
+export const encryptKeystore = async (
+  key: Uint8Array,
+  algorithm: KeyAlgorithm,
+  publicKey: string,
+  password: string,
+  options: KeystoreOptions = {}
+): Promise<Keystore> => {
+  const salt = randomBytes(32);
+  const iv = randomBytes(IV_LENGTH);
+
+  const kdfCrypto: KeystoreKdf =
+    options.kdf === 'pbkdf2'
+      ? {
+          kdf: 'pbkdf2',
+          kdfparams: {
+            c: options.pbkdf2Iterations ?? DEFAULT_PBKDF2_ITERATIONS,
+            prf: 'hmac-sha256',
+            dklen: KEY_LENGTH,
+            salt: bytesToHex(salt)
+          }
+        }
+      : {
+          kdf: 'scrypt',
+          kdfparams: {
+            n: options.scryptN ?? DEFAULT_SCRYPT_N,
+            r: 8,
+            p: 1,
+            dklen: KEY_LENGTH,
+            salt: bytesToHex(salt)
+          }
+        };
+
+  const aesKey = await importAesKey(
+    await deriveKey(password, salt, kdfCrypto),
+    'encrypt'
+  );
+
+  const ciphertext = await subtleCrypto().encrypt(
+    { name: 'AES-GCM', iv, additionalData: utf8ToBytes(publicKey) },
+    aesKey,
+    key
+  );
+
+  return {
+    version: KEYSTORE_VERSION,
+    algorithm: KeySettings[algorithm].name,
+    publicKey,
+    crypto: {
+      cipher: 'aes-256-gcm',
+      ciphertext: bytesToHex(new Uint8Array(ciphertext)),
+      cipherparams: { iv: bytesToHex(iv) },
+      ...kdfCrypto
+    }
+  };
+};
+
+/**
+ * Decrypts the private key of a keystore.
+ *
+ * @param keystore - The keystore, or its JSON string.
+ * @param password - The password the key was encrypted with.
+ * @returns The bytes and algorithm of the private key, and the public key it is expected to match.
+ * @throws {InvalidKeystoreError} If the keystore is malformed or unsupported, its key derivation is too costly,
+ * or the Web Crypto API is not available.
+ * @throws {KeystoreDecryptionError} If the password is wrong or the keystore was tampered with.
+ */
+export const decryptKeystore = async (
+  keystore: Keystore | string,
+  password: string
+): Promise<{ key: Uint8Array; algorithm: KeyAlgorithm; publicKey: string }> => {
+  let parsed: Keystore;
+
+  try {
+    parsed = typeof keystore === 'string' ? JSON.parse(keystore) : keystore;
+  } catch (err) {
+    throw new InvalidKeystoreError(`malformed JSON, ${err}`);
+  }
+
+  if (parsed?.version !== KEYSTORE_VERSION) {
+    throw new InvalidKeystoreError(`unsupported version ${parsed?.version}`);
+  }
+
+  if (parsed.crypto?.cipher !== 'aes-256-gcm') {
+    throw new InvalidKeystoreError(
+      `unsupported cipher ${parsed.crypto?.cipher}`
+    );
+  }
+
+  const algorithm = [KeyAlgorithm.ED25519, KeyAlgorithm.SECP256K1].find(
+    alg => KeySettings[alg].name === parsed.algorithm
+  );
+
+  if (!algorithm) {
+    throw new InvalidKeystoreError(`unsupported algorithm ${parsed.algorithm}`);
+  }
+
+  checkKdf(parsed.crypto);
+
+  let ciphertext: Uint8Array;
+  let iv: Uint8Array;
+  let salt: Uint8Array;
+
+  try {
+    ciphertext = hexToBytes(parsed.crypto.ciphertext);
+    iv = hexToBytes(parsed.crypto.cipherparams.iv);
+    salt = hexToBytes(parsed.crypto.kdfparams.salt);
+  } catch (err) {
+    throw new InvalidKeystoreError(`malformed ciphertext, IV or salt, ${err}`);
+  }
+
+  const aesKey = await importAesKey(
+    await deriveKey(password, salt, parsed.crypto),
+    'decrypt'
+  );
+
+  try {
+    const key = await subtleCrypto().decrypt(
+      { name: 'AES-GCM', iv, additionalData: utf8ToBytes(parsed.publicKey) },
+      aesKey,
+      ciphertext
+    );
+
+    return { key: new Uint8Array(key), algorithm, publicKey: parsed.publicKey };
+  } catch {
+    throw new KeystoreDecryptionError();
+  }
+};
@@ -0,0 +1,76 @@
+import { concat } from '@ethersproject/bytes';
+
+import { Conversions } from '../Conversions';
+import { RAW_SIGNATURE_LENGTH } from './Algorithm';
+import { PrivateKey } from './PrivateKey';
+import { PublicKey } from './PublicKey';
+
+/**
+ * The prefix Casper wallets prepend to messages before signing them,
+ * so a signed message can never be mistaken for a signed deploy or transaction.
+ */
+export const CASPER_MESSAGE_PREFIX = 'Casper Message:\n';
+
+/**
+ * Returns the bytes actually signed for a message: the UTF-8 encoding of the message prefixed with `CASPER_MESSAGE_PREFIX`.
+ * @param message - The message to format.
+ * @returns The bytes to sign.
+ */
+export const formatCasperMessage = (message: string): Uint8Array =>
+  new TextEncoder().encode(`${CASPER_MESSAGE_PREFIX}${message}`);
+
+/**
+ * Signs a message the way Casper wallets do, e.g. to authenticate the owner of an account off-chain.
+ * @param privateKey - The private key signing the message.
+ * @param message - The message to sign.
+ * @returns The signature prefixed with the algorithm byte, as produced by `signAndAddAlgorithmBytes`.
+ *
+ * @example
+ * ```ts
+ * const signature = signMessage(privateKey, `Login nonce: ${nonce}`);
+ * const signatureHex = Conversions.encodeBase16(signature);
+ * ```
+ */
+export const signMessage = (
+  privateKey: PrivateKey,
+  message: string
+): Uint8Array =>
+  privateKey.signAndAddAlgorithmBytes(formatCasperMessage(message));
+
+/**
+ * Verifies the signature of a message signed with `signMessage` or by a Casper wallet.
+ * @param publicKey - The public key of the expected signer.
+ * @param message - The signed message, without the prefix.
+ * @param signature - The signature, as bytes or hex, prefixed with the algorithm byte or raw.
+ * @returns `true` if the signature is valid, otherwise `false`.
+ */
+export const verifyMessage = (
+  publicKey: PublicKey,
+  message: string,
+  signature: Uint8Array | string
+): boolean => {
+  let signatureBytes =
+    typeof signature === 'string'
+      ? Conversions.decodeBase16(signature)
+      : signature;
+
+  if (signatureBytes.length === RAW_SIGNATURE_LENGTH) {
+    signatureBytes = concat([
+      Uint8Array.of(publicKey.cryptoAlg),
+      signatureBytes
+    ]);
+  }
+
+  if (signatureBytes[0] !== publicKey.cryptoAlg) {
+    return false;
+  }
+
+  try {
+    return publicKey.verifySignature(
+      formatCasperMessage(message),
+      signatureBytes
+    );
+  } catch {
+    return false;
+  }
+};
@@ -4,6 +4,23 @@ import { PublicKey } from './PublicKey';
 import { PrivateKey as Ed25519PrivateKey } from './ed25519/PrivateKey';
 import { PrivateKey as Secp256k1PrivateKey } from './secp256k1/PrivateKey';
 import { KeyAlgorithm } from './Algorithm';
+import {
+  decryptKeystore,
+  encryptKeystore,
+  InvalidKeystoreError,
+  Keystore,
+  KeystoreOptions
+} from './Keystore';
+import {
+  decodeJwk,
+  decodePrivateKeyDer,
+  encodeJwk,
+  encodePrivateKeyDer,
+  Jwk,
+  KeyAlgorithmMismatchError,
+  KeyFormatError
+} from './KeyFormats';
+import { readBase64WithPEM } from './utils';
 
 /**
  * Interface representing the structure and methods of a private key, including
@@ -71,6 +88,27 @@ export class PrivateKey {
     return this.priv.toPem();
   }
 
+  /**
+   * Encrypts the private key with a password into a versioned keystore JSON,
+   * which can be persisted and decrypted with `PrivateKey.fromEncryptedJson`.
+   * @param password - The password to encrypt the key with.
+   * @param options - (Optional) The key derivation and its cost, scrypt by default.
+   * @returns A promise resolving to the keystore JSON string.
+   */
+  public async toEncryptedJson(
+    password: string,
+    options?: KeystoreOptions
+  ): Promise<string> {
+    const keystore = await encryptKeystore(
+      this.priv.toBytes(),
+      this.alg,
+      this.pub.toHex(),
+      password,
+      options
+    );
+    return JSON.stringify(keystore);
+  }
+
   /**
    * Signs a message using the private key.
    * @param msg - The message to sign.
@@ -135,7 +173,7 @@ export class PrivateKey {
 
   /**
    * Creates a private key from a hexadecimal string.
-   * @param key - The hexadecimal string of the private key.
+   * @param key - The hexadecimal string of the private key, optionally `0x`-prefixed.
    * @param algorithm - The cryptographic algorithm to use.
    * @returns A promise resolving to a PrivateKey instance.
    */
@@ -144,6 +182,105 @@ export class PrivateKey {
     algorithm: KeyAlgorithm
   ): PrivateKey {
     const priv = PrivateKeyFactory.createPrivateKeyFromHex(
+      key.replace(/^0x/i, ''),
+      algorithm
+    );
+    const pubBytes = priv.publicKeyBytes();
+    const algBytes = Uint8Array.of(algorithm);
+    const pub = PublicKey.fromBuffer(concat([algBytes, pubBytes]));
+    return new PrivateKey(algorithm, pub, priv);
+  }
+
+  /**
+   * Decrypts a private key from a keystore created with `toEncryptedJson`.
+   * @param json - The keystore JSON string or object.
+   * @param password - The password the key was encrypted with.
+   * @returns A promise resolving to a PrivateKey instance.
+   * @throws {InvalidKeystoreError} If the keystore is malformed or unsupported.
+   * @throws {KeystoreDecryptionError} If the password is wrong or the keystore was tampered with.
+   */
+  public static async fromEncryptedJson(
+    json: string | Keystore,
+    password: string
+  ): Promise<PrivateKey> {
+    const { key, algorithm, publicKey } = await decryptKeystore(
+      json,
+      password
+    );
+    const privateKey = PrivateKey.fromBytes(key, algorithm);
+
+    if (privateKey.publicKey.toHex() !== publicKey) {
+      throw new InvalidKeystoreError(
+        'public key does not match the private key'
+      );
+    }
+
+    return privateKey;
+  }
+
+  /**
+   * Exports the private key as a PKCS#8 DER structure, as produced by `openssl pkey -outform DER`.
+   * @returns The DER bytes.
+   */
+  public toDer(): Uint8Array {
+    return encodePrivateKeyDer(this.priv.toBytes(), this.alg);
+  }
+
+  /**
+   * Exports the private key as a JSON Web Key, with kty `OKP` for Ed25519 keys and `EC` for secp256k1 keys.
+   * @returns The JWK, including the public key.
+   */
+  public toJwk(): Jwk {
+    return encodeJwk(this.priv.publicKeyBytes(), this.alg, this.priv.toBytes());
+  }
+
+  /**
+   * Creates a private key from a PKCS#8 DER structure, or from a SEC 1 `ECPrivateKey` for secp256k1 keys.
+   * @param der - The DER bytes.
+   * @param algorithm - The cryptographic algorithm of the key.
+   * @returns A PrivateKey instance.
+   * @throws {KeyAlgorithmMismatchError} If the DER structure holds a key of another algorithm.
+   * @throws {KeyFormatError} If the DER structure is malformed.
+   */
+  public static fromDer(
+    der: Uint8Array,
+    algorithm: KeyAlgorithm
+  ): PrivateKey {
+    return PrivateKey.fromBytes(decodePrivateKeyDer(der, algorithm), algorithm);
+  }
+
+  /**
+   * Creates a private key from a JSON Web Key.
+   * @param jwk - The JWK, as an object or a JSON string.
+   * @param algorithm - The cryptographic algorithm of the key.
+   * @returns A PrivateKey instance.
+   * @throws {KeyAlgorithmMismatchError} If the JWK holds a key of another algorithm.
+   * @throws {KeyFormatError} If the JWK is malformed or doesn't hold a private key.
+   */
+  public static fromJwk(
+    jwk: Jwk | string,
+    algorithm: KeyAlgorithm
+  ): PrivateKey {
+    const { privateKey } = decodeJwk(jwk, algorithm);
+
+    if (!privateKey) {
+      throw new KeyFormatError('JWK does not hold a private key');
+    }
+
+    return PrivateKey.fromBytes(privateKey, algorithm);
+  }
+
+  /**
+   * Creates a private key from its raw bytes.
+   * @param key - The 32 bytes of the private key.
+   * @param algorithm - The cryptographic algorithm to use.
+   * @returns A PrivateKey instance.
+   */
+  public static fromBytes(
+    key: Uint8Array,
+    algorithm: KeyAlgorithm
+  ): PrivateKey {
+    const priv = PrivateKeyFactory.createPrivateKeyFromBytes(
       key,
       algorithm
     );
@@ -189,6 +326,18 @@ class PrivateKeyFactory {
     content: string,
     algorithm: KeyAlgorithm
   ): PrivateKeyInternal {
+    try {
+      return PrivateKeyFactory.createPrivateKeyFromBytes(
+        decodePrivateKeyDer(readBase64WithPEM(content), algorithm),
+        algorithm
+      );
+    } catch (err) {
+      if (err instanceof KeyAlgorithmMismatchError) {
+        throw err;
+      }
+      // Not a PKCS#8 or SEC 1 structure, falls back to the algorithm specific layouts
+    }
+
     switch (algorithm) {
       case KeyAlgorithm.ED25519:
         return Ed25519PrivateKey.fromPem(content);
@@ -219,4 +368,25 @@ class PrivateKeyFactory {
         throw new Error(`Unsupported key algorithm: ${algorithm}`);
     }
   }
+
+  /**
+   * Creates a PrivateKeyInternal instance from raw bytes.
+   * @param key - The bytes of the private key.
+   * @param algorithm - The cryptographic algorithm to use.
+   * @returns A PrivateKeyInternal instance.
+   * @throws Error if the algorithm is unsupported.
+   */
+  public static createPrivateKeyFromBytes(
+    key: Uint8Array,
+    algorithm: KeyAlgorithm
+  ): PrivateKeyInternal {
+    switch (algorithm) {
+      case KeyAlgorithm.ED25519:
+        return Ed25519PrivateKey.fromBytes(key);
+      case KeyAlgorithm.SECP256K1:
+        return Secp256k1PrivateKey.fromBytes(key);
+      default:
+        throw new Error(`Unsupported key algorithm: ${algorithm}`);
+    }
+  }
 }
@@ -7,6 +7,15 @@ import { Hash, AccountHash } from '../key';
 import { Conversions } from '../Conversions';
 import { IResultWithBytes } from '../clvalue';
 import { byteHash } from '../ByteConverters';
+import {
+  decodeJwk,
+  decodePublicKeyDer,
+  encodeJwk,
+  encodePublicKeyDer,
+  Jwk,
+  KeyAlgorithmMismatchError
+} from './KeyFormats';
+import { readBase64WithPEM } from './utils';
 
 /** Error thrown when the signature is empty. */
 const ErrEmptySignature = new Error('empty signature');
@@ -29,12 +38,6 @@ enum KeyAlgorithm {
 }
 
 const SMALL_BYTES_COUNT = 75;
-// prettier-ignore
-const HEX_CHARS = [
-  '0', '1', '2', '3', '4', '5', '6', '7',
-  '8', '9', 'a', 'b', 'c', 'd', 'e', 'f',
-  'A', 'B', 'C', 'D', 'E', 'F'
-];
 
 /**
  * Interface representing the internal structure of a public key, which includes
@@ -251,6 +254,53 @@ export class PublicKey {
     return signature;
   }
 
+  /**
+   * Recovers the secp256k1 public key which signed a message.
+   * Casper secp256k1 signatures are computed over the SHA-256 hash of the message,
+   * so `messageHash` is `sha256(message)`, e.g. `sha256(deploy.hash.toBytes())` for a deploy approval.
+   * @param messageHash - The SHA-256 hash of the signed message.
+   * @param signature - The signature without the algorithm byte, either 65 bytes ending with the recovery id or 64 bytes (R || S).
+   * @param recoveryId - (Optional) The recovery id (0-3), required if the signature doesn't include it.
+   * @returns A new secp256k1 PublicKey instance.
+   * @throws Error if the recovery id is missing or invalid, or if no public key can be recovered.
+   */
+  static recoverPublicKey(
+    messageHash: Uint8Array,
+    signature: Uint8Array,
+    recoveryId?: number
+  ): PublicKey {
+    return new PublicKey(
+      KeyAlgorithm.SECP256K1,
+      Secp256k1PublicKey.recoverFromHash(messageHash, signature, recoveryId)
+    );
+  }
+
+  /**
+   * Creates a secp256k1 PublicKey instance from its compressed or uncompressed bytes.
+   * @param data - The 33 bytes of the compressed key or the 65 bytes of the uncompressed key, without the algorithm byte.
+   * @returns A new secp256k1 PublicKey instance, holding the compressed key.
+   * @throws Error if the public key size is incorrect or if the key is invalid.
+   */
+  static fromSecp256k1Bytes(data: Uint8Array): PublicKey {
+    return new PublicKey(
+      KeyAlgorithm.SECP256K1,
+      new Secp256k1PublicKey(Secp256k1PublicKey.compress(data))
+    );
+  }
+
+  /**
+   * Returns the uncompressed bytes of a secp256k1 public key, as used by most tools outside of Casper.
+   * @returns The 65 bytes of the uncompressed key, without the algorithm byte.
+   * @throws Error if the public key is not a secp256k1 key.
+   */
+  toUncompressedBytes(): Uint8Array {
+    if (this.cryptoAlg !== KeyAlgorithm.SECP256K1 || !this.key) {
+      throw ErrInvalidPublicKeyAlgo;
+    }
+
+    return Secp256k1PublicKey.decompress(this.key.bytes());
+  }
+
   public toPem(): string {
     return this.key!.toPem();
   }
@@ -263,6 +313,15 @@ export class PublicKey {
    * @throws Error if the content cannot be properly parsed.
    */
   public static fromPem(content: string, algorithm: KeyAlgorithm) {
+    try {
+      return PublicKey.fromDer(readBase64WithPEM(content), algorithm);
+    } catch (err) {
+      if (err instanceof KeyAlgorithmMismatchError) {
+        throw err;
+      }
+      // Not a SubjectPublicKeyInfo structure, falls back to the algorithm specific layouts
+    }
+
     let key: PublicKeyInternal | null = null;
 
     switch (algorithm) {
@@ -279,6 +338,51 @@ export class PublicKey {
     return new PublicKey(algorithm, key);
   }
 
+  /**
+   * Exports the public key as an X.509 `SubjectPublicKeyInfo` DER structure, as produced by `openssl pkey -pubout -outform DER`.
+   * secp256k1 keys are exported uncompressed.
+   * @returns The DER bytes.
+   */
+  public toDer(): Uint8Array {
+    return encodePublicKeyDer(this.key!.bytes(), this.cryptoAlg);
+  }
+
+  /**
+   * Exports the public key as a JSON Web Key, with kty `OKP` for Ed25519 keys and `EC` for secp256k1 keys.
+   * @returns The JWK.
+   */
+  public toJwk(): Jwk {
+    return encodeJwk(this.key!.bytes(), this.cryptoAlg);
+  }
+
+  /**
+   * Creates a PublicKey instance from an X.509 `SubjectPublicKeyInfo` DER structure.
+   * @param der - The DER bytes.
+   * @param algorithm - The KeyAlgorithm of the key.
+   * @returns A new PublicKey instance.
+   * @throws {KeyAlgorithmMismatchError} If the DER structure holds a key of another algorithm.
+   * @throws {KeyFormatError} If the DER structure is malformed.
+   */
+  public static fromDer(der: Uint8Array, algorithm: KeyAlgorithm): PublicKey {
+    return PublicKey.fromBuffer(
+      concat([Uint8Array.of(algorithm), decodePublicKeyDer(der, algorithm)])
+    );
+  }
+
+  /**
+   * Creates a PublicKey instance from a JSON Web Key, holding either a public or a private key.
+   * @param jwk - The JWK, as an object or a JSON string.
+   * @param algorithm - The KeyAlgorithm of the key.
+   * @returns A new PublicKey instance.
+   * @throws {KeyAlgorithmMismatchError} If the JWK holds a key of another algorithm.
+   * @throws {KeyFormatError} If the JWK is malformed.
+   */
+  public static fromJwk(jwk: Jwk | string, algorithm: KeyAlgorithm): PublicKey {
+    const { publicKey } = decodeJwk(jwk, algorithm);
+
+    return PublicKey.fromBuffer(concat([Uint8Array.of(algorithm), publicKey]));
+  }
+
   /**
    * Checks equality between two PublicKey instances.
    * @param other - The other PublicKey instance to compare.
@@ -369,22 +473,8 @@ export class PublicKey {
    * @param input Uint8Array to generate checksummed hex string
    * @returns checksummed hex presentation string of input
    */
-  static encode = (input: Uint8Array): string => {
-    const inputNibbles = bytesToNibbles(input);
-    const hashBits = bytesToBitsCycle(byteHash(input)).values();
-
-    const hexOutputString = inputNibbles.reduce((accum, nibble) => {
-      const c = HEX_CHARS[nibble];
-
-      if (/^[a-zA-Z()]+$/.test(c) && hashBits.next().value) {
-        return accum + c.toUpperCase();
-      } else {
-        return accum + c.toLowerCase();
-      }
-    }, '');
-
-    return hexOutputString;
-  };
+  static encode = (input: Uint8Array): string =>
+    Conversions.encodeChecksummedBase16(input);
 }
 
 /**
@@ -418,21 +508,3 @@ export function isSameCase(value: string) {
 export function isValidPublicKey(key: string) {
   return /^0(1[0-9a-fA-F]{64}|2[0-9a-fA-F]{66})$/.test(key);
 }
-
-function bytesToNibbles(bytes: Uint8Array): Uint8Array {
-  const outputNibbles = bytes.reduce((accum, byte) => {
-    return concat([accum, Uint8Array.of(byte >>> 4, byte & 0x0f)]);
-  }, new Uint8Array());
-
-  return outputNibbles;
-}
-
-function bytesToBitsCycle(bytes: Uint8Array) {
-  const output: boolean[] = [];
-
-  for (let i = 0, k = 0; i < bytes.length; i++)
-    for (let j = 0; j < 8; j++)
-      output[k++] = ((bytes[i] >>> j) & 0x01) === 0x01;
-
-  return output;
-}
@@ -0,0 +1,54 @@
+import { PublicKey } from './PublicKey';
+import { PrivateKey } from './PrivateKey';
+
+/**
+ * Signs deploy and transaction hashes on behalf of an account, wherever its secret key lives:
+ * in process memory, in a browser wallet, in an HSM or behind a remote signing service.
+ *
+ * @example
+ * ```ts
+ * class WalletSigner implements Signer {
+ *   async getPublicKey(): Promise<PublicKey> {
+ *     return PublicKey.fromHex(await wallet.getActivePublicKey());
+ *   }
+ *
+ *   async signHash(hash: Uint8Array): Promise<Uint8Array> {
+ *     return wallet.sign(hash);
+ *   }
+ * }
+ *
+ * await transaction.signWith(new WalletSigner());
+ * ```
+ */
+export interface Signer {
+  /**
+   * Returns the public key the signatures can be verified with.
+   */
+  getPublicKey(): Promise<PublicKey>;
+
+  /**
+   * Signs a deploy or transaction hash.
+   * @param hash - The 32 bytes of the hash to sign.
+   * @returns A promise resolving to the signature, either raw (64 bytes) or prefixed with the algorithm byte.
+   */
+  signHash(hash: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * A `Signer` backed by a `PrivateKey` held in process memory.
+ */
+export class PrivateKeySigner implements Signer {
+  /**
+   * Creates an instance of PrivateKeySigner.
+   * @param privateKey - The private key signing the hashes.
+   */
+  constructor(private privateKey: PrivateKey) {}
+
+  public async getPublicKey(): Promise<PublicKey> {
+    return this.privateKey.publicKey;
+  }
+
+  public async signHash(hash: Uint8Array): Promise<Uint8Array> {
+    return this.privateKey.signAndAddAlgorithmBytes(hash);
+  }
+}
@@ -62,11 +62,11 @@ export class PrivateKey implements PrivateKeyInternal {
    * Validates that the byte array matches the expected length for an Ed25519 private key.
    * @param key - The byte array representing the private key.
    * @returns A new PrivateKey instance.
-   * @throws Error if the byte array length is not 64.
+   * @throws Error if the byte array length is not 32.
    */
   static fromBytes(key: Uint8Array): PrivateKey {
     if (key.length !== 32) {
-      throw new Error(`Invalid key size: expected 64 bytes, got ${key.length}`);
+      throw new Error(`Invalid key size: expected 32 bytes, got ${key.length}`);
     }
     return new PrivateKey(key);
   }
@@ -1,3 +1,9 @@
 export * from './PublicKey';
 export * from './PrivateKey';
 export * from './Algorithm';
+export * from './HDWallet';
+export * from './Keystore';
+export * from './Signer';
+export * from './Message';
+export * from './KeyFormats';
+export * from './KeyGenerator';
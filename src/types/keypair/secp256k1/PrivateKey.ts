@@ -60,11 +60,23 @@ export class PrivateKey implements PrivateKeyInternal {
    * Signs a message using the private key.
    * The message is first hashed with SHA-256 before signing.
    * @param message - The message to sign.
-   * @returns A promise that resolves to the signature bytes in compact format.
+   * @param withRecoveryId - (Optional) Whether to append the recovery id to the signature, so the
+   * public key can be recovered with `PublicKey.recoverFromHash`. Defaults to `false`.
+   * @returns The signature bytes in compact format (R || S), followed by the recovery id if requested.
    */
-  sign(message: Uint8Array): Uint8Array {
+  sign(message: Uint8Array, withRecoveryId = false): Uint8Array {
     const hash = sha256(message);
-    return secp256k1.signSync(hash, this.key, { der: false });
+
+    if (!withRecoveryId) {
+      return secp256k1.signSync(hash, this.key, { der: false });
+    }
+
+    const [signature, recoveryId] = secp256k1.signSync(hash, this.key, {
+      der: false,
+      recovered: true
+    });
+
+    return secp256k1.utils.concatBytes(signature, Uint8Array.of(recoveryId));
   }
 
   /**
@@ -7,6 +7,12 @@ import { readBase64WithPEM } from '../utils';
 /** The expected size of a secp256k1 public key in bytes. */
 const PublicKeySize = 33;
 
+/** The size of a secp256k1 public key in uncompressed format in bytes. */
+const UncompressedPublicKeySize = 65;
+
+/** The size of a compact (R || S) signature in bytes. */
+const SignatureSize = 64;
+
 /**
  * Represents a secp256k1 public key, providing methods to retrieve the compressed
  * public key bytes and verify digital signatures.
@@ -31,6 +37,14 @@ export class PublicKey {
     return this.key;
   }
 
+  /**
+   * Retrieves the byte array of the public key in uncompressed format.
+   * @returns A 65-byte `Uint8Array` starting with the `0x04` prefix.
+   */
+  toUncompressedBytes(): Uint8Array {
+    return PublicKey.decompress(this.key);
+  }
+
   /**
    * Convert this instance's public key to PEM format
    * @returns A PEM compliant string containing this instance's public key
@@ -90,6 +104,80 @@ export class PublicKey {
     return new PublicKey(new Uint8Array(Buffer.from(rawKeyHex, 'hex')));
   }
 
+  /**
+   * Recovers the public key which produced a signature.
+   * @param hash - The SHA-256 hash of the signed message, as signed by `PrivateKey.sign`.
+   * @param signature - The signature, either 65 bytes ending with the recovery id, or 64 bytes (R || S).
+   * @param recoveryId - (Optional) The recovery id (0-3), required if the signature doesn't include it.
+   * @returns A new PublicKey instance.
+   * @throws Error if the recovery id is missing or invalid, or if no public key can be recovered.
+   */
+  static recoverFromHash(
+    hash: Uint8Array,
+    signature: Uint8Array,
+    recoveryId?: number
+  ): PublicKey {
+    let compactSignature = signature;
+    let recovery = recoveryId;
+
+    if (signature.length === SignatureSize + 1) {
+      compactSignature = signature.subarray(0, SignatureSize);
+      recovery = recovery ?? signature[SignatureSize];
+    } else if (signature.length !== SignatureSize) {
+      throw new Error(
+        `Can't recover public key from signature with wrong size: ${signature.length}`
+      );
+    }
+
+    if (recovery === undefined || recovery < 0 || recovery > 3) {
+      throw new Error(`Invalid recovery id: ${recovery}`);
+    }
+
+    let key;
+    try {
+      key = secp256k1.recoverPublicKey(hash, compactSignature, recovery, true);
+    } catch (error) {
+      throw new Error(`Failed to recover public key: ${error}`);
+    }
+
+    return new PublicKey(key);
+  }
+
+  /**
+   * Converts a public key to compressed format.
+   * @param data - The public key bytes in compressed or uncompressed format.
+   * @returns The 33 bytes of the compressed public key.
+   * @throws Error if the public key size is incorrect or if the key is invalid.
+   */
+  static compress(data: Uint8Array): Uint8Array {
+    return PublicKey.parsePoint(data).toRawBytes(true);
+  }
+
+  /**
+   * Converts a public key to uncompressed format.
+   * @param data - The public key bytes in compressed or uncompressed format.
+   * @returns The 65 bytes of the uncompressed public key.
+   * @throws Error if the public key size is incorrect or if the key is invalid.
+   */
+  static decompress(data: Uint8Array): Uint8Array {
+    return PublicKey.parsePoint(data).toRawBytes(false);
+  }
+
+  private static parsePoint(data: Uint8Array): secp256k1.Point {
+    if (
+      data.length !== PublicKeySize &&
+      data.length !== UncompressedPublicKeySize
+    ) {
+      throw new Error(`Can't parse public key with wrong size: ${data.length}`);
+    }
+
+    try {
+      return secp256k1.Point.fromHex(data);
+    } catch (error) {
+      throw new Error('Invalid public key');
+    }
+  }
+
   /**
    * Creates a PublicKey instance from a byte array, validating the size and format.
    * @param data - The byte array representing the public key in compressed format.
@@ -7,7 +7,9 @@ import { Conversions } from '../Conversions';
  * @returns A base64 private key as a `Uint8Array`
  * @remarks
  * If the provided base64 `content` string does not include a header/footer,
- * it will pass through this function unaffected
+ * it will pass through this function unaffected.
+ * Blocks which don't hold a key, such as the `EC PARAMETERS` block written by
+ * `openssl ecparam -genkey`, are skipped.
  * @example
  * Example PEM:
  *
@@ -19,7 +21,11 @@ import { Conversions } from '../Conversions';
  * ```
  */
 export function readBase64WithPEM(content: string): Uint8Array {
-  const base64 = content
+  const keyBlock = content.match(
+    /-----BEGIN ([A-Z0-9 ]*KEY)-----[\s\S]*?-----END \1-----/
+  );
+
+  const base64 = (keyBlock ? keyBlock[0] : content)
     // there are two kinks of line-endings, CRLF(\r\n) and LF(\n)
     // we need handle both
     .split(/\r?\n/)
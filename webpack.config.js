@@ -57,6 +57,8 @@ const clientConfig = {
       util: require.resolve('util'),
       zlib: require.resolve('browserify-zlib'),
       fs: false,
+      os: false,
+      worker_threads: false,
       https: require.resolve('https-browserify')
     }
   },